@@ -0,0 +1,120 @@
+// atomic_write.ts
+// Replace a file's contents so that a crash or a full disk never leaves it
+// half written: the text goes to a temp file in the same directory, is
+// flushed to disk, and is renamed over the target. The target's mode and
+// ownership carry over to the new file, as far as the writer may give them.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+
+async function statOrNull(p: string): Promise<Deno.FileInfo | null> {
+  try {
+    return await Deno.stat(p);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+// Flush a directory entry change (the rename) to disk. Not every platform
+// can open a directory, and losing this only weakens durability.
+async function syncDir(dir: string) {
+  try {
+    const d = await Deno.open(dir);
+    try {
+      await d.sync();
+    } finally {
+      d.close();
+    }
+  } catch {
+    // ignore
+  }
+}
+
+async function writeSynced(file: Deno.FsFile, bytes: Uint8Array) {
+  try {
+    let n = 0;
+    while (n < bytes.length) n += await file.write(bytes.subarray(n));
+    await file.sync();
+  } finally {
+    file.close();
+  }
+}
+
+// Give `tmp`, owned by `mine`, the owner and group of `was`, or as much of
+// them as this user may: only root can give a file away, but the group can
+// be kept by a member of it. Returns what couldn't be kept, or null.
+async function keepOwner(
+  tmp: string,
+  was: { uid: number; gid: number },
+  mine: { uid: number; gid: number },
+  chown: typeof Deno.chown,
+): Promise<string | null> {
+  try {
+    await chown(tmp, was.uid, was.gid);
+    return null;
+  } catch (e) {
+    if (!(e instanceof Deno.errors.PermissionDenied)) throw e;
+  }
+  let gid = mine.gid;
+  if (gid !== was.gid) {
+    try {
+      await chown(tmp, null, was.gid);
+      gid = was.gid;
+    } catch (e) {
+      if (!(e instanceof Deno.errors.PermissionDenied)) throw e;
+    }
+  }
+  const lost = [];
+  if (mine.uid !== was.uid) lost.push(`owner ${was.uid} is now ${mine.uid}`);
+  if (gid !== was.gid) lost.push(`group ${was.gid} is now ${gid}`);
+  return lost.length
+    ? `The file's ownership couldn't be kept: ${lost.join(", ")}`
+    : null;
+}
+
+// Write `text` to `target` atomically. A symlinked target is followed, so
+// the link stays a link. Returns null, or how the file's ownership changed
+// when it belongs to another user (see keepOwner); the write is atomic
+// either way. `chown` is there for the tests.
+export async function writeFileAtomic(
+  target: string,
+  text: string,
+  chown = Deno.chown,
+): Promise<string | null> {
+  const bytes = new TextEncoder().encode(text);
+  const st = await statOrNull(target);
+  const real = st ? await Deno.realPath(target) : target;
+  const dir = path.dirname(real);
+  const tmp = path.join(
+    dir,
+    `.${path.basename(real)}.${crypto.randomUUID().slice(0, 8)}.tmp`,
+  );
+
+  let ownerChange: string | null = null;
+  const file = await Deno.open(tmp, {
+    write: true,
+    createNew: true,
+    mode: 0o666,
+  });
+  try {
+    await writeSynced(file, bytes);
+    if (st?.mode != null) await Deno.chmod(tmp, st.mode & 0o7777);
+    if (st?.uid != null && st.gid != null) {
+      const mine = await Deno.stat(tmp);
+      if (mine.uid !== st.uid || mine.gid !== st.gid) {
+        ownerChange = await keepOwner(
+          tmp,
+          { uid: st.uid, gid: st.gid },
+          { uid: mine.uid!, gid: mine.gid! },
+          chown,
+        );
+      }
+    }
+    await Deno.rename(tmp, real);
+  } catch (e) {
+    await Deno.remove(tmp).catch(() => {});
+    throw e;
+  }
+  await syncDir(dir);
+  return ownerChange;
+}
@@ -0,0 +1,63 @@
+import { assertEquals } from "@std/assert";
+import { writeFileAtomic } from "./atomic_write.ts";
+
+Deno.test(async function replacesFilesKeepingTheirMode() {
+  const dir = await Deno.makeTempDir();
+  try {
+    const file = `${dir}/radiod@fm.conf`;
+    await writeFileAtomic(file, "[global]\n");
+    assertEquals(await Deno.readTextFile(file), "[global]\n");
+
+    await Deno.chmod(file, 0o640);
+    await Deno.symlink(file, `${dir}/link.conf`);
+    await writeFileAtomic(`${dir}/link.conf`, "[FM]\n");
+    assertEquals(await Deno.readTextFile(file), "[FM]\n");
+    assertEquals((await Deno.stat(file)).mode! & 0o777, 0o640);
+    assertEquals((await Deno.lstat(`${dir}/link.conf`)).isSymlink, true);
+
+    if (Deno.uid() === 0) {
+      await Deno.chown(file, 1234, 1234);
+      assertEquals(await writeFileAtomic(file, "[FM]\nfreq = 1\n"), null);
+      const st = await Deno.stat(file);
+      assertEquals([st.uid, st.gid], [1234, 1234]);
+    }
+
+    // no temp files left behind
+    const names = [];
+    for await (const e of Deno.readDir(dir)) names.push(e.name);
+    assertEquals(names.sort(), ["link.conf", "radiod@fm.conf"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test(async function reportsAnOwnerItCantKeep() {
+  if (Deno.uid() !== 0) return; // needs a file that belongs to someone else
+  const dir = await Deno.makeTempDir();
+  try {
+    const file = `${dir}/radiod@fm.conf`;
+    await Deno.writeTextFile(file, "[global]\n");
+    await Deno.chown(file, 1234, 1234);
+    const before = await Deno.stat(file);
+    // as a user in the file's group would: it may change the group only
+    const chown: typeof Deno.chown = (p, uid, gid) => {
+      if (uid !== null) throw new Deno.errors.PermissionDenied("EPERM");
+      return Deno.chown(p, uid, gid);
+    };
+    const change = await writeFileAtomic(file, "[FM]\n", chown);
+    assertEquals(
+      change,
+      "The file's ownership couldn't be kept: owner 1234 is now 0",
+    );
+    const st = await Deno.stat(file);
+    assertEquals([st.uid, st.gid], [0, 1234]);
+    // still replaced by a rename, not rewritten in place
+    assertEquals(st.ino !== before.ino, true);
+    assertEquals(await Deno.readTextFile(file), "[FM]\n");
+    const names = [];
+    for await (const e of Deno.readDir(dir)) names.push(e.name);
+    assertEquals(names, ["radiod@fm.conf"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
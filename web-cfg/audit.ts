@@ -0,0 +1,200 @@
+// audit.ts
+// A record of every change made through the server: saves, restores,
+// merges, new files, API writes and file operations. Each is one JSON line
+// appended to the audit log (--audit=FILE, default <root>/.audit.jsonl)
+// with who made it, from where, and every key whose value changed, as
+// found by comparing the file's parsed trees before and after.
+
+import { detectFormat, parseConfigText } from "./config_file.ts";
+import { keyChanges } from "./merge.ts";
+import type { Json } from "./types.ts";
+
+export type AuditAction =
+  | "save"
+  | "restore"
+  | "merge"
+  | "new"
+  | "delete"
+  | "rename"
+  | "copy"
+  | "mkdir";
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  "save",
+  "restore",
+  "merge",
+  "new",
+  "delete",
+  "rename",
+  "copy",
+  "mkdir",
+];
+
+// Who made a change: the account ("" without accounts) and the address
+// the request came from.
+export interface Actor {
+  user: string;
+  address: string;
+}
+
+export interface AuditChange {
+  key: string; // dotted, for display
+  keys: string[];
+  // absent when the key isn't set in that version
+  old?: Json;
+  new?: Json;
+}
+
+export interface AuditEntry extends Actor {
+  time: string; // ISO 8601
+  action: AuditAction;
+  file: string; // relative to --root
+  to?: string; // where a rename or copy went
+  backup?: string | null; // the backup of the version replaced
+  version?: string; // the backup a restore put back
+  restored?: boolean; // a post-save hook failed and the change was undone
+  changes: AuditChange[] | null; // null when a version doesn't parse
+}
+
+export interface AuditFilter {
+  user?: string; // exact
+  file?: string; // substring of the file (or where it went)
+  action?: AuditAction;
+  key?: string; // substring of a changed key
+  from?: Date;
+  to?: Date;
+}
+
+// ---------------- Recording ----------------
+
+function parseOrNull(file: string, text: string | null): Json | null {
+  if (text === null) return {};
+  try {
+    return parseConfigText(detectFormat(file, text), text);
+  } catch {
+    return null;
+  }
+}
+
+// The keys that differ between two versions of `file` (null for a file
+// that doesn't exist).
+export function auditChanges(
+  file: string,
+  before: string | null,
+  after: string | null,
+): AuditChange[] | null {
+  const a = parseOrNull(file, before);
+  const b = parseOrNull(file, after);
+  if (a === null || b === null) return null;
+  return keyChanges(a, a, b).map((c) => {
+    const change: AuditChange = { key: c.path, keys: c.keys };
+    if ("ours" in c) change.old = c.ours;
+    if ("theirs" in c) change.new = c.theirs;
+    return change;
+  });
+}
+
+// Append one entry as a line of its own, even after a line that an earlier
+// failed write cut short. The file is opened for appending, so entries from
+// concurrent requests don't overwrite each other.
+export async function appendAudit(filePath: string, entry: AuditEntry) {
+  const file = await Deno.open(filePath, {
+    read: true,
+    append: true,
+    create: true,
+    mode: 0o640,
+  });
+  try {
+    let line = JSON.stringify(entry) + "\n";
+    const { size } = await file.stat();
+    if (size > 0) {
+      const last = new Uint8Array(1);
+      await file.seek(size - 1, Deno.SeekMode.Start);
+      await file.read(last);
+      if (last[0] !== 10) line = "\n" + line;
+    }
+    const bytes = new TextEncoder().encode(line);
+    let n = 0;
+    while (n < bytes.length) n += await file.write(bytes.subarray(n));
+    await file.sync();
+  } finally {
+    file.close();
+  }
+}
+
+// ---------------- Reading ----------------
+
+export function auditMatches(e: AuditEntry, f: AuditFilter): boolean {
+  const time = new Date(e.time);
+  return (!f.user || e.user === f.user) &&
+    (!f.action || e.action === f.action) &&
+    (!f.file || e.file.includes(f.file) || !!e.to?.includes(f.file)) &&
+    (!f.key || !!e.changes?.some((c) => c.key.includes(f.key!))) &&
+    (!f.from || time >= f.from) &&
+    (!f.to || time <= f.to);
+}
+
+// The entries that match, newest first, and the number of lines that
+// aren't entries (e.g. one cut short by a full disk).
+export async function readAudit(
+  filePath: string,
+  filter: AuditFilter = {},
+): Promise<{ entries: AuditEntry[]; damaged: number }> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(filePath);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return { entries: [], damaged: 0 };
+    throw e;
+  }
+  const entries: AuditEntry[] = [];
+  let damaged = 0;
+  for (const line of text.split("\n")) {
+    if (!line.trim()) continue;
+    let e: AuditEntry;
+    try {
+      e = JSON.parse(line);
+    } catch {
+      damaged++;
+      continue;
+    }
+    if (typeof e?.time !== "string" || typeof e.file !== "string") {
+      damaged++;
+    } else if (auditMatches(e, filter)) {
+      entries.push(e);
+    }
+  }
+  return { entries: entries.reverse(), damaged };
+}
+
+// ---------------- Export ----------------
+
+function csvField(v: string): string {
+  return /[",\r\n]/.test(v) ? `"${v.replaceAll('"', '""')}"` : v;
+}
+
+function csvValue(v: Json | undefined): string {
+  if (v === undefined) return "";
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+// One row per changed key (one with no key for an entry without any), so
+// the file opens in a spreadsheet as a flat list of changes.
+export function auditCsv(entries: AuditEntry[]): string {
+  const rows = [
+    ["time", "user", "address", "action", "file", "to", "key", "old", "new"],
+  ];
+  for (const e of entries) {
+    const head = [e.time, e.user, e.address, e.action, e.file, e.to ?? ""];
+    const changes = e.changes?.length ? e.changes : [null];
+    for (const c of changes) {
+      rows.push([
+        ...head,
+        c?.key ?? "",
+        csvValue(c?.old),
+        csvValue(c?.new),
+      ]);
+    }
+  }
+  return rows.map((r) => r.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
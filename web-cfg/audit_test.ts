@@ -0,0 +1,108 @@
+import { assertEquals } from "@std/assert";
+import {
+  appendAudit,
+  auditChanges,
+  auditCsv,
+  type AuditEntry,
+  readAudit,
+} from "./audit.ts";
+
+const BEFORE = `[global]
+status = hf.local
+
+[WSPR]
+freq = 14m0956
+`;
+
+Deno.test(function comparesParsedTrees() {
+  const after = BEFORE.replace("hf.local", "hf2.local")
+    .replace("freq = 14m0956", "freq = 14m0956\ndisable = yes");
+  assertEquals(auditChanges("radiod@hf.conf", BEFORE, after), [
+    {
+      key: "global.status",
+      keys: ["global", "status"],
+      old: "hf.local",
+      new: "hf2.local",
+    },
+    { key: "WSPR.disable", keys: ["WSPR", "disable"], new: true },
+  ]);
+  // comments and layout aren't changes
+  assertEquals(
+    auditChanges("radiod@hf.conf", BEFORE, "# new\n" + BEFORE),
+    [],
+  );
+  assertEquals(auditChanges("radiod@hf.conf", BEFORE, null)?.length, 2);
+  assertEquals(auditChanges("a.toml", 'a = "', "a = 1\n"), null);
+});
+
+Deno.test(async function appendsReadsAndExports() {
+  const dir = await Deno.makeTempDir();
+  try {
+    const log = `${dir}/audit.jsonl`;
+    const entry = (over: Partial<AuditEntry>): AuditEntry => ({
+      time: "2026-10-19T10:00:00.000Z",
+      user: "ann",
+      address: "192.0.2.7",
+      action: "save",
+      file: "radiod@hf.conf",
+      changes: [{ key: "global.status", keys: ["global", "status"] }],
+      ...over,
+    });
+    await appendAudit(log, entry({}));
+    await appendAudit(
+      log,
+      entry({ time: "2026-10-20T10:00:00.000Z", user: "bob", changes: null }),
+    );
+    await Deno.writeTextFile(log, '{"time": "cut sh', { append: true });
+    await appendAudit(
+      log,
+      entry({
+        time: "2026-10-21T10:00:00.000Z",
+        action: "rename",
+        to: "old/radiod@hf.conf",
+        changes: [],
+      }),
+    );
+
+    const all = await readAudit(log);
+    assertEquals(all.damaged, 1);
+    assertEquals(all.entries.map((e) => e.time.slice(8, 10)), [
+      "21",
+      "20",
+      "19",
+    ]);
+    const pick = async (f: Parameters<typeof readAudit>[1]) =>
+      (await readAudit(log, f)).entries.map((e) => e.time.slice(8, 10));
+    assertEquals(await pick({ user: "bob" }), ["20"]);
+    assertEquals(await pick({ action: "rename" }), ["21"]);
+    assertEquals(await pick({ file: "old/" }), ["21"]);
+    assertEquals(await pick({ key: "status" }), ["19"]);
+    assertEquals(
+      await pick({ from: new Date("2026-10-20"), to: new Date("2026-10-21") }),
+      ["20"],
+    );
+    assertEquals(
+      (await readAudit(`${dir}/missing.jsonl`)).entries,
+      [],
+    );
+
+    assertEquals(
+      auditCsv([
+        entry({
+          changes: [{
+            key: "global.status",
+            keys: ["global", "status"],
+            old: 'a "b"',
+            new: [1, 2],
+          }],
+        }),
+        entry({ action: "mkdir", file: "sites", changes: null }),
+      ]),
+      "time,user,address,action,file,to,key,old,new\r\n" +
+        '2026-10-19T10:00:00.000Z,ann,192.0.2.7,save,radiod@hf.conf,,global.status,"a ""b""","[1,2]"\r\n' +
+        "2026-10-19T10:00:00.000Z,ann,192.0.2.7,mkdir,sites,,,,\r\n",
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,124 @@
+// backups.ts
+// Timestamped copies of config files, taken before every overwrite. The
+// copies of <root>/<file> live in <root>/.backups/<file>/, one file per
+// version named by its UTC time (20261019T123005.123Z), and are pruned to a
+// retention count. The same folder keeps the upstream copy the file was last
+// merged with, as "upstream".
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+
+export const BACKUP_DIR = ".backups";
+const MERGE_BASE = "upstream";
+
+const ID_RE = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})\.(\d{3})Z(-\d+)?$/;
+
+export interface Backup {
+  id: string;
+  time: Date;
+  size: number;
+}
+
+export function backupsFor(root: string, rel: string): string {
+  return path.join(root, BACKUP_DIR, rel);
+}
+
+export function isBackupId(id: string): boolean {
+  return ID_RE.test(id);
+}
+
+function timeOf(id: string): Date {
+  const [, y, mo, d, h, mi, s, ms] = id.match(ID_RE)!;
+  return new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}.${ms}Z`);
+}
+
+// Newest first.
+export async function listBackups(
+  root: string,
+  rel: string,
+): Promise<Backup[]> {
+  const dir = backupsFor(root, rel);
+  const out: Backup[] = [];
+  try {
+    for await (const e of Deno.readDir(dir)) {
+      if (!e.isFile || !isBackupId(e.name)) continue;
+      const st = await Deno.stat(path.join(dir, e.name));
+      out.push({ id: e.name, time: timeOf(e.name), size: st.size });
+    }
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return [];
+    throw e;
+  }
+  return out.sort((a, b) =>
+    b.time.getTime() - a.time.getTime() || b.id.localeCompare(a.id)
+  );
+}
+
+export async function readBackup(
+  root: string,
+  rel: string,
+  id: string,
+): Promise<string> {
+  if (!isBackupId(id)) throw new Error(`Invalid backup id: ${id}`);
+  return await Deno.readTextFile(path.join(backupsFor(root, rel), id));
+}
+
+// Copy <root>/<rel> into its backup folder and drop the oldest copies
+// beyond `keep`. Returns the new backup, or null when the file doesn't
+// exist yet or backups are off (`keep` <= 0).
+export async function backupFile(
+  root: string,
+  rel: string,
+  keep: number,
+  now = new Date(),
+): Promise<Backup | null> {
+  if (keep <= 0) return null;
+  let bytes: Uint8Array;
+  try {
+    bytes = await Deno.readFile(path.join(root, rel));
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+  const dir = backupsFor(root, rel);
+  await Deno.mkdir(dir, { recursive: true });
+  const stamp = now.toISOString().replace(/[-:]/g, "");
+  for (let n = 0;; n++) {
+    const id = n ? `${stamp}-${n}` : stamp;
+    try {
+      await Deno.writeFile(path.join(dir, id), bytes, { createNew: true });
+    } catch (e) {
+      if (e instanceof Deno.errors.AlreadyExists) continue;
+      throw e;
+    }
+    for (const old of (await listBackups(root, rel)).slice(keep)) {
+      await Deno.remove(path.join(dir, old.id));
+    }
+    return { id, time: timeOf(id), size: bytes.length };
+  }
+}
+
+// The upstream text <root>/<rel> was last merged with: the base of the next
+// merge. Null before the first one.
+export async function readMergeBase(
+  root: string,
+  rel: string,
+): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(
+      path.join(backupsFor(root, rel), MERGE_BASE),
+    );
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
+
+export async function writeMergeBase(
+  root: string,
+  rel: string,
+  text: string,
+): Promise<void> {
+  const dir = backupsFor(root, rel);
+  await Deno.mkdir(dir, { recursive: true });
+  await Deno.writeTextFile(path.join(dir, MERGE_BASE), text);
+}
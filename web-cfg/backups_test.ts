@@ -0,0 +1,31 @@
+import { assertEquals } from "@std/assert";
+import { backupFile, listBackups, readBackup } from "./backups.ts";
+
+Deno.test(async function keepsTimestampedCopies() {
+  const root = await Deno.makeTempDir();
+  try {
+    const rel = "radiod@fm.conf";
+    assertEquals(await backupFile(root, rel, 3), null);
+
+    const at = (s: number) => new Date(Date.UTC(2026, 9, 19, 12, 0, s));
+    for (let i = 0; i < 5; i++) {
+      await Deno.writeTextFile(`${root}/${rel}`, `version ${i}\n`);
+      await backupFile(root, rel, 3, at(i));
+    }
+    // two saves within the same millisecond both get kept
+    const twin = await backupFile(root, rel, 3, at(4));
+    assertEquals(twin?.id, "20261019T120004.000Z-1");
+
+    const list = await listBackups(root, rel);
+    assertEquals(list.map((b) => b.id), [
+      "20261019T120004.000Z-1",
+      "20261019T120004.000Z",
+      "20261019T120003.000Z",
+    ]);
+    assertEquals(list[2].time, at(3));
+    assertEquals(await readBackup(root, rel, list[2].id), "version 3\n");
+    assertEquals(await backupFile(root, rel, 0), null);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
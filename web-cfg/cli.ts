@@ -0,0 +1,398 @@
+// cli.ts
+// Command line use without the web server, with the same parsing, patching
+// and schema checks as the web UI:
+//   main.ts get <file> [key]
+//   main.ts set <file> <key> <value> [<key> <value>...] [--preserve] [--json]
+//   main.ts diff <file> <key> <value> [<key> <value>...] [--preserve] [--json]
+//   main.ts validate <file>...
+//   main.ts fmt <file>... [--check | --write]
+//   main.ts useradd <name> --users=FILE [--role=viewer|editor|admin]
+//   main.ts passwd <name> --users=FILE
+// Exit status: 0 done, 1 failed (validation errors, differences found by
+// diff or fmt --check, missing key), 2 usage or file errors.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import { writeFileAtomic } from "./atomic_write.ts";
+import { backupFile } from "./backups.ts";
+import {
+  type ConfigFormat,
+  detectFormat,
+  parseConfigText,
+  renderConfigText,
+  SCHEMA,
+} from "./config_file.ts";
+import { unifiedDiff } from "./diff.ts";
+import { parseIniValue } from "./ka9q_ini.ts";
+import {
+  formatKeyPath,
+  getKey,
+  type KeyPath,
+  parseKeyPath,
+  setKey,
+} from "./key_path.ts";
+import { schemaFor, validate } from "./schema.ts";
+import { parseTomlText } from "./toml_cst.ts";
+import type { Json } from "./types.ts";
+import { type Role, ROLES, saveUser } from "./users.ts";
+
+export const COMMANDS = [
+  "get",
+  "set",
+  "diff",
+  "validate",
+  "fmt",
+  "useradd",
+  "passwd",
+  "help",
+];
+
+const USAGE = `Usage:
+  main.ts get <file> [key]            print a value (or the whole file as JSON)
+  main.ts set <file> <key> <value>... change keys and write the file
+  main.ts diff <file> <key> <value>... show what set would change
+  main.ts validate <file>...          check files against their schema
+  main.ts fmt <file>...               print files in the canonical layout
+  main.ts useradd <name>              add a user to the --users file
+  main.ts passwd <name>               set a new password for a user
+
+Options:
+  --preserve     set/diff: keep comments and formatting, change only the keys
+  --json         set/diff: values are JSON (default: read as the file would)
+  --check        fmt: only report files that aren't in the canonical layout
+  --write        fmt: rewrite the files
+  --root=DIR     where schema files are looked up to (default: .)
+  --backups=N    keep N backups of each file written, under DIR/.backups
+  --users=FILE   useradd/passwd: the users file (see users.ts)
+  --role=ROLE    useradd: viewer (default), editor or admin
+
+Passwords are asked for on the terminal, or read as the first line of
+standard input when it isn't one.
+
+Keys are dotted (FM.freq) or a JSON array of names (["14.074 FT8","freq"]).`;
+
+interface CliOptions {
+  preserve: boolean;
+  json: boolean;
+  check: boolean;
+  write: boolean;
+  root: string;
+  backups: number;
+  users: string | null;
+  role: Role;
+}
+
+// Where messages go and passwords come from; tests capture and supply them.
+export interface CliOutput {
+  out: (s: string) => void;
+  err: (s: string) => void;
+  password?: (prompt: string) => Promise<string>;
+}
+
+// A failure reported as "<message>" with exit status 2.
+function fail(message: string): never {
+  throw new Error(message);
+}
+
+function parseCliArgs(args: string[]): { opts: CliOptions; rest: string[] } {
+  const opts: CliOptions = {
+    preserve: false,
+    json: false,
+    check: false,
+    write: false,
+    root: Deno.cwd(),
+    backups: 0,
+    users: null,
+    role: "viewer",
+  };
+  const rest: string[] = [];
+  for (const a of args) {
+    if (a === "--preserve") opts.preserve = true;
+    else if (a === "--json") opts.json = true;
+    else if (a === "--check") opts.check = true;
+    else if (a === "--write") opts.write = true;
+    else if (a.startsWith("--root=")) {
+      opts.root = path.resolve(a.substring("--root=".length));
+    } else if (a.startsWith("--backups=")) {
+      const n = Number(a.substring("--backups=".length));
+      if (!Number.isInteger(n) || n < 0) fail(`Invalid ${a}`);
+      opts.backups = n;
+    } else if (a.startsWith("--users=")) {
+      opts.users = path.resolve(a.substring("--users=".length));
+    } else if (a.startsWith("--role=")) {
+      const role = a.substring("--role=".length) as Role;
+      if (!ROLES.includes(role)) fail(`Invalid ${a}`);
+      opts.role = role;
+    } else if (a.startsWith("--")) fail(`Unknown option ${a}`);
+    else rest.push(a);
+  }
+  return { opts, rest };
+}
+
+async function readConfig(file: string) {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(file);
+  } catch (e) {
+    fail(`${file}: ${e instanceof Error ? e.message : e}`);
+  }
+  const format = detectFormat(file, text);
+  try {
+    return { text, format, data: parseConfigText(format, text) };
+  } catch (e) {
+    fail(`${file}: ${e instanceof Error ? e.message : e}`);
+  }
+}
+
+// A value from the command line, read the way the file's format reads it:
+// `yes` is a boolean and `20` a number in ka9q INI files, everything is
+// text in environment files, and TOML values are TOML literals (or text
+// when the key holds text or the literal doesn't parse).
+function cliValue(
+  text: string,
+  format: ConfigFormat,
+  current: Json | undefined,
+  json: boolean,
+): Json {
+  if (json) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      fail(`Not JSON: ${text}`);
+    }
+  }
+  if (format === "ka9q-ini") return parseIniValue(text);
+  if (format === "env" || typeof current === "string") return text;
+  try {
+    return parseTomlText(`v = ${text}`).v;
+  } catch {
+    return text;
+  }
+}
+
+function formatValue(v: Json): string {
+  return typeof v === "string" ? v : JSON.stringify(v, null, 2);
+}
+
+function printErrors(
+  io: CliOutput,
+  file: string,
+  errors: { path: string; message: string; rule: string }[],
+) {
+  for (const e of errors) io.err(`${file}: ${e.path} ${e.message} (${e.rule})`);
+}
+
+// The new text of `file` with `pairs` (key, value, key, value...) applied,
+// or null when it fails validation.
+async function applyPairs(
+  io: CliOutput,
+  file: string,
+  pairs: string[],
+  opts: CliOptions,
+) {
+  if (!pairs.length || pairs.length % 2) {
+    fail("Expected <key> <value> pairs");
+  }
+  const { text, format, data } = await readConfig(file);
+  for (let i = 0; i < pairs.length; i += 2) {
+    let keys: KeyPath;
+    try {
+      keys = parseKeyPath(pairs[i]);
+      setKey(
+        data,
+        keys,
+        cliValue(pairs[i + 1], format, getKey(data, keys), opts.json),
+      );
+    } catch (e) {
+      fail(e instanceof Error ? e.message : String(e));
+    }
+  }
+  const errors = validate(data, await schemaFor(opts.root, file, SCHEMA));
+  if (errors.length) {
+    printErrors(io, file, errors);
+    return null;
+  }
+  const next = renderConfigText(
+    format,
+    data,
+    opts.preserve ? text : undefined,
+  );
+  return { before: text, after: next.text };
+}
+
+async function writeConfig(
+  io: CliOutput,
+  file: string,
+  text: string,
+  opts: CliOptions,
+) {
+  const rel = path.relative(opts.root, path.resolve(file));
+  if (opts.backups > 0 && !rel.startsWith("..") && !path.isAbsolute(rel)) {
+    await backupFile(opts.root, rel, opts.backups);
+  }
+  const ownerChange = await writeFileAtomic(file, text);
+  if (ownerChange) io.err(`${file}: ${ownerChange}`);
+}
+
+async function cmdGet(io: CliOutput, rest: string[]): Promise<number> {
+  if (rest.length < 1 || rest.length > 2) fail("Usage: get <file> [key]");
+  const { data } = await readConfig(rest[0]);
+  if (rest.length === 1) {
+    io.out(JSON.stringify(data, null, 2));
+    return 0;
+  }
+  const keys = parseKeyPath(rest[1]);
+  const value = getKey(data, keys);
+  if (value === undefined) {
+    io.err(`${rest[0]}: ${formatKeyPath(keys)} is not set`);
+    return 1;
+  }
+  io.out(formatValue(value));
+  return 0;
+}
+
+async function cmdSet(
+  io: CliOutput,
+  rest: string[],
+  opts: CliOptions,
+  dryRun: boolean,
+): Promise<number> {
+  if (rest.length < 1) fail(`Usage: ${dryRun ? "diff" : "set"} <file> ...`);
+  const [file, ...pairs] = rest;
+  const change = await applyPairs(io, file, pairs, opts);
+  if (!change) return 1;
+  if (dryRun) {
+    const diff = unifiedDiff(change.before, change.after, file, file);
+    if (diff) io.out(diff.trimEnd());
+    return diff ? 1 : 0;
+  }
+  if (change.after !== change.before) {
+    await writeConfig(io, file, change.after, opts);
+  }
+  return 0;
+}
+
+async function cmdValidate(
+  io: CliOutput,
+  rest: string[],
+  opts: CliOptions,
+): Promise<number> {
+  if (!rest.length) fail("Usage: validate <file>...");
+  let status = 0;
+  for (const file of rest) {
+    try {
+      const { data } = await readConfig(file);
+      const errors = validate(data, await schemaFor(opts.root, file, SCHEMA));
+      if (errors.length) {
+        printErrors(io, file, errors);
+        status = Math.max(status, 1);
+      } else {
+        io.out(`${file}: ok`);
+      }
+    } catch (e) {
+      io.err(e instanceof Error ? e.message : String(e));
+      status = 2;
+    }
+  }
+  return status;
+}
+
+// The canonical layout is what a save writes with "Preserve formatting"
+// off: comments dropped, values in their normal spelling.
+async function cmdFmt(
+  io: CliOutput,
+  rest: string[],
+  opts: CliOptions,
+): Promise<number> {
+  if (!rest.length) fail("Usage: fmt <file>...");
+  let status = 0;
+  for (const file of rest) {
+    const { text, format, data } = await readConfig(file);
+    const formatted = renderConfigText(format, data).text;
+    if (opts.check) {
+      if (formatted !== text) {
+        io.out(file);
+        status = 1;
+      }
+    } else if (opts.write) {
+      if (formatted !== text) await writeConfig(io, file, formatted, opts);
+    } else {
+      io.out(formatted.trimEnd());
+    }
+  }
+  return status;
+}
+
+// A line typed on the terminal without echoing it, or the first line of
+// standard input when that is a pipe or file.
+async function readPassword(prompt: string): Promise<string> {
+  const bytes: number[] = [];
+  const buf = new Uint8Array(1);
+  const tty = Deno.stdin.isTerminal();
+  if (tty) {
+    await Deno.stderr.write(new TextEncoder().encode(prompt));
+    Deno.stdin.setRaw(true);
+  }
+  try {
+    while (await Deno.stdin.read(buf) === 1) {
+      const c = buf[0];
+      if (c === 3 && tty) fail("Cancelled"); // Ctrl-C
+      if (c === 10 || c === 13) break;
+      if (c === 127 || c === 8) bytes.pop();
+      else bytes.push(c);
+    }
+  } finally {
+    if (tty) {
+      Deno.stdin.setRaw(false);
+      await Deno.stderr.write(new TextEncoder().encode("\n"));
+    }
+  }
+  return new TextDecoder().decode(new Uint8Array(bytes));
+}
+
+// useradd and passwd: the password is asked for twice on a terminal.
+async function cmdUser(
+  io: CliOutput,
+  rest: string[],
+  opts: CliOptions,
+  add: boolean,
+): Promise<number> {
+  const command = add ? "useradd" : "passwd";
+  if (rest.length !== 1 || !opts.users) {
+    fail(`Usage: ${command} <name> --users=FILE`);
+  }
+  const ask = io.password ?? readPassword;
+  const password = await ask(`Password for ${rest[0]}: `);
+  if (!password) fail("The password can't be empty");
+  if (Deno.stdin.isTerminal() && !io.password) {
+    if (await ask("Again: ") !== password) fail("The passwords don't match");
+  }
+  try {
+    await saveUser(opts.users, rest[0], password, add ? opts.role : null);
+  } catch (e) {
+    fail(e instanceof Error ? e.message : String(e));
+  }
+  io.out(add ? `Added ${rest[0]} (${opts.role})` : `Changed ${rest[0]}`);
+  return 0;
+}
+
+export async function runCli(
+  args: string[],
+  io: CliOutput = { out: console.log, err: console.error },
+): Promise<number> {
+  const [command, ...more] = args;
+  try {
+    const { opts, rest } = parseCliArgs(more);
+    if (command === "get") return await cmdGet(io, rest);
+    if (command === "set") return await cmdSet(io, rest, opts, false);
+    if (command === "diff") return await cmdSet(io, rest, opts, true);
+    if (command === "validate") return await cmdValidate(io, rest, opts);
+    if (command === "fmt") return await cmdFmt(io, rest, opts);
+    if (command === "useradd") return await cmdUser(io, rest, opts, true);
+    if (command === "passwd") return await cmdUser(io, rest, opts, false);
+    io.out(USAGE);
+    return command === "help" ? 0 : 2;
+  } catch (e) {
+    io.err(e instanceof Error ? e.message : String(e));
+    return 2;
+  }
+}
@@ -0,0 +1,123 @@
+import { assertEquals } from "@std/assert";
+import { runCli } from "./cli.ts";
+import { checkLogin, loadUsers } from "./users.ts";
+
+const RADIOD = `[global]
+hardware = rx888 # the SDR
+status = hf.local
+
+[WSPR]
+freq = 14m0956
+disable = no
+`;
+
+async function run(...args: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const status = await runCli(args, {
+    out: (s) => out.push(s),
+    err: (s) => err.push(s),
+  });
+  return { status, out: out.join("\n"), err: err.join("\n") };
+}
+
+Deno.test(async function getsSetsAndDiffsKeys() {
+  const dir = await Deno.makeTempDir();
+  try {
+    const file = `${dir}/radiod@hf.conf`;
+    await Deno.writeTextFile(file, RADIOD);
+    assertEquals(await run("get", file, "WSPR.freq"), {
+      status: 0,
+      out: "14m0956",
+      err: "",
+    });
+    assertEquals((await run("get", file, "WSPR.mode")).status, 1);
+
+    const diff = await run("diff", file, "WSPR.disable", "yes", "--preserve");
+    assertEquals(diff.status, 1);
+    assertEquals(diff.out.split("\n").slice(2), [
+      "@@ -4,4 +4,4 @@",
+      " ",
+      " [WSPR]",
+      " freq = 14m0956",
+      "-disable = no",
+      "+disable = yes",
+    ]);
+    assertEquals(await Deno.readTextFile(file), RADIOD);
+
+    assertEquals(
+      (await run("set", file, "global.status", "hf2.local", "--preserve"))
+        .status,
+      0,
+    );
+    assertEquals(
+      await Deno.readTextFile(file),
+      RADIOD.replace("hf.local", "hf2.local"),
+    );
+    // without --preserve the file is rewritten in the canonical layout
+    await run("set", file, "WSPR.disable", "yes");
+    assertEquals(await run("fmt", "--check", file), {
+      status: 0,
+      out: "",
+      err: "",
+    });
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test(async function validatesFiles() {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.writeTextFile(`${dir}/good.conf`, RADIOD);
+    await Deno.writeTextFile(
+      `${dir}/bad.conf`,
+      RADIOD.replace("14m0956", "fourteen"),
+    );
+    const result = await run(
+      "validate",
+      `--root=${dir}`,
+      `${dir}/good.conf`,
+      `${dir}/bad.conf`,
+    );
+    assertEquals(result.status, 1);
+    assertEquals(result.out, `${dir}/good.conf: ok`);
+    assertEquals(result.err.startsWith(`${dir}/bad.conf: WSPR.freq `), true);
+    assertEquals((await run("validate", `${dir}/missing.conf`)).status, 2);
+    assertEquals((await run("set", `${dir}/good.conf`, "x")).status, 2);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test(async function addsUsersAndResetsPasswords() {
+  const dir = await Deno.makeTempDir();
+  try {
+    const users = `${dir}/users.toml`;
+    const as = (password: string, ...args: string[]) =>
+      runCli(args, {
+        out: () => {},
+        err: () => {},
+        password: () => Promise.resolve(password),
+      });
+    assertEquals(
+      await as("a:b", "useradd", "ann", `--users=${users}`, "--role=editor"),
+      0,
+    );
+    assertEquals(await as("x", "useradd", "ann", `--users=${users}`), 2);
+    assertEquals(await as("x", "passwd", "bob", `--users=${users}`), 2);
+    assertEquals(await as("", "useradd", "bob", `--users=${users}`), 2);
+    assertEquals(await as("x", "useradd", "bob", "--role=root"), 2);
+
+    const ann = (await loadUsers(users)).get("ann");
+    assertEquals(ann?.role, "editor");
+    assertEquals(await checkLogin(await loadUsers(users), "ann", "a:b"), ann);
+
+    assertEquals(await as("new", "passwd", "ann", `--users=${users}`), 0);
+    const after = await loadUsers(users);
+    assertEquals(await checkLogin(after, "ann", "a:b"), null);
+    assertEquals((await checkLogin(after, "ann", "new"))?.role, "editor");
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
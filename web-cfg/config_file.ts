@@ -0,0 +1,187 @@
+// config_file.ts
+// Reading and writing config files in the three formats the editor handles,
+// shared by the web server and the command line: format detection, parsing
+// to data, rendering data back to text (patched into the original or from
+// scratch), merging with upstream's copy, the built-in schema rules and
+// version tokens.
+
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import {
+  copySections,
+  type IniSectionEdit,
+  type IniToggle,
+  parseIni,
+  parseIniText,
+  patchIni,
+  serializeIni,
+  stringifyIni,
+} from "./ka9q_ini.ts";
+import {
+  looksLikeEnvFile,
+  parseEnv,
+  parseEnvText,
+  patchEnv,
+  stringifyEnv,
+} from "./env_file.ts";
+import { mergeData, type MergedKey, type MergeSide } from "./merge.ts";
+import type { SchemaRules } from "./schema.ts";
+import { parseToml, parseTomlText, patchToml } from "./toml_cst.ts";
+import type { Json } from "./types.ts";
+
+// ---------------- Reading ----------------
+
+// .toml files are parsed as strict TOML. Other files are sniffed: plain
+// KEY=VALUE lines (systemd EnvironmentFile style, e.g. opusd@*.conf) are "env",
+// everything else is the INI dialect ka9q-radio reads.
+export type ConfigFormat = "toml" | "ka9q-ini" | "env";
+
+export function detectFormat(filePath: string, text: string): ConfigFormat {
+  if (filePath.endsWith(".toml")) return "toml";
+  return looksLikeEnvFile(text) ? "env" : "ka9q-ini";
+}
+
+export function parseConfigText(format: ConfigFormat, text: string): Json {
+  if (format === "toml") return parseTomlText(text);
+  if (format === "env") return parseEnvText(text);
+  return parseIniText(text);
+}
+
+export async function readConfigFile(
+  filePath: string,
+): Promise<{ data: Json; text: string; format: ConfigFormat }> {
+  const text = await Deno.readTextFile(filePath);
+  const format = detectFormat(filePath, text);
+  return { data: parseConfigText(format, text), text, format };
+}
+
+function toToml(data: Json): string {
+  // On output, we always produce TOML-compliant text where string values are quoted.
+  // std toml.stringify already emits quoted strings; no change needed beyond using it.
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return toml.stringify({ value: data as unknown });
+  }
+  return toml.stringify(data as Record<string, unknown>);
+}
+
+// ---------------- Schema (built-in defaults) ----------------
+
+// Lowest-precedence rules, applied to every file. Schema files next to the
+// configs (see schema.ts) add to and override these.
+// deno-fmt-ignore
+export const SCHEMA: SchemaRules = {
+  "*.freq": { type: "frequency" },
+  "*.samprate": { type: "frequency" },
+  "*.ttl": { type: "number", min: 0, max: 255, step: 1 },
+  // demodulator presets from ka9q-radio's presets.conf; sites add their own
+  "*.mode": {
+    enum: [
+      "am", "cam", "ame", "fm", "nfm", "wfm", "pm", "npm",
+      "usb", "lsb", "cwu", "cwl", "iq", "dsb", "spectrum",
+    ],
+    allowOther: true,
+  },
+  // usually named after the driver; it may name any section
+  "global.hardware": {
+    enum: [
+      "rx888", "airspy", "airspyhf", "funcube", "rtlsdr", "sdrplay",
+      "hackrf", "fobos", "sig_gen",
+    ],
+    allowOther: true,
+  },
+  "*.gainmode": { enum: ["high", "low"] }, // RX888 AD8370 VGA
+  // Opus accepts these block times (ms)
+  "*.blocktime": {
+    enum: ["2.5", "5", "10", "20", "40", "60", "80", "100", "120"],
+  },
+};
+
+// ---------------- Writing ----------------
+
+// Produce the text to write for `data`. With `originalText`, the changes are
+// applied to it in place and everything untouched is kept byte for byte;
+// without it the whole file is written from scratch.
+export function renderConfigText(
+  format: ConfigFormat,
+  data: Json,
+  originalText?: string,
+  toggles: IniToggle[] = [],
+  sections: IniSectionEdit[] = [],
+): { text: string; preserved: boolean } {
+  if (originalText === undefined) {
+    const text = format === "ka9q-ini"
+      ? stringifyIni(data)
+      : format === "env"
+      ? stringifyEnv(data)
+      : toToml(data);
+    return { text, preserved: false };
+  }
+  const { text } = format === "ka9q-ini"
+    ? patchIni(parseIni(originalText), data, toggles, sections)
+    : format === "env"
+    ? patchEnv(parseEnv(originalText), data)
+    : patchToml(parseToml(originalText), data);
+  return { text, preserved: true };
+}
+
+// ---------------- Merging ----------------
+
+// Merge upstream's copy of a file into the local one, key by key against
+// the version both started from (null when unknown: then only keys one side
+// lacks merge by themselves). The result is the local text with the merged
+// changes patched in, so local comments and layout stay. In ka9q-radio
+// files a section new upstream comes with its comments and disabled
+// defaults.
+export function mergeConfigText(
+  filePath: string,
+  localText: string,
+  upstreamText: string,
+  baseText: string | null,
+  picks: Record<string, MergeSide> = {},
+): { text: string; data: Json; keys: MergedKey[] } {
+  const format = detectFormat(filePath, localText);
+  const ours = parseConfigText(format, localText);
+  const theirs = parseConfigText(format, upstreamText);
+  const base = baseText === null ? {} : parseConfigText(format, baseText);
+  const { data, keys } = mergeData(base, ours, theirs, picks);
+  let originalText = localText;
+  if (format === "ka9q-ini" && isTable(data) && isTable(ours)) {
+    const added = Object.keys(data).filter((k) =>
+      isTable(data[k]) && !Object.hasOwn(ours, k)
+    );
+    if (added.length) {
+      originalText = serializeIni(
+        copySections(parseIni(localText), parseIni(upstreamText), added),
+      );
+    }
+  }
+  const { text } = renderConfigText(format, data, originalText);
+  return { text, data, keys };
+}
+
+function isTable(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// ---------------- Versions ----------------
+
+// Version token for optimistic locking: the SHA-256 of the file's text, or
+// "" when there is no such file.
+export async function versionOf(text: string | null): Promise<string> {
+  if (text === null) return "";
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(text),
+  );
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function readTextOrNull(filePath: string): Promise<string | null> {
+  try {
+    return await Deno.readTextFile(filePath);
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return null;
+    throw e;
+  }
+}
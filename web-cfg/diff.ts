@@ -0,0 +1,123 @@
+// diff.ts
+// Line diffs between two versions of a file: a longest-common-subsequence
+// alignment, and unified diff text built from it (as `diff -u` prints it).
+
+export interface DiffLine {
+  op: " " | "-" | "+";
+  line: string;
+}
+
+// Larger middles (after trimming the common head and tail) are shown as a
+// full replacement rather than aligned.
+const MAX_CELLS = 16_000_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  else lines[lines.length - 1] += "\n\\ No newline at end of file";
+  return lines;
+}
+
+export function diffLines(a: string, b: string): DiffLine[] {
+  const x = splitLines(a);
+  const y = splitLines(b);
+  let head = 0;
+  while (head < x.length && head < y.length && x[head] === y[head]) head++;
+  let tail = 0;
+  while (
+    tail < x.length - head && tail < y.length - head &&
+    x[x.length - 1 - tail] === y[y.length - 1 - tail]
+  ) {
+    tail++;
+  }
+  const xs = x.slice(head, x.length - tail);
+  const ys = y.slice(head, y.length - tail);
+
+  const middle: DiffLine[] = [];
+  const n = xs.length;
+  const m = ys.length;
+  if ((n + 1) * (m + 1) > MAX_CELLS) {
+    middle.push(...xs.map((line) => ({ op: "-" as const, line })));
+    middle.push(...ys.map((line) => ({ op: "+" as const, line })));
+  } else {
+    // lcs[i * (m + 1) + j]: common length of xs[i..] and ys[j..]
+    const lcs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * (m + 1) + j] = xs[i] === ys[j]
+          ? lcs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && xs[i] === ys[j]) {
+        middle.push({ op: " ", line: xs[i++] });
+        j++;
+      } else if (
+        j === m ||
+        (i < n && lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1])
+      ) {
+        middle.push({ op: "-", line: xs[i++] });
+      } else {
+        middle.push({ op: "+", line: ys[j++] });
+      }
+    }
+  }
+  return [
+    ...x.slice(0, head).map((line) => ({ op: " " as const, line })),
+    ...middle,
+    ...x.slice(x.length - tail).map((line) => ({ op: " " as const, line })),
+  ];
+}
+
+// Unified diff of `a` to `b`, or "" when they are the same.
+export function unifiedDiff(
+  a: string,
+  b: string,
+  fromName = "a",
+  toName = "b",
+  context = 3,
+): string {
+  const ops = diffLines(a, b);
+  if (ops.every((o) => o.op === " ")) return "";
+  // line numbers in a and b before each op
+  const aPos: number[] = [];
+  const bPos: number[] = [];
+  let ai = 0;
+  let bi = 0;
+  for (const o of ops) {
+    aPos.push(ai);
+    bPos.push(bi);
+    if (o.op !== "+") ai++;
+    if (o.op !== "-") bi++;
+  }
+  aPos.push(ai);
+  bPos.push(bi);
+
+  const out = [`--- ${fromName}`, `+++ ${toName}`];
+  let k = 0;
+  while (true) {
+    const first = ops.findIndex((o, i) => i >= k && o.op !== " ");
+    if (first === -1) break;
+    // extend the hunk while changes are at most 2 * context lines apart
+    let last = first;
+    for (let i = first; i < ops.length && i - last <= 2 * context; i++) {
+      if (ops[i].op !== " ") last = i;
+    }
+    const start = Math.max(k, first - context);
+    const end = Math.min(ops.length, last + context + 1);
+    const aCount = aPos[end] - aPos[start];
+    const bCount = bPos[end] - bPos[start];
+    const range = (pos: number, count: number) =>
+      `${count ? pos + 1 : pos},${count}`;
+    out.push(
+      `@@ -${range(aPos[start], aCount)} +${range(bPos[start], bCount)} @@`,
+    );
+    for (let i = start; i < end; i++) out.push(ops[i].op + ops[i].line);
+    k = end;
+  }
+  return out.join("\n") + "\n";
+}
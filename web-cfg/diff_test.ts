@@ -0,0 +1,39 @@
+import { assertEquals } from "@std/assert";
+import { diffLines, unifiedDiff } from "./diff.ts";
+
+Deno.test(function alignsChangedLines() {
+  assertEquals(diffLines("a\nb\nc\n", "a\nx\nc\nd\n"), [
+    { op: " ", line: "a" },
+    { op: "-", line: "b" },
+    { op: "+", line: "x" },
+    { op: " ", line: "c" },
+    { op: "+", line: "d" },
+  ]);
+  assertEquals(diffLines("same\n", "same\n"), [{ op: " ", line: "same" }]);
+});
+
+Deno.test(function printsUnifiedHunks() {
+  const a = "1\n2\n3\n4\n5\n6\n7\n8\n9\n10\n11\n12\n";
+  const b = a.replace("2\n", "two\n").replace("12\n", "12\n13\n");
+  assertEquals(
+    unifiedDiff(a, b, "old", "new", 2),
+    `--- old
++++ new
+@@ -1,4 +1,4 @@
+ 1
+-2
++two
+ 3
+ 4
+@@ -11,2 +11,3 @@
+ 11
+ 12
++13
+`,
+  );
+  assertEquals(unifiedDiff(a, a), "");
+  assertEquals(
+    unifiedDiff("", "x"),
+    "--- a\n+++ b\n@@ -0,0 +1,1 @@\n+x\n\\ No newline at end of file\n",
+  );
+});
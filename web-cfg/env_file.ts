@@ -0,0 +1,266 @@
+// env_file.ts
+// Parser and writer for systemd EnvironmentFile= style files (KEY=VALUE per
+// line), as used by opusd@, recordings@, packetd and friends:
+// - lines starting with # or ; are comments; there are no trailing comments
+// - values may be bare, "double quoted" (with \ escapes) or 'single quoted'
+// - a trailing backslash continues the value on the next line
+// - a repeated key overrides the earlier assignment
+// Every line is kept verbatim so an unedited file serializes back unchanged.
+
+import type { Json } from "./types.ts";
+
+export type EnvLine =
+  | { kind: "blank" | "comment" | "other"; raw: string }
+  | {
+    kind: "entry";
+    raw: string;
+    key: string;
+    value: string;
+    literal: string; // value as spelled in the file, quotes included
+    before: string; // raw text up to the value
+    after: string; // raw text following the value
+  };
+
+export interface EnvDocument {
+  lines: EnvLine[];
+}
+
+const KEY_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// characters a backslash escapes inside double quotes
+const DQ_ESCAPES = '"\\`$';
+
+// ---------------- Parsing ----------------
+
+// Scan one value starting at `pos`; returns the decoded value, the index just
+// past the literal and the index of the newline that ends the assignment.
+function scanValue(
+  text: string,
+  pos: number,
+): { value: string; end: number; eol: number } {
+  let value = "";
+  let end = pos; // end of the literal, excluding trailing unquoted blanks
+  let pending = ""; // unquoted whitespace, kept only if more value follows
+  let i = pos;
+  while (i < text.length) {
+    const c = text[i];
+    if (c === "\n") break;
+    if (c === "'") {
+      const close = text.indexOf("'", i + 1);
+      const stop = close === -1 ? text.length : close;
+      value += pending + text.slice(i + 1, stop);
+      pending = "";
+      i = close === -1 ? text.length : close + 1;
+      end = i;
+    } else if (c === '"') {
+      value += pending;
+      pending = "";
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === "\\" && i + 1 < text.length) {
+          const n = text[i + 1];
+          if (n === "\n") {
+            // continuation inside quotes
+          } else if (DQ_ESCAPES.includes(n)) {
+            value += n;
+          } else {
+            value += "\\" + n;
+          }
+          i += 2;
+        } else {
+          value += text[i++];
+        }
+      }
+      i = Math.min(i + 1, text.length);
+      end = i;
+    } else if (c === "\\" && i + 1 < text.length) {
+      if (text[i + 1] !== "\n") value += pending + text[i + 1];
+      else if (pending) value += pending;
+      pending = "";
+      i += 2;
+      end = i;
+    } else if (c === " " || c === "\t" || c === "\r") {
+      pending += c === "\r" ? "" : c;
+      i++;
+    } else {
+      value += pending + c;
+      pending = "";
+      i++;
+      end = i;
+    }
+  }
+  return { value, end, eol: i };
+}
+
+export function parseEnv(text: string): EnvDocument {
+  const lines: EnvLine[] = [];
+  let pos = 0;
+  while (true) {
+    const start = pos;
+    let i = pos;
+    while (i < text.length && (text[i] === " " || text[i] === "\t")) i++;
+    let eol: number;
+    const c = text[i];
+    if (i >= text.length || c === "\n" || c === "\r") {
+      eol = text.indexOf("\n", i);
+      if (eol === -1) eol = text.length;
+      lines.push({ kind: "blank", raw: text.slice(start, eol) });
+    } else if (c === "#" || c === ";") {
+      // a backslash escapes the newline in comments too
+      eol = i;
+      while (eol < text.length && text[eol] !== "\n") {
+        eol += text[eol] === "\\" ? 2 : 1;
+      }
+      eol = Math.min(eol, text.length);
+      lines.push({ kind: "comment", raw: text.slice(start, eol) });
+    } else {
+      const nl = text.indexOf("\n", i);
+      const lineEnd = nl === -1 ? text.length : nl;
+      const eq = text.indexOf("=", i);
+      const key = eq === -1 ? "" : text.slice(i, eq).trim();
+      if (eq === -1 || eq > lineEnd || !KEY_RE.test(key)) {
+        eol = lineEnd;
+        lines.push({ kind: "other", raw: text.slice(start, eol) });
+      } else {
+        let v = eq + 1;
+        while (text[v] === " " || text[v] === "\t") v++;
+        const scanned = scanValue(text, v);
+        eol = scanned.eol;
+        lines.push({
+          kind: "entry",
+          raw: text.slice(start, eol),
+          key,
+          value: scanned.value,
+          literal: text.slice(v, scanned.end),
+          before: text.slice(start, v),
+          after: text.slice(scanned.end, eol),
+        });
+      }
+    }
+    if (eol >= text.length) break;
+    pos = eol + 1;
+  }
+  return { lines };
+}
+
+export function envToJson(doc: EnvDocument): { [k: string]: Json } {
+  const out: { [k: string]: Json } = {};
+  for (const line of doc.lines) {
+    if (line.kind === "entry") out[line.key] = line.value;
+  }
+  return out;
+}
+
+export function parseEnvText(text: string): { [k: string]: Json } {
+  return envToJson(parseEnv(text));
+}
+
+// True when the text reads as an environment file: at least one assignment,
+// no [section] headers, and every non-comment line a NAME=value assignment.
+// Without headers `NAME = value` counts too, as some shipped files have it
+// (opusd@cb-am2.conf).
+export function looksLikeEnvFile(text: string): boolean {
+  let assignments = 0;
+  for (const line of parseEnv(text).lines) {
+    if (line.kind === "other") return false;
+    if (line.kind === "entry") assignments++;
+  }
+  return assignments > 0;
+}
+
+// ---------------- Writing ----------------
+
+export function serializeEnv(doc: EnvDocument): string {
+  return doc.lines.map((l) => l.raw).join("\n");
+}
+
+function quoteDouble(s: string): string {
+  let out = '"';
+  for (const c of s) out += DQ_ESCAPES.includes(c) ? "\\" + c : c;
+  return out + '"';
+}
+
+// Format a value for the file, keeping the quoting style of `literal` where
+// there is one and quoting bare values only when they need it.
+export function formatEnvValue(v: Json, literal?: string): string {
+  const s = v === null ? "" : Array.isArray(v) ? v.join(" ") : String(v);
+  const q = literal?.[0];
+  if (q === "'" && !s.includes("'")) return `'${s}'`;
+  if (q === '"') return quoteDouble(s);
+  if (/^[^\s"'\\#;]*$/.test(s) && !/\s$/.test(s)) return s;
+  return quoteDouble(s);
+}
+
+// Apply every difference between the document and `data`, leaving every
+// other line untouched: changed values are rewritten in place (the last,
+// effective assignment of a repeated key), removed keys lose all their
+// assignments and added keys go after the last assignment.
+export function patchEnv(
+  doc: EnvDocument,
+  data: Json,
+): { text: string; patched: boolean } {
+  const next = (data && typeof data === "object" && !Array.isArray(data))
+    ? data
+    : {};
+  for (const [k, v] of Object.entries(next)) {
+    if (!KEY_RE.test(k)) throw new Error(`Invalid variable name: ${k}`);
+    if (v !== null && typeof v === "object" && !Array.isArray(v)) {
+      throw new Error(`Nested tables cannot be written to an environment file`);
+    }
+  }
+  const lines = doc.lines.filter((l) =>
+    l.kind !== "entry" || next[l.key] !== undefined
+  );
+
+  const effective = new Map<string, number>();
+  lines.forEach((l, i) => {
+    if (l.kind === "entry") effective.set(l.key, i);
+  });
+  lines.forEach((l, i) => {
+    if (l.kind !== "entry" || effective.get(l.key) !== i) return;
+    const v = next[l.key];
+    if (formatEnvValue(v) === formatEnvValue(l.value)) return;
+    const literal = formatEnvValue(v, l.literal);
+    lines[i] = {
+      ...l,
+      raw: `${l.before}${literal}${l.after}`,
+      value: String(v ?? ""),
+      literal,
+    };
+  });
+
+  let at = lines.findLastIndex((l) => l.kind === "entry") + 1;
+  if (at === 0) {
+    at = lines.length;
+    while (at > 0 && lines[at - 1].kind === "blank") at--;
+  }
+  const sample = lines[at - 1];
+  const cr = doc.lines.some((l) => l.raw.endsWith("\r")) ? "\r" : "";
+  const added = Object.entries(next)
+    .filter(([k]) => !effective.has(k))
+    .map(([k, v]) => {
+      const before = sample?.kind === "entry"
+        ? sample.before.replace(/^(\s*)[^=]*?(\s*=\s*)$/, `$1${k}$2`)
+        : `${k}=`;
+      return parseEnv(`${before}${formatEnvValue(v)}${cr}`).lines[0];
+    });
+  lines.splice(at, 0, ...added);
+
+  const text = serializeEnv({ lines });
+  return { text, patched: text !== serializeEnv(doc) };
+}
+
+// Write a flat Json object from scratch, one KEY=value per line.
+export function stringifyEnv(data: Json): string {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("An environment file must be a flat table of variables");
+  }
+  const out: string[] = [];
+  for (const [k, v] of Object.entries(data)) {
+    if (!KEY_RE.test(k)) throw new Error(`Invalid variable name: ${k}`);
+    if (v !== null && typeof v === "object" && !Array.isArray(v)) {
+      throw new Error(`Nested tables cannot be written to an environment file`);
+    }
+    out.push(`${k}=${formatEnvValue(v)}`);
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,75 @@
+import { assertEquals } from "@std/assert";
+import {
+  formatEnvValue,
+  looksLikeEnvFile,
+  parseEnv,
+  parseEnvText,
+  patchEnv,
+  serializeEnv,
+} from "./env_file.ts";
+
+const SAMPLE = `# opusd instance
+PCM_IN=2m-pcm.local
+ARGS="-s --channels 2 -d /recordings/wwv \\"wwv\\" wwv-iq.local"
+QUOTED='a \\ b'
+LONG=one \\
+two
+NOTE=a # not a comment
+`;
+
+Deno.test(function parsesSystemdQuoting() {
+  assertEquals(parseEnvText(SAMPLE), {
+    PCM_IN: "2m-pcm.local",
+    ARGS: '-s --channels 2 -d /recordings/wwv "wwv" wwv-iq.local',
+    QUOTED: "a \\ b",
+    LONG: "one two",
+    NOTE: "a # not a comment",
+  });
+});
+
+Deno.test(function roundTripsAndPatches() {
+  const doc = parseEnv(SAMPLE);
+  assertEquals(serializeEnv(doc), SAMPLE);
+  const data = parseEnvText(SAMPLE);
+  data.PCM_IN = "70cm-pcm.local";
+  data.ARGS = 'say "hi"';
+  const result = patchEnv(doc, data);
+  assertEquals(result.patched, true);
+  assertEquals(
+    result.text,
+    SAMPLE.replace("2m-pcm.local", "70cm-pcm.local")
+      .replace(/^ARGS=.*$/m, 'ARGS="say \\"hi\\""'),
+  );
+});
+
+Deno.test(function addsAndRemovesKeys() {
+  const data = parseEnvText(SAMPLE);
+  delete data.QUOTED;
+  data.BITRATE = "32000";
+  const result = patchEnv(parseEnv(SAMPLE), data);
+  assertEquals(parseEnvText(result.text), data);
+  assertEquals(
+    result.text,
+    SAMPLE.replace("QUOTED='a \\ b'\n", "") + "BITRATE=32000\n",
+  );
+});
+
+Deno.test(function formatsValues() {
+  assertEquals(formatEnvValue("plain"), "plain");
+  assertEquals(formatEnvValue("two words"), '"two words"');
+  assertEquals(formatEnvValue("x", "'y'"), "'x'");
+});
+
+Deno.test(async function detectsShippedEnvFiles() {
+  const dir = new URL("./config/", import.meta.url);
+  const read = (name: string) => Deno.readTextFile(new URL(name, dir));
+  assertEquals(looksLikeEnvFile(await read("opusd@2m.conf")), true);
+  assertEquals(looksLikeEnvFile(await read("recordings@wwv.conf")), true);
+  assertEquals(looksLikeEnvFile(await read("packetd.conf")), true);
+  // spaced around "=", but still no sections
+  assertEquals(looksLikeEnvFile(await read("opusd@cb-am2.conf")), true);
+  assertEquals(looksLikeEnvFile(await read("ft4-decode2.conf")), true);
+  assertEquals(looksLikeEnvFile("[global]\nstatus = hf.local\n"), false);
+  assertEquals(looksLikeEnvFile(await read("radiod@fm.conf")), false);
+  assertEquals(looksLikeEnvFile(await read("repeater.conf")), false);
+});
@@ -0,0 +1,184 @@
+// file_tree.ts
+// The config files under --root: one folder at a time for the browser, or
+// the whole tree for the pages that scan every file. Hidden folders (.git,
+// .backups) and backup copies of folders (radio~, radio.bak) are skipped,
+// and a symlinked folder is only followed when it stays inside the root and
+// doesn't lead back to a folder above it.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import {
+  type ConfigFormat,
+  detectFormat,
+  parseConfigText,
+} from "./config_file.ts";
+
+export interface TreeFolder {
+  kind: "folder";
+  name: string;
+  rel: string; // relative to the root
+}
+
+export interface TreeFile {
+  kind: "file";
+  name: string;
+  rel: string;
+  size: number;
+  mtime: Date | null;
+  fallback: boolean; // a .conf.example or .conf.template
+  family: string | null; // see fileFamily()
+}
+
+export type TreeEntry = TreeFolder | TreeFile;
+
+const CONF_SUFFIXES = [".conf", ".conf.example", ".conf.template"];
+const BACKUP_DIR_RE = /(~|\.bak|\.old|\.orig|\.dpkg-(old|new|dist|bak))$/;
+const MAX_DEPTH = 16; // folders below the root that are still walked
+
+export function isConfFile(name: string): boolean {
+  return CONF_SUFFIXES.some((s) => name.endsWith(s));
+}
+
+export function isFallbackFile(name: string): boolean {
+  return name.endsWith(".conf.example") || name.endsWith(".conf.template");
+}
+
+export function isSkippedFolder(name: string): boolean {
+  return name.startsWith(".") || BACKUP_DIR_RE.test(name);
+}
+
+// The family of a file named <program>@<instance>.conf, e.g. "radiod@".
+export function fileFamily(rel: string): string | null {
+  const name = path.basename(rel);
+  const at = name.indexOf("@");
+  return at > 0 ? name.slice(0, at + 1) : null;
+}
+
+function within(dir: string, p: string): boolean {
+  return p === dir || p.startsWith(dir + path.SEPARATOR);
+}
+
+// One folder's entries: sub-folders first, then config files, each by
+// name. `above` holds the real paths of the folder and every folder above
+// it up to the root; a symlink to any of them would be a loop.
+async function readFolder(
+  root: string,
+  rel: string,
+  realRoot: string,
+  above: string[],
+): Promise<TreeEntry[]> {
+  const folders: TreeFolder[] = [];
+  const files: TreeFile[] = [];
+  const dir = path.join(root, rel);
+  for await (const e of Deno.readDir(dir)) {
+    const full = path.join(dir, e.name);
+    const entryRel = rel ? path.join(rel, e.name) : e.name;
+    let isDirectory = e.isDirectory;
+    let isFile = e.isFile;
+    if (e.isSymlink) {
+      let real: string;
+      try {
+        real = await Deno.realPath(full);
+        const st = await Deno.stat(real);
+        isDirectory = st.isDirectory;
+        isFile = st.isFile;
+      } catch {
+        continue; // dangling
+      }
+      if (
+        isDirectory &&
+        (!within(realRoot, real) || above.some((a) => within(real, a)))
+      ) {
+        continue;
+      }
+    }
+    if (isDirectory && !isSkippedFolder(e.name)) {
+      folders.push({ kind: "folder", name: e.name, rel: entryRel });
+    } else if (isFile && isConfFile(e.name)) {
+      const st = await Deno.stat(full);
+      files.push({
+        kind: "file",
+        name: e.name,
+        rel: entryRel,
+        size: st.size,
+        mtime: st.mtime,
+        fallback: isFallbackFile(e.name),
+        family: fileFamily(e.name),
+      });
+    }
+  }
+  const byName = (a: TreeEntry, b: TreeEntry) => a.name.localeCompare(b.name);
+  return [...folders.sort(byName), ...files.sort(byName)];
+}
+
+// The entries of the folder `rel` ("" for the root itself).
+export async function listFolder(
+  root: string,
+  rel: string,
+): Promise<TreeEntry[]> {
+  const realRoot = await Deno.realPath(root);
+  const above = [realRoot];
+  const parts = rel.split(/[\\/]/).filter(Boolean);
+  for (let i = 1; i <= parts.length; i++) {
+    const real = await Deno.realPath(path.join(root, ...parts.slice(0, i)));
+    if (!within(realRoot, real) || above.some((a) => within(real, a))) {
+      throw new Error(`Not a folder under the root: ${rel}`);
+    }
+    above.push(real);
+  }
+  return await readFolder(root, parts.join(path.SEPARATOR), realRoot, above);
+}
+
+// Whether the folder `full` is in (or will be in, once made) is really
+// under the root: the nearest of its folders that exists must be, with
+// symlinks resolved. A link to a folder elsewhere fails, so nothing is
+// moved, copied or made outside the root through one.
+export async function inRealRoot(root: string, full: string): Promise<boolean> {
+  const realRoot = await Deno.realPath(root);
+  let dir = path.dirname(full);
+  for (;;) {
+    try {
+      return within(realRoot, await Deno.realPath(dir));
+    } catch (e) {
+      if (!(e instanceof Deno.errors.NotFound)) throw e;
+    }
+    const up = path.dirname(dir);
+    if (up === dir) return false;
+    dir = up;
+  }
+}
+
+// Every config file under the root, in path order.
+export async function collectConfFiles(root: string): Promise<TreeFile[]> {
+  const realRoot = await Deno.realPath(root);
+  const out: TreeFile[] = [];
+  async function walk(rel: string, above: string[]) {
+    for (const e of await readFolder(root, rel, realRoot, above)) {
+      if (e.kind === "file") out.push(e);
+      else if (above.length <= MAX_DEPTH) {
+        const real = await Deno.realPath(path.join(root, e.rel));
+        await walk(e.rel, [...above, real]);
+      }
+    }
+  }
+  await walk("", [realRoot]);
+  return out.sort((a, b) => a.rel.localeCompare(b.rel));
+}
+
+// The format a file is read as, and why it doesn't parse (null when it does).
+export async function inspectFile(
+  full: string,
+): Promise<{ format: ConfigFormat | null; error: string | null }> {
+  let text: string;
+  try {
+    text = await Deno.readTextFile(full);
+  } catch (e) {
+    return { format: null, error: e instanceof Error ? e.message : String(e) };
+  }
+  const format = detectFormat(full, text);
+  try {
+    parseConfigText(format, text);
+    return { format, error: null };
+  } catch (e) {
+    return { format, error: e instanceof Error ? e.message : String(e) };
+  }
+}
@@ -0,0 +1,101 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+  collectConfFiles,
+  fileFamily,
+  inRealRoot,
+  inspectFile,
+  listFolder,
+} from "./file_tree.ts";
+
+Deno.test(async function walksTheTreeSkippingLoopsAndBackups() {
+  const root = await Deno.makeTempDir();
+  try {
+    for (const dir of ["radio/sub", ".backups/x.conf", "radio.bak", "old~"]) {
+      await Deno.mkdir(`${root}/${dir}`, { recursive: true });
+    }
+    for (
+      const file of [
+        "radiod@fm.conf",
+        "opusd@.conf.template",
+        "notes.txt",
+        "radio/sub/aprs.conf",
+        "radio.bak/radiod@fm.conf",
+        "old~/x.conf",
+      ]
+    ) {
+      await Deno.writeTextFile(`${root}/${file}`, "[global]\n");
+    }
+    await Deno.symlink(root, `${root}/radio/sub/loop`);
+    await Deno.symlink(`${root}/radio/sub`, `${root}/shortcut`);
+
+    const top = await listFolder(root, "");
+    assertEquals(
+      top.map((e) => [e.kind, e.rel]),
+      [
+        ["folder", "radio"],
+        ["folder", "shortcut"],
+        ["file", "opusd@.conf.template"],
+        ["file", "radiod@fm.conf"],
+      ],
+    );
+    const template = top[2];
+    assertEquals(
+      template.kind === "file" && [template.fallback, template.family],
+      [true, "opusd@"],
+    );
+    // the link back to the root is left out
+    assertEquals(
+      (await listFolder(root, "radio/sub")).map((e) => e.rel),
+      ["radio/sub/aprs.conf"],
+    );
+    await assertRejects(() => listFolder(root, "radio/sub/loop"));
+
+    assertEquals((await collectConfFiles(root)).map((f) => f.rel), [
+      "opusd@.conf.template",
+      "radio/sub/aprs.conf",
+      "radiod@fm.conf",
+      "shortcut/aprs.conf",
+    ]);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test(async function keepsOperationsInsideTheRealRoot() {
+  const root = await Deno.makeTempDir();
+  const outside = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${root}/radio`);
+    await Deno.symlink(outside, `${root}/away`);
+    await Deno.symlink(`${root}/radio`, `${root}/shortcut`);
+    assertEquals(await inRealRoot(root, `${root}/radiod@fm.conf`), true);
+    assertEquals(await inRealRoot(root, `${root}/radio/a.conf`), true);
+    assertEquals(await inRealRoot(root, `${root}/new/sub/a.conf`), true);
+    assertEquals(await inRealRoot(root, `${root}/shortcut/a.conf`), true);
+    assertEquals(await inRealRoot(root, `${root}/away/a.conf`), false);
+    assertEquals(await inRealRoot(root, `${root}/away/new/a.conf`), false);
+    // the link itself is in the root: renaming or deleting it is fine
+    assertEquals(await inRealRoot(root, `${root}/away`), true);
+  } finally {
+    await Deno.remove(root, { recursive: true });
+    await Deno.remove(outside, { recursive: true });
+  }
+});
+
+Deno.test(async function inspectsFiles() {
+  const file = await Deno.makeTempFile({ suffix: ".toml" });
+  try {
+    await Deno.writeTextFile(file, "a = 1\n");
+    assertEquals(await inspectFile(file), { format: "toml", error: null });
+    await Deno.writeTextFile(file, "a = \n");
+    assertEquals((await inspectFile(file)).error !== null, true);
+  } finally {
+    await Deno.remove(file);
+  }
+  // removed since it was listed: reported, not thrown
+  const gone = await inspectFile(file);
+  assertEquals(gone.format, null);
+  assertEquals(gone.error !== null, true);
+  assertEquals(fileFamily("config/radiod@fm.conf"), "radiod@");
+  assertEquals(fileFamily("aprs.conf"), null);
+});
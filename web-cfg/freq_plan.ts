@@ -0,0 +1,211 @@
+// freq_plan.ts
+// The frequency plan of radiod configs: every channel's frequency, mode,
+// filter edges and enabled state, the range the front end can receive, and
+// the channels that collide or fall outside it.
+//
+// A radiod config names its front end with `[global] hardware = <section>`;
+// that section's `device`, `frequency` and `samprate` give the coverage.
+// Every other section with a `freq` (or `freq0`...) key is a set of
+// channels, taking `mode`, `low` and `high` from `[global]` when it doesn't
+// set them.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import { parseFrequency, splitFrequencyList } from "./frequency.ts";
+import type { KeyPath } from "./key_path.ts";
+import type { Json } from "./types.ts";
+
+export interface Channel {
+  file: string;
+  section: string;
+  keys: KeyPath; // the freq key, plus the index for an item of a list
+  freq: string; // as written
+  hz: number;
+  mode: string | null;
+  low: number; // filter edges in Hz relative to hz
+  high: number;
+  filterGuessed: boolean; // no low/high set: edges from the mode's usual
+  disabled: boolean;
+}
+
+export interface Receiver {
+  file: string;
+  device: string | null;
+  coverage: { low: number; high: number } | null; // Hz; null if unknown
+  channels: Channel[];
+}
+
+export type PlanIssueKind = "duplicate" | "overlap" | "uncovered";
+
+export interface PlanIssue {
+  kind: PlanIssueKind;
+  file: string;
+  message: string;
+  channels: Channel[];
+}
+
+// Usual filter edges of ka9q-radio's stock presets, for channels that
+// don't set low/high. Anything else gets ±5 kHz.
+const MODE_FILTERS: Record<string, [number, number]> = {
+  am: [-5000, 5000],
+  cam: [-5000, 5000],
+  iq: [-5000, 5000],
+  fm: [-8000, 8000],
+  nfm: [-6000, 6000],
+  pm: [-8000, 8000],
+  wfm: [-100000, 100000],
+  usb: [100, 3000],
+  lsb: [-3000, -100],
+  cwu: [-250, 250],
+  cwl: [-250, 250],
+  cw: [-250, 250],
+};
+const DEFAULT_FILTER: [number, number] = [-5000, 5000];
+
+// Front ends whose samples are real rather than complex receive half their
+// sample rate; rx888 samples directly from 0 Hz.
+const DEVICES: Record<
+  string,
+  { samprate: number; real?: boolean; direct?: boolean }
+> = {
+  rx888: { samprate: 129_600_000, real: true, direct: true },
+  airspy: { samprate: 20_000_000, real: true },
+  airspyhf: { samprate: 912_000 },
+  funcube: { samprate: 192_000 },
+};
+
+const FREQ_KEY_RE = /^freq\d*$/;
+
+function isTable(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// Hz from a number or ka9q notation, which may be negative for filter edges.
+function hzOf(v: Json | undefined): number | null {
+  if (typeof v === "number") return v;
+  if (typeof v !== "string") return null;
+  const t = v.trim();
+  const hz = parseFrequency(t.replace(/^[-+]/, ""));
+  return hz === null ? null : t.startsWith("-") ? -hz : hz;
+}
+
+function coverageOf(
+  hw: { [k: string]: Json },
+): { device: string | null; coverage: Receiver["coverage"] } {
+  const device = typeof hw.device === "string" ? hw.device.toLowerCase() : null;
+  const known = device ? DEVICES[device] : undefined;
+  const samprate = hzOf(hw.samprate) ?? known?.samprate;
+  if (!samprate) return { device, coverage: null };
+  const width = known?.real ? samprate / 2 : samprate;
+  if (known?.direct) return { device, coverage: { low: 0, high: width } };
+  const center = hzOf(hw.frequency);
+  if (center === null) return { device, coverage: null };
+  return {
+    device,
+    coverage: { low: center - width / 2, high: center + width / 2 },
+  };
+}
+
+export function isRadiodConfig(file: string): boolean {
+  return path.globToRegExp("radiod@*.conf").test(path.basename(file));
+}
+
+// The receiver described by one radiod config's parsed data.
+export function receiverPlan(file: string, data: Json): Receiver {
+  const receiver: Receiver = {
+    file,
+    device: null,
+    coverage: null,
+    channels: [],
+  };
+  if (!isTable(data)) return receiver;
+  const global = isTable(data.global) ? data.global : {};
+  const hwName = typeof global.hardware === "string" ? global.hardware : null;
+  if (hwName && isTable(data[hwName])) {
+    Object.assign(receiver, coverageOf(data[hwName]));
+  }
+
+  for (const [section, table] of Object.entries(data)) {
+    if (section === "global" || section === hwName || !isTable(table)) {
+      continue;
+    }
+    const setting = (k: string) => table[k] ?? global[k];
+    const mode = setting("mode") ?? setting("preset");
+    const modeName = typeof mode === "string" ? mode.toLowerCase() : null;
+    const low = hzOf(setting("low"));
+    const high = hzOf(setting("high"));
+    const [usualLow, usualHigh] = MODE_FILTERS[modeName ?? ""] ??
+      DEFAULT_FILTER;
+    for (const [key, value] of Object.entries(table)) {
+      if (!FREQ_KEY_RE.test(key)) continue;
+      const freqs = typeof value === "number"
+        ? [String(value)]
+        : typeof value === "string"
+        ? splitFrequencyList(value)
+        : [];
+      for (const [i, freq] of freqs.entries()) {
+        const hz = hzOf(freq);
+        if (hz === null || hz === 0) continue; // 0 is a dynamic template
+        receiver.channels.push({
+          file,
+          section,
+          keys: freqs.length > 1 ? [section, key, String(i)] : [section, key],
+          freq,
+          hz,
+          mode: modeName,
+          low: low ?? usualLow,
+          high: high ?? usualHigh,
+          filterGuessed: low === null || high === null,
+          disabled: table.disable === true,
+        });
+      }
+    }
+  }
+  receiver.channels.sort((a, b) => a.hz - b.hz);
+  return receiver;
+}
+
+function label(c: Channel): string {
+  return `${c.section} ${c.freq}`;
+}
+
+// Collisions between the enabled channels of one receiver, and channels
+// outside what its front end receives.
+export function planIssues(receiver: Receiver): PlanIssue[] {
+  const issues: PlanIssue[] = [];
+  const { file, coverage } = receiver;
+  const live = receiver.channels.filter((c) => !c.disabled);
+  for (const [i, a] of live.entries()) {
+    for (const b of live.slice(i + 1)) {
+      if (a.hz === b.hz) {
+        issues.push({
+          kind: "duplicate",
+          file,
+          message: `${label(a)} and ${label(b)} are the same frequency`,
+          channels: [a, b],
+        });
+      } else if (
+        a.hz + a.low < b.hz + b.high && b.hz + b.low < a.hz + a.high
+      ) {
+        issues.push({
+          kind: "overlap",
+          file,
+          message: `${label(a)} and ${label(b)} overlap`,
+          channels: [a, b],
+        });
+      }
+    }
+  }
+  if (coverage) {
+    for (const c of receiver.channels) {
+      if (c.hz + c.low < coverage.low || c.hz + c.high > coverage.high) {
+        issues.push({
+          kind: "uncovered",
+          file,
+          message: `${label(c)} is outside the front end's coverage`,
+          channels: [c],
+        });
+      }
+    }
+  }
+  return issues;
+}
@@ -0,0 +1,56 @@
+import { assertEquals } from "@std/assert";
+import { planIssues, receiverPlan } from "./freq_plan.ts";
+
+Deno.test(function gathersChannelsAndCoverage() {
+  const rx = receiverPlan("radiod@hf.conf", {
+    global: { hardware: "rx888", mode: "usb" },
+    rx888: { device: "rx888", samprate: "64m8" },
+    FT8: { freq: "7m074 14m074", low: 100, high: "3k" },
+    AM: { mode: "am", freq: 10000000, disable: true },
+    Dynamic: { freq: 0 },
+  });
+  assertEquals(rx.device, "rx888");
+  assertEquals(rx.coverage, { low: 0, high: 32_400_000 });
+  assertEquals(
+    rx.channels.map((c) => [c.keys.join("."), c.hz, c.mode, c.low, c.high]),
+    [
+      ["FT8.freq.0", 7_074_000, "usb", 100, 3000],
+      ["AM.freq", 10_000_000, "am", -5000, 5000],
+      ["FT8.freq.1", 14_074_000, "usb", 100, 3000],
+    ],
+  );
+  assertEquals(rx.channels[1].disabled, true);
+  assertEquals(rx.channels[1].filterGuessed, true);
+
+  const airspy = receiverPlan("radiod@2m.conf", {
+    global: { hardware: "airspy" },
+    airspy: { device: "airspy", frequency: "146m" },
+  });
+  assertEquals(airspy.coverage, { low: 141_000_000, high: 151_000_000 });
+  const unknown = receiverPlan("radiod@x.conf", {
+    global: { hardware: "airspy" },
+    airspy: { device: "airspy" },
+  });
+  assertEquals(unknown.coverage, null);
+});
+
+Deno.test(function findsCollisionsAndUncoveredChannels() {
+  const rx = receiverPlan("radiod@2m.conf", {
+    global: { hardware: "airspy", mode: "fm" },
+    airspy: { device: "airspy", frequency: "146m" },
+    A: { freq: "146m52 146m52 146m525" },
+    B: { freq: "162m55" },
+    Off: { freq: "146m52", disable: true },
+  });
+  assertEquals(
+    planIssues(rx).map((
+      i,
+    ) => [i.kind, i.channels.map((c) => c.keys.join("."))]),
+    [
+      ["duplicate", ["A.freq.0", "A.freq.1"]],
+      ["overlap", ["A.freq.0", "A.freq.2"]],
+      ["overlap", ["A.freq.1", "A.freq.2"]],
+      ["uncovered", ["B.freq"]],
+    ],
+  );
+});
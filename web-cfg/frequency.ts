@@ -0,0 +1,88 @@
+// frequency.ts
+// ka9q-radio frequency notation, as read by its parse_frequency():
+// an SI letter (k, m, g) stands in for the decimal point, so 88m3 is
+// 88.3 MHz, 136k000 is 136 kHz and 12k is 12 kHz. Plain numbers are Hz.
+
+const UNITS: Array<[string, number]> = [["g", 9], ["m", 6], ["k", 3]];
+
+const PLAIN_RE = /^(\d+)(?:\.(\d+))?$/;
+const SUFFIX_RE = /^(\d+)([kmg])(\d*)$/i;
+const DECIMAL_SUFFIX_RE = /^(\d*)\.(\d+)([kmg])$/i;
+
+// Hz for a single frequency in ka9q notation, or null when it isn't one.
+export function parseFrequency(s: string): number | null {
+  const t = s.trim();
+  let int: string, frac: string, exp: number;
+  let m = t.match(PLAIN_RE);
+  if (m) {
+    [int, frac, exp] = [m[1], m[2] ?? "", 0];
+  } else if ((m = t.match(SUFFIX_RE))) {
+    [int, frac] = [m[1], m[3]];
+    exp = unitExponent(m[2]);
+  } else if ((m = t.match(DECIMAL_SUFFIX_RE))) {
+    [int, frac] = [m[1] || "0", m[2]];
+    exp = unitExponent(m[3]);
+  } else {
+    return null;
+  }
+  // scale the digit string so whole-Hz results stay exact
+  const digits = Number(int + frac);
+  const shift = exp - frac.length;
+  return shift >= 0 ? digits * 10 ** shift : digits / 10 ** -shift;
+}
+
+function unitExponent(letter: string): number {
+  return UNITS.find(([u]) => u === letter.toLowerCase())![1];
+}
+
+export function isFrequency(s: string): boolean {
+  return parseFrequency(s) !== null;
+}
+
+// Canonical ka9q spelling of a frequency: the largest unit that fits, with
+// the unit letter as decimal point and no trailing zeros (88300000 -> 88m3).
+export function formatFrequency(hz: number): string {
+  if (!Number.isInteger(hz)) return String(hz);
+  for (const [u, exp] of UNITS) {
+    const scale = 10 ** exp;
+    if (hz >= scale) {
+      const whole = Math.floor(hz / scale);
+      const rest = String(hz - whole * scale).padStart(exp, "0")
+        .replace(/0+$/, "");
+      return `${whole}${u}${rest}`;
+    }
+  }
+  return String(hz);
+}
+
+// Human-readable value, e.g. "88.3 MHz" or "12 kHz".
+export function describeFrequency(hz: number): string {
+  const units: Array<[string, number]> = [
+    ["GHz", 1e9],
+    ["MHz", 1e6],
+    ["kHz", 1e3],
+  ];
+  for (const [label, scale] of units) {
+    if (hz >= scale) {
+      return `${Number((hz / scale).toFixed(6))} ${label}`;
+    }
+  }
+  return `${hz} Hz`;
+}
+
+// ---------------- Lists ----------------
+
+// radiod accepts several channels in one quoted, space-separated freq value.
+export function splitFrequencyList(s: string): string[] {
+  return s.trim().split(/\s+/).filter((x) => x !== "");
+}
+
+export function isFrequencyList(s: string): boolean {
+  const items = splitFrequencyList(s);
+  return items.length > 0 && items.every(isFrequency);
+}
+
+// Keys whose values radiod parses as frequencies or rates.
+export function isFrequencyKey(key: string): boolean {
+  return /^(freq\d*|frequency|samprate|reference)$/i.test(key);
+}
@@ -0,0 +1,38 @@
+import { assertEquals } from "@std/assert";
+import {
+  describeFrequency,
+  formatFrequency,
+  isFrequencyList,
+  parseFrequency,
+  splitFrequencyList,
+} from "./frequency.ts";
+
+Deno.test(function parsesKa9qNotation() {
+  assertEquals(parseFrequency("88m3"), 88_300_000);
+  assertEquals(parseFrequency("12k"), 12_000);
+  assertEquals(parseFrequency("136k000"), 136_000);
+  assertEquals(parseFrequency("1m836600"), 1_836_600);
+  assertEquals(parseFrequency("5330k500"), 5_330_500);
+  assertEquals(parseFrequency("64M8"), 64_800_000);
+  assertEquals(parseFrequency("14.074m"), 14_074_000);
+  assertEquals(parseFrequency("48000"), 48_000);
+  assertEquals(parseFrequency("14m07a"), null);
+  assertEquals(parseFrequency(""), null);
+});
+
+Deno.test(function normalisesAndDescribes() {
+  assertEquals(formatFrequency(88_300_000), "88m3");
+  assertEquals(formatFrequency(136_000), "136k");
+  assertEquals(formatFrequency(5_330_500), "5m3305");
+  assertEquals(formatFrequency(500), "500");
+  assertEquals(describeFrequency(88_300_000), "88.3 MHz");
+  assertEquals(describeFrequency(12_000), "12 kHz");
+  assertEquals(describeFrequency(0), "0 Hz");
+});
+
+Deno.test(function splitsLists() {
+  const s = "136k000 474k200  1m836600";
+  assertEquals(splitFrequencyList(s), ["136k000", "474k200", "1m836600"]);
+  assertEquals(isFrequencyList(s), true);
+  assertEquals(isFrequencyList("136k000 oops"), false);
+});
@@ -0,0 +1,213 @@
+// hooks.ts
+// Post-save hooks: commands run after a config file is written, e.g. to
+// restart the daemon that reads it. They are listed in a TOML file given with
+// --hooks=FILE, which must live outside --root so that the editor itself
+// can't change them:
+//
+//   [[hook]]
+//   files = ["radiod@*.conf"]     # globs, as in schema files
+//   command = ["systemctl", "restart", "radiod@${instance}"]
+//   timeout = 30                  # seconds (default 30)
+//   restore_on_failure = true     # put the previous file back if it fails
+//
+// Commands are run directly, not through a shell. Variables: ${file} (path
+// relative to --root), ${path} (absolute path), ${name} (file name), ${stem}
+// (name without extension), ${service} and ${instance} (the stem before and
+// after its "@"). The hooks file is re-read whenever it changes.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+
+export interface Hook {
+  files: string[]; // globs; without a "/" they match the file name
+  command: string[];
+  timeout: number; // seconds
+  restoreOnFailure: boolean;
+}
+
+export interface HookResult {
+  command: string[]; // as run, with variables expanded
+  code: number | null; // exit status; null if it didn't start or timed out
+  timedOut: boolean;
+  output: string; // stdout, then stderr
+  ok: boolean;
+  restore?: boolean; // run again after the previous file was put back
+}
+
+const DEFAULT_TIMEOUT = 30;
+const MAX_OUTPUT = 64 * 1024;
+const VARIABLE_RE = /\$\{(\w+)\}/g;
+const VARIABLES = ["file", "path", "name", "stem", "service", "instance"];
+
+// ---------------- Loading ----------------
+
+const cache = new Map<string, { mtime: number; hooks: Hook[] }>();
+
+function parseHooks(text: string): Hook[] {
+  const raw = toml.parse(text);
+  const list = raw.hook ?? [];
+  if (!Array.isArray(list)) throw new Error("hook must be an array of tables");
+  return list.map((h, i) => {
+    const where = `hook ${i + 1}`;
+    if (!h || typeof h !== "object" || Array.isArray(h)) {
+      throw new Error(`${where} must be a table`);
+    }
+    const files = typeof h.files === "string" ? [h.files] : h.files;
+    if (
+      !Array.isArray(files) || !files.length ||
+      !files.every((f) => typeof f === "string")
+    ) {
+      throw new Error(`${where}: files must be a glob or an array of globs`);
+    }
+    const command = typeof h.command === "string"
+      ? h.command.split(/\s+/).filter(Boolean)
+      : h.command;
+    if (
+      !Array.isArray(command) || !command.length ||
+      !command.every((c) => typeof c === "string")
+    ) {
+      throw new Error(`${where}: command must be a string or an array`);
+    }
+    for (const part of command) {
+      for (const [, name] of part.matchAll(VARIABLE_RE)) {
+        if (!VARIABLES.includes(name)) {
+          throw new Error(`${where}: unknown variable \${${name}}`);
+        }
+      }
+    }
+    const timeout = h.timeout ?? DEFAULT_TIMEOUT;
+    if (typeof timeout !== "number" || !(timeout > 0)) {
+      throw new Error(`${where}: timeout must be a positive number`);
+    }
+    return {
+      files,
+      command,
+      timeout,
+      restoreOnFailure: h.restore_on_failure === true,
+    };
+  });
+}
+
+export async function loadHooks(filePath: string): Promise<Hook[]> {
+  const st = await Deno.stat(filePath);
+  const mtime = st.mtime?.getTime() ?? 0;
+  const hit = cache.get(filePath);
+  if (hit && hit.mtime === mtime) return hit.hooks;
+  let hooks: Hook[];
+  try {
+    hooks = parseHooks(await Deno.readTextFile(filePath));
+  } catch (e) {
+    throw new Error(`${filePath}: ${e instanceof Error ? e.message : e}`);
+  }
+  cache.set(filePath, { mtime, hooks });
+  return hooks;
+}
+
+// ---------------- Matching ----------------
+
+export function hookVariables(
+  root: string,
+  filePath: string,
+): Record<string, string> {
+  const name = path.basename(filePath);
+  const stem = name.slice(0, name.length - path.extname(name).length);
+  const at = stem.indexOf("@");
+  return {
+    file: path.relative(root, filePath),
+    path: path.resolve(filePath),
+    name,
+    stem,
+    service: at === -1 ? stem : stem.slice(0, at),
+    instance: at === -1 ? "" : stem.slice(at + 1),
+  };
+}
+
+export function hooksFor(
+  hooks: Hook[],
+  root: string,
+  filePath: string,
+): Hook[] {
+  const vars = hookVariables(root, filePath);
+  return hooks.filter((h) =>
+    h.files.some((glob) =>
+      path.globToRegExp(glob).test(glob.includes("/") ? vars.file : vars.name)
+    )
+  );
+}
+
+// ---------------- Running ----------------
+
+function expand(part: string, vars: Record<string, string>): string {
+  return part.replace(VARIABLE_RE, (_, name) => vars[name]);
+}
+
+export async function runHook(
+  hook: Hook,
+  vars: Record<string, string>,
+): Promise<HookResult> {
+  const command = hook.command.map((c) => expand(c, vars));
+  let child: Deno.ChildProcess;
+  try {
+    child = new Deno.Command(command[0], {
+      args: command.slice(1),
+      stdin: "null",
+      stdout: "piped",
+      stderr: "piped",
+    }).spawn();
+  } catch (e) {
+    const output = e instanceof Error ? e.message : String(e);
+    return { command, code: null, timedOut: false, output, ok: false };
+  }
+
+  // Output is read as it comes. Once the command has exited, a process it
+  // left behind may hold the pipes open: stop waiting for them after a while.
+  const chunks: Uint8Array[][] = [[], []];
+  const readers = [child.stdout, child.stderr].map((s) => s.getReader());
+  const reading = Promise.all(readers.map(async (reader, i) => {
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        chunks[i].push(value);
+      }
+    } catch {
+      // cancelled
+    }
+  }));
+
+  let timedOut = false;
+  const kill = (signal: Deno.Signal) => {
+    try {
+      child.kill(signal);
+    } catch {
+      // already exited
+    }
+  };
+  const term = setTimeout(() => {
+    timedOut = true;
+    kill("SIGTERM");
+  }, hook.timeout * 1000);
+  const hard = setTimeout(() => kill("SIGKILL"), hook.timeout * 1000 + 2000);
+  const status = await child.status;
+  clearTimeout(term);
+  clearTimeout(hard);
+  let grace: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    reading,
+    new Promise((resolve) => grace = setTimeout(resolve, 1000)),
+  ]);
+  clearTimeout(grace);
+  await Promise.all(readers.map((r) => r.cancel().catch(() => {})));
+
+  const decode = (parts: Uint8Array[]) => {
+    const decoder = new TextDecoder();
+    return parts.map((p) => decoder.decode(p, { stream: true })).join("") +
+      decoder.decode();
+  };
+  let output = decode(chunks[0]) + decode(chunks[1]);
+  if (output.length > MAX_OUTPUT) {
+    output = output.slice(0, MAX_OUTPUT) + "\n… (output truncated)";
+  }
+  const code = timedOut ? null : status.code;
+  return { command, code, timedOut, output, ok: code === 0 };
+}
@@ -0,0 +1,90 @@
+import { assertEquals } from "@std/assert";
+import { hooksFor, hookVariables, loadHooks, runHook } from "./hooks.ts";
+
+Deno.test(async function matchesFilesAndExpandsVariables() {
+  const dir = await Deno.makeTempDir();
+  try {
+    const file = `${dir}/hooks.toml`;
+    await Deno.writeTextFile(
+      file,
+      `[[hook]]
+files = ["radiod@*.conf"]
+command = ["systemctl", "restart", "radiod@\${instance}"]
+restore_on_failure = true
+
+[[hook]]
+files = "sites/*/opusd@*.conf"
+command = "echo \${service} \${file}"
+timeout = 5
+`,
+    );
+    const hooks = await loadHooks(file);
+    assertEquals(hooks[0].timeout, 30);
+    assertEquals(hooks[1].command, ["echo", "${service}", "${file}"]);
+    const root = "/srv/conf";
+    assertEquals(hooksFor(hooks, root, `${root}/x/radiod@fm.conf`), [hooks[0]]);
+    assertEquals(hooksFor(hooks, root, `${root}/sites/a/opusd@2m.conf`), [
+      hooks[1],
+    ]);
+    assertEquals(hooksFor(hooks, root, `${root}/opusd@2m.conf`), []);
+    assertEquals(hookVariables(root, `${root}/sites/a/radiod@14.074.conf`), {
+      file: "sites/a/radiod@14.074.conf",
+      path: "/srv/conf/sites/a/radiod@14.074.conf",
+      name: "radiod@14.074.conf",
+      stem: "radiod@14.074",
+      service: "radiod",
+      instance: "14.074",
+    });
+
+    await Deno.writeTextFile(
+      file,
+      `[[hook]]\nfiles = "*.conf"\ncommand = "x \${nope}"\n`,
+    );
+    let error = "";
+    await loadHooks(file).catch((e) => error = e.message);
+    assertEquals(error.endsWith("hook 1: unknown variable ${nope}"), true);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test(async function runsStubCommands() {
+  const dir = await Deno.makeTempDir();
+  try {
+    // stands in for systemctl: prints its arguments and exits with the
+    // number after "radiod@"
+    const stub = `${dir}/systemctl`;
+    await Deno.writeTextFile(
+      stub,
+      '#!/bin/sh\necho "systemctl $*"\necho oops >&2\n[ "$1" = slow ] && sleep 3\nexit ${2#radiod@}\n',
+    );
+    await Deno.chmod(stub, 0o755);
+    const hook = {
+      files: ["*.conf"],
+      command: [stub, "restart", "radiod@${instance}"],
+      timeout: 1,
+      restoreOnFailure: false,
+    };
+    const vars = (instance: string) =>
+      hookVariables(dir, `${dir}/radiod@${instance}.conf`);
+
+    assertEquals(await runHook(hook, vars("0")), {
+      command: [stub, "restart", "radiod@0"],
+      code: 0,
+      timedOut: false,
+      output: "systemctl restart radiod@0\noops\n",
+      ok: true,
+    });
+    const failed = await runHook(hook, vars("3"));
+    assertEquals([failed.code, failed.ok], [3, false]);
+
+    const slow = await runHook({ ...hook, command: [stub, "slow"] }, vars(""));
+    assertEquals([slow.code, slow.timedOut, slow.ok], [null, true, false]);
+    assertEquals(slow.output.startsWith("systemctl slow\n"), true);
+
+    const missing = await runHook({ ...hook, command: [`${dir}/nope`] }, {});
+    assertEquals([missing.code, missing.ok], [null, false]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -0,0 +1,620 @@
+// ka9q_ini.ts
+// Parser and writer for the INI dialect read by ka9q-radio (iniparser):
+// - [section] headers may contain spaces, e.g. [10m FM]
+// - values are bare or quoted ("..." or '...'); bare values end at # or ;
+// - a trailing backslash continues the value on the next physical line
+// - yes/no and true/false are booleans; repeated keys: the last one wins
+// - "#key = value" inside a section is a documented default, kept as a
+//   disabled option that can be switched on
+// Every physical line is kept verbatim so an unedited document serializes
+// back to exactly the original text.
+
+import type { Json } from "./types.ts";
+
+// A key = value assignment. `before + literal + after === raw`.
+interface IniAssignment {
+  raw: string;
+  section: string | null; // null for keys above the first header
+  key: string;
+  value: Json;
+  literal: string; // value as spelled in the file, quotes included
+  before: string; // raw text up to the value
+  after: string; // raw text following the value (spacing + comment)
+}
+
+export type IniEntry = IniAssignment & { kind: "entry" };
+
+// A commented-out assignment inside a section, e.g. "#samprate = 64m8 # Hz":
+// a documented default that can be switched on by removing `prefix`.
+export type IniDisabled = IniAssignment & { kind: "disabled"; prefix: string };
+
+export type IniLine =
+  | { kind: "blank" | "comment" | "other"; raw: string }
+  | { kind: "section"; raw: string; name: string }
+  | IniEntry
+  | IniDisabled;
+
+export interface IniDocument {
+  lines: IniLine[];
+}
+
+const SECTION_RE = /^\s*\[([^\]]*)\](.*)$/;
+const ENTRY_RE = /^(\s*)([^\s=#;\[][^=]*?)(\s*=[ \t]*)/;
+// comment marker in front of something that reads as "key = value"
+const DISABLED_RE = /^\s*[#;][ \t]*(?=[A-Za-z][\w.-]*[ \t]*=)/;
+
+// ---------------- Parsing ----------------
+
+// Split text into logical lines: physical lines joined where one ends in "\".
+// "\r" is left inside raw so CRLF files survive the round trip.
+function logicalLines(text: string): string[] {
+  const physical = text.split("\n");
+  const out: string[] = [];
+  let acc: string | null = null;
+  for (const line of physical) {
+    acc = acc === null ? line : `${acc}\n${line}`;
+    if (/\\\s*$/.test(line)) continue;
+    out.push(acc);
+    acc = null;
+  }
+  if (acc !== null) out.push(acc);
+  return out;
+}
+
+// Remove the line continuations from a raw value, as iniparser does.
+function joinContinuations(s: string): string {
+  return s.replace(/\\[ \t\r]*\n/g, "");
+}
+
+export function parseIniValue(literal: string): Json {
+  const joined = joinContinuations(literal).trim();
+  const q = joined[0];
+  if ((q === '"' || q === "'") && joined.length >= 2 && joined.endsWith(q)) {
+    return joined.slice(1, -1);
+  }
+  if (/^(yes|true)$/i.test(joined)) return true;
+  if (/^(no|false)$/i.test(joined)) return false;
+  if (/^[+-]?(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?$/.test(joined)) {
+    return Number(joined);
+  }
+  return joined;
+}
+
+function parseEntry(raw: string, section: string | null): IniEntry | null {
+  const m = raw.match(ENTRY_RE);
+  if (!m) return null;
+  const before = m[0];
+  const rest = raw.slice(before.length);
+  let end: number;
+  const q = rest[0];
+  if (q === '"' || q === "'") {
+    const close = rest.indexOf(q, 1);
+    end = close === -1 ? rest.length : close + 1;
+  } else {
+    const c = rest.search(/[#;]/);
+    end = c === -1 ? rest.length : c;
+    // trailing spacing belongs to `after`
+    while (end > 0 && /\s/.test(rest[end - 1])) end--;
+  }
+  const literal = rest.slice(0, end);
+  return {
+    kind: "entry",
+    raw,
+    section,
+    key: m[2].trim(),
+    value: parseIniValue(literal),
+    literal,
+    before,
+    after: rest.slice(end),
+  };
+}
+
+function parseDisabled(raw: string, section: string): IniDisabled | null {
+  const prefix = raw.match(DISABLED_RE)?.[0];
+  if (prefix === undefined) return null;
+  const e = parseEntry(raw.slice(prefix.length), section);
+  if (!e) return null;
+  return { ...e, kind: "disabled", raw, prefix, before: prefix + e.before };
+}
+
+export function parseIni(text: string): IniDocument {
+  const lines: IniLine[] = [];
+  let section: string | null = null;
+  for (const raw of logicalLines(text)) {
+    const trimmed = raw.trim();
+    if (trimmed === "") {
+      lines.push({ kind: "blank", raw });
+      continue;
+    }
+    if (trimmed.startsWith("#") || trimmed.startsWith(";")) {
+      lines.push(
+        (section !== null && parseDisabled(raw, section)) ||
+          { kind: "comment", raw },
+      );
+      continue;
+    }
+    const sm = raw.match(SECTION_RE);
+    if (sm && /^\s*([#;].*)?$/.test(sm[2])) {
+      section = sm[1].trim();
+      lines.push({ kind: "section", raw, name: section });
+      continue;
+    }
+    lines.push(parseEntry(raw, section) ?? { kind: "other", raw });
+  }
+  return { lines };
+}
+
+// Json tree used by the form: keys above the first section at the top level,
+// one object per section (repeated sections merge, repeated keys: last wins).
+export function iniToJson(doc: IniDocument): { [k: string]: Json } {
+  const root: { [k: string]: Json } = {};
+  for (const line of doc.lines) {
+    if (line.kind === "section") {
+      const existing = root[line.name];
+      if (
+        !existing || typeof existing !== "object" || Array.isArray(existing)
+      ) {
+        root[line.name] = {};
+      }
+    } else if (line.kind === "entry") {
+      if (line.section === null) {
+        root[line.key] = line.value;
+      } else {
+        (root[line.section] as { [k: string]: Json })[line.key] = line.value;
+      }
+    }
+  }
+  return root;
+}
+
+export function parseIniText(text: string): { [k: string]: Json } {
+  return iniToJson(parseIni(text));
+}
+
+// ---------------- Disabled options ----------------
+
+// Switch a line on (uncomment a disabled default) or off (comment out a live
+// entry). `line` indexes IniDocument.lines of the original text.
+export interface IniToggle {
+  line: number;
+  enabled: boolean;
+}
+
+export function applyToggles(
+  doc: IniDocument,
+  toggles: IniToggle[],
+): IniDocument {
+  const lines = doc.lines.slice();
+  for (const t of toggles) {
+    const l = lines[t.line];
+    if (t.enabled && l?.kind === "disabled") {
+      lines[t.line] = parseEntry(l.raw.slice(l.prefix.length), l.section)!;
+    } else if (!t.enabled && l?.kind === "entry" && l.section !== null) {
+      lines[t.line] = parseDisabled(`#${l.raw}`, l.section)!;
+    } else {
+      throw new Error(`Line ${t.line + 1} cannot be toggled`);
+    }
+  }
+  return { lines };
+}
+
+export interface IniOption {
+  line: number;
+  section: string;
+  key: string;
+  value: Json;
+  comment: string; // trailing comment, e.g. "# Hz"
+}
+
+// Where each setting lives, for the form's on/off toggles: the effective live
+// entry per [section, key], and the disabled defaults of each section whose
+// key isn't already set there.
+export interface IniLayout {
+  live: Map<string, IniOption>; // keyed by JSON.stringify([section, key])
+  disabled: IniOption[];
+}
+
+export function optionLayout(doc: IniDocument): IniLayout {
+  const live = new Map<string, IniOption>();
+  const disabled: IniOption[] = [];
+  doc.lines.forEach((l, line) => {
+    if ((l.kind !== "entry" && l.kind !== "disabled") || l.section === null) {
+      return;
+    }
+    const opt = {
+      line,
+      section: l.section,
+      key: l.key,
+      value: l.value,
+      comment: l.after.trim(),
+    };
+    if (l.kind === "entry") live.set(JSON.stringify([l.section, l.key]), opt);
+    else disabled.push(opt);
+  });
+  return {
+    live,
+    disabled: disabled.filter((o) =>
+      !live.has(JSON.stringify([o.section, o.key]))
+    ),
+  };
+}
+
+// ---------------- Section edits ----------------
+
+// A section-level edit from the form, applied by name before values are
+// patched, so that a section's comments and disabled defaults go with it.
+export type IniSectionEdit =
+  | { op: "add"; name: string }
+  | { op: "delete"; name: string }
+  | { op: "clone"; from: string; name: string }
+  | { op: "rename"; from: string; name: string }
+  | { op: "move"; name: string; offset: -1 | 1 };
+
+// Names the form can round-trip: no brackets, line breaks or outer spaces.
+export function isSectionName(name: string): boolean {
+  return name !== "" && name === name.trim() && !/[[\]\r\n]/.test(name);
+}
+
+// Key names that read back as the same key: nothing that ends the key,
+// starts a section or a comment, or breaks the line.
+export function isKeyName(name: string): boolean {
+  return name !== "" && name === name.trim() && !/[=[\];#\r\n]/.test(name);
+}
+
+function checkName(kind: "key" | "section", name: string) {
+  if (!(kind === "key" ? isKeyName(name) : isSectionName(name))) {
+    throw new Error(`Invalid ${kind} name: ${JSON.stringify(name)}`);
+  }
+}
+
+function lineEnding(doc: IniDocument): string {
+  return doc.lines.some((l) => l.raw.endsWith("\r")) ? "\r" : "";
+}
+
+// A section header with the comments directly above it, through its body;
+// comments directly above the next header belong to that header.
+function sectionSpan(lines: IniLine[], i: number): [number, number] {
+  const isComment = (l: IniLine) => l.kind === "comment";
+  let start = i;
+  while (start > 0 && isComment(lines[start - 1])) start--;
+  if (start > 0 && lines[start - 1].kind !== "blank") start = i;
+  let end = i + 1;
+  while (end < lines.length && lines[end].kind !== "section") end++;
+  if (end < lines.length) {
+    let pre = end;
+    while (pre > i + 1 && isComment(lines[pre - 1])) pre--;
+    if (pre < end && lines[pre - 1].kind === "blank") end = pre;
+  } else if (
+    lines[end - 1].kind === "blank" &&
+    (start === 0 || lines[start - 1].kind !== "blank")
+  ) {
+    end--; // keep the final newline
+  }
+  return [start, end];
+}
+
+// The lines of a section block without the blank lines that end it.
+function trimBlock(lines: IniLine[], [start, end]: [number, number]) {
+  while (end > start && lines[end - 1].kind === "blank") end--;
+  return end;
+}
+
+// Append raw lines at the end of the document (before its final newline),
+// a blank line apart from what comes before.
+function appendBlock(lines: IniLine[], raws: string[], cr: string) {
+  const last = lines[lines.length - 1];
+  const tail = last && last.raw.trim() === "" ? lines.length - 1 : lines.length;
+  if (tail > 0 && lines[tail - 1].kind !== "blank") raws = [cr, ...raws];
+  lines.splice(tail, 0, ...parseIni(raws.join("\n")).lines);
+}
+
+function renameHeader(raw: string, name: string): string {
+  return raw.replace(/\[([ \t]*)[^\]]*?([ \t]*)\]/, `[$1${name}$2]`);
+}
+
+export function applySectionEdits(
+  doc: IniDocument,
+  edits: IniSectionEdit[],
+): IniDocument {
+  const cr = lineEnding(doc);
+  let lines = doc.lines.slice();
+  const headers = (name: string) =>
+    lines.flatMap((l, i) => l.kind === "section" && l.name === name ? [i] : []);
+  const reparse = (raws: string[]) => {
+    lines = parseIni(raws.join("\n")).lines;
+  };
+  const checkNew = (name: string) => {
+    checkName("section", name);
+    if (headers(name).length) throw new Error(`Section [${name}] exists`);
+  };
+
+  for (const e of edits) {
+    if (e.op === "add") {
+      checkNew(e.name);
+      appendBlock(lines, [`[${e.name}]${cr}`], cr);
+      continue;
+    }
+    const source = "from" in e ? e.from : e.name;
+    const found = headers(source);
+    if (!found.length) throw new Error(`No section [${source}]`);
+    const raws = lines.map((l) => l.raw);
+
+    if (e.op === "delete") {
+      for (const i of found.reverse()) {
+        const [start, end] = sectionSpan(lines, i);
+        raws.splice(start, end - start);
+      }
+      reparse(raws);
+    } else if (e.op === "rename") {
+      checkNew(e.name);
+      for (const i of found) raws[i] = renameHeader(raws[i], e.name);
+      reparse(raws);
+    } else if (e.op === "clone") {
+      // a copy of every block of the section, comments included, placed
+      // right after the last one
+      checkNew(e.name);
+      const copy: string[] = [];
+      for (const i of found) {
+        const span = sectionSpan(lines, i);
+        const body = raws.slice(span[0], trimBlock(lines, span));
+        const header = i - span[0];
+        body[header] = renameHeader(body[header], e.name);
+        copy.push(cr, ...body);
+      }
+      const last = found[found.length - 1];
+      raws.splice(trimBlock(lines, sectionSpan(lines, last)), 0, ...copy);
+      reparse(raws);
+    } else {
+      // swap the block with its neighbouring section's block; the blank
+      // lines that separate blocks stay where they are
+      const i = e.offset < 0 ? found[0] : found[found.length - 1];
+      const sections = lines.flatMap((l, j) => l.kind === "section" ? [j] : []);
+      const other = sections[sections.indexOf(i) + e.offset];
+      if (other === undefined) continue;
+      const [first, second] = e.offset < 0 ? [other, i] : [i, other];
+      const a = sectionSpan(lines, first);
+      const b = sectionSpan(lines, second);
+      const aEnd = trimBlock(lines, a);
+      const bEnd = trimBlock(lines, b);
+      raws.splice(
+        a[0],
+        b[1] - a[0],
+        ...raws.slice(b[0], bEnd),
+        ...raws.slice(aEnd, a[1]),
+        ...raws.slice(a[0], aEnd),
+        ...raws.slice(bEnd, b[1]),
+      );
+      reparse(raws);
+    }
+  }
+  return { lines };
+}
+
+// Append the sections `names` as they are in another document, with the
+// comments above their headers and their disabled defaults, e.g. sections
+// taken from upstream's copy of the file.
+export function copySections(
+  doc: IniDocument,
+  from: IniDocument,
+  names: string[],
+): IniDocument {
+  const cr = lineEnding(doc);
+  const lines = doc.lines.slice();
+  from.lines.forEach((l, i) => {
+    if (l.kind !== "section" || !names.includes(l.name)) return;
+    const span = sectionSpan(from.lines, i);
+    const raws = from.lines.slice(span[0], trimBlock(from.lines, span))
+      .map((b) => b.raw.replace(/\r$/, "") + cr);
+    appendBlock(lines, raws, cr);
+  });
+  return { lines };
+}
+
+// ---------------- Writing ----------------
+
+export function serializeIni(doc: IniDocument): string {
+  return doc.lines.map((l) => l.raw).join("\n");
+}
+
+function needsQuotes(s: string): boolean {
+  if (s === "") return true;
+  if (/[\s#;"']/.test(s)) return true;
+  // a trailing backslash would continue the value on the next line
+  if (s.endsWith("\\")) return true;
+  // would read back as a boolean or number
+  return typeof parseIniValue(s) !== "string";
+}
+
+// Format a value for the file, following the spelling of `literal` (the
+// value it replaces) where there is one.
+export function formatIniValue(v: Json, literal?: string): string {
+  const lit = literal ? joinContinuations(literal).trim() : "";
+  if (v === null) return "";
+  if (typeof v === "boolean") {
+    if (/^(true|false)$/i.test(lit)) return v ? "true" : "false";
+    return v ? "yes" : "no";
+  }
+  if (typeof v === "number") return Number.isFinite(v) ? String(v) : "0";
+  if (Array.isArray(v)) return formatIniValue(v.map(String).join(" "), lit);
+  if (typeof v === "object") {
+    throw new Error("Nested tables cannot be written to a ka9q INI file");
+  }
+  // iniparser reads a value from one line and has no escapes, so these
+  // would read back as something else, or as more keys and sections
+  if (/[\r\n]/.test(v)) {
+    throw new Error(`A ka9q INI value can't contain a line break: ${v}`);
+  }
+  if (v.includes('"') && v.includes("'")) {
+    throw new Error(`A ka9q INI value can't contain both ' and ": ${v}`);
+  }
+  const q = lit[0];
+  if (q === '"' || q === "'") {
+    if (!v.includes(q)) return `${q}${v}${q}`;
+  }
+  if (!needsQuotes(v)) return v;
+  // iniparser has no escapes: fall back to single quotes if the value has "
+  return v.includes('"') ? `'${v}'` : `"${v}"`;
+}
+
+function sameValue(a: Json | undefined, b: Json | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function withValue(line: IniEntry, v: Json): IniLine {
+  const literal = formatIniValue(v, line.literal);
+  return {
+    ...line,
+    raw: `${line.before}${literal}${line.after}`,
+    value: parseIniValue(literal),
+    literal,
+  };
+}
+
+function isSection(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// A new key = value line, spaced like `sample` where there is one.
+function newEntryRaw(
+  key: string,
+  v: Json,
+  sample: IniLine | undefined,
+  cr: string,
+): string {
+  checkName("key", key);
+  const m = sample?.kind === "entry"
+    ? sample.before.match(/^([ \t]*)[\s\S]*?([ \t]*=[ \t]*)$/)
+    : null;
+  return `${m?.[1] ?? ""}${key}${m?.[2] ?? " = "}${formatIniValue(v)}${cr}`;
+}
+
+// Apply every difference between the document and `data`, leaving every
+// other line untouched. `toggles` and then `sections` are applied first, so a
+// key switched on or off there counts as present or absent, and a renamed or
+// cloned section keeps its comments. Changed values are rewritten in
+// place (only the last, effective occurrence of a repeated key), removed keys
+// and sections take their lines with them, added keys go after the last key
+// of their section and added sections at the end.
+export function patchIni(
+  original: IniDocument,
+  data: Json,
+  toggles: IniToggle[] = [],
+  sections: IniSectionEdit[] = [],
+): { text: string; patched: boolean } {
+  const doc = applySectionEdits(
+    toggles.length ? applyToggles(original, toggles) : original,
+    sections,
+  );
+  const next = isSection(data) ? data : {};
+  const cr = lineEnding(doc);
+  const holder = (section: string | null) =>
+    section === null ? next : isSection(next[section]) ? next[section] : null;
+
+  // removed sections and keys
+  let lines = doc.lines.slice();
+  for (let i = lines.length - 1; i >= 0; i--) {
+    const l = lines[i];
+    if (l.kind === "section" && !isSection(next[l.name])) {
+      const [start, end] = sectionSpan(lines, i);
+      lines.splice(start, end - start);
+      i = start;
+    } else if (l.kind === "entry") {
+      const v = holder(l.section)?.[l.key];
+      if (v === undefined || isSection(v)) lines.splice(i, 1);
+    }
+  }
+
+  // changed values: only the last occurrence of a key is effective
+  const effective = new Map<string, number>();
+  lines.forEach((l, i) => {
+    if (l.kind === "entry") {
+      effective.set(JSON.stringify([l.section, l.key]), i);
+    }
+  });
+  lines = lines.map((l, i) => {
+    if (l.kind !== "entry") return l;
+    if (effective.get(JSON.stringify([l.section, l.key])) !== i) return l;
+    const v = holder(l.section)![l.key];
+    return sameValue(v, l.value) ? l : withValue(l, v);
+  });
+
+  // added keys and sections
+  const current = iniToJson({ lines });
+  const insert = (section: string | null, key: string, v: Json) => {
+    let at = -1;
+    lines.forEach((l, i) => {
+      if (
+        (l.kind === "entry" && l.section === section) ||
+        (l.kind === "section" && l.name === section && at === -1)
+      ) {
+        at = i + 1;
+      }
+    });
+    if (at === -1) {
+      // first top-level key: above the first section and its comments
+      const first = lines.findIndex((l) => l.kind === "section");
+      at = first === -1 ? lines.length : sectionSpan(lines, first)[0];
+      while (at > 0 && lines[at - 1].kind === "blank") at--;
+      const added: IniLine[] = [
+        parseEntry(newEntryRaw(key, v, undefined, cr), null)!,
+      ];
+      if (at < lines.length && lines[at].kind !== "blank") {
+        added.push({ kind: "blank", raw: cr });
+      }
+      lines.splice(at, 0, ...added);
+      return;
+    }
+    const raw = newEntryRaw(key, v, lines[at - 1], cr);
+    lines.splice(at, 0, parseEntry(raw, section)!);
+  };
+  for (const [k, v] of Object.entries(next)) {
+    if (!isSection(v)) {
+      if (!(k in current)) insert(null, k, v);
+      continue;
+    }
+    if (!isSection(current[k])) {
+      checkName("section", k);
+      const block = [`[${k}]${cr}`];
+      for (const [kk, vv] of Object.entries(v)) {
+        block.push(newEntryRaw(kk, vv, undefined, cr));
+      }
+      appendBlock(lines, block, cr);
+      continue;
+    }
+    const have = current[k] as { [k: string]: Json };
+    for (const [kk, vv] of Object.entries(v)) {
+      if (!(kk in have)) insert(k, kk, vv);
+    }
+  }
+
+  const text = serializeIni({ lines });
+  return { text, patched: text !== serializeIni(original) };
+}
+
+// Write a Json tree from scratch: top-level scalars first, then one
+// [section] per object.
+export function stringifyIni(data: Json): string {
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("A ka9q INI document must be a table of sections");
+  }
+  const out: string[] = [];
+  const sections: Array<[string, { [k: string]: Json }]> = [];
+  for (const [k, v] of Object.entries(data)) {
+    if (v !== null && typeof v === "object" && !Array.isArray(v)) {
+      checkName("section", k);
+      sections.push([k, v]);
+    } else {
+      checkName("key", k);
+      out.push(`${k} = ${formatIniValue(v)}`);
+    }
+  }
+  for (const [name, body] of sections) {
+    if (out.length) out.push("");
+    out.push(`[${name}]`);
+    for (const [k, v] of Object.entries(body)) {
+      checkName("key", k);
+      out.push(`${k} = ${formatIniValue(v)}`);
+    }
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,238 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  applySectionEdits,
+  formatIniValue,
+  optionLayout,
+  parseIni,
+  parseIniText,
+  patchIni,
+  serializeIni,
+  stringifyIni,
+} from "./ka9q_ini.ts";
+import type { Json } from "./types.ts";
+
+const SAMPLE = `[global]
+hardware = rx888 # use built-in rx888 driver
+mode = usb \t\t# default receive mode
+ttl = 0
+ttl = 1
+
+[10m FM]
+disable = yes
+freq = "29m50 29m52 \\
+29m54"
+`;
+
+Deno.test(function parsesKa9qDialect() {
+  assertEquals(parseIniText(SAMPLE), {
+    global: { hardware: "rx888", mode: "usb", ttl: 1 },
+    "10m FM": { disable: true, freq: "29m50 29m52 29m54" },
+  });
+});
+
+Deno.test(function roundTripsUnchanged() {
+  assertEquals(serializeIni(parseIni(SAMPLE)), SAMPLE);
+  const doc = parseIni(SAMPLE);
+  assertEquals(patchIni(doc, parseIniText(SAMPLE)).text, SAMPLE);
+});
+
+Deno.test(function patchesKeepSpellingAndComments() {
+  const data = parseIniText(SAMPLE);
+  const global = data.global as Record<string, unknown>;
+  global.mode = "lsb";
+  global.ttl = 2;
+  (data["10m FM"] as Record<string, unknown>).disable = false;
+  const result = patchIni(parseIni(SAMPLE), data);
+  assertEquals(result.patched, true);
+  assertEquals(
+    result.text,
+    SAMPLE.replace("mode = usb", "mode = lsb")
+      .replace("ttl = 1", "ttl = 2")
+      .replace("disable = yes", "disable = no"),
+  );
+});
+
+Deno.test(function formatsValuesLikeTheOriginal() {
+  assertEquals(formatIniValue(true, "True"), "true");
+  assertEquals(formatIniValue("a b", undefined), '"a b"');
+  assertEquals(formatIniValue("x", "'y'"), "'x'");
+  assertEquals(formatIniValue("yes", undefined), '"yes"');
+  assertEquals(formatIniValue("C:\\", undefined), '"C:\\"');
+});
+
+Deno.test(function refusesValuesThatWouldReadBackDifferently() {
+  const data = parseIniText(SAMPLE);
+  const global = data.global as Record<string, Json>;
+  global.mode = "usb\n[evil]\nhardware = x";
+  assertThrows(
+    () => patchIni(parseIni(SAMPLE), data),
+    Error,
+    "can't contain a line break",
+  );
+  global.mode = `it's "quoted"`;
+  assertThrows(
+    () => patchIni(parseIni(SAMPLE), data),
+    Error,
+    "can't contain both ' and \"",
+  );
+  assertThrows(
+    () => stringifyIni({ global: { status: "a\r\nb = c" } }),
+    Error,
+    "line break",
+  );
+});
+
+Deno.test(function refusesNamesThatWouldReadBackDifferently() {
+  const add = (section: string, key: string) => {
+    const data = parseIniText(SAMPLE);
+    data[section] = { ...(data[section] as object), [key]: 1 };
+    return () => patchIni(parseIni(SAMPLE), data);
+  };
+  for (const key of ["a = b", "[x]", "a;b", "#a", "a\nb", " a", ""]) {
+    assertThrows(add("global", key), Error, "Invalid key name");
+    assertThrows(add("6m FM", key), Error, "Invalid key name");
+    assertThrows(() => stringifyIni({ [key]: 1 }), Error, "Invalid key name");
+  }
+  for (const name of ["a]b", "a\n[b", "[a", " a"]) {
+    assertThrows(add(name, "freq"), Error, "Invalid section name");
+    assertThrows(
+      () => stringifyIni({ [name]: { freq: 1 } }),
+      Error,
+      "Invalid section name",
+    );
+  }
+  // names with spaces, dots and @ are fine
+  const ok = add("14.074 FT8", "data-rate@x");
+  assertEquals(
+    (parseIniText(ok().text)["14.074 FT8"] as Record<string, Json>)[
+      "data-rate@x"
+    ],
+    1,
+  );
+});
+
+Deno.test(function addsAndRemovesKeysAndSections() {
+  const data = parseIniText(SAMPLE);
+  const global = data.global as Record<string, Json>;
+  delete global.ttl;
+  global.blocktime = 20;
+  delete data["10m FM"];
+  data["6m FM"] = { freq: "50m40", mode: "fm" };
+  const result = patchIni(parseIni(SAMPLE), data);
+  assertEquals(parseIniText(result.text), data);
+  assertEquals(
+    result.text,
+    `[global]
+hardware = rx888 # use built-in rx888 driver
+mode = usb \t\t# default receive mode
+blocktime = 20
+
+[6m FM]
+freq = 50m40
+mode = fm
+`,
+  );
+});
+
+Deno.test(function editsSectionsWithTheirComments() {
+  const text = `[global]
+hardware = rx888
+
+# WSPR on 40m
+[40m]
+freq = 7m0386 # dial
+
+[60M]
+freq = 5m3645
+`;
+  const edited = (edits: Parameters<typeof applySectionEdits>[1]) =>
+    serializeIni(applySectionEdits(parseIni(text), edits));
+
+  assertEquals(
+    edited([{ op: "rename", from: "40m", name: "30m" }]),
+    text.replace("[40m]", "[30m]"),
+  );
+  assertEquals(
+    edited([{ op: "clone", from: "40m", name: "20m" }]),
+    text.replace(
+      "# dial\n",
+      "# dial\n\n# WSPR on 40m\n[20m]\nfreq = 7m0386 # dial\n",
+    ),
+  );
+  assertEquals(
+    edited([{ op: "move", name: "60M", offset: -1 }]),
+    `[global]
+hardware = rx888
+
+[60M]
+freq = 5m3645
+
+# WSPR on 40m
+[40m]
+freq = 7m0386 # dial
+`,
+  );
+  assertEquals(
+    edited([{ op: "delete", name: "40m" }]),
+    text.replace("# WSPR on 40m\n[40m]\nfreq = 7m0386 # dial\n\n", ""),
+  );
+  assertEquals(
+    edited([{ op: "add", name: "FT8" }]),
+    text + "\n[FT8]\n",
+  );
+
+  // the data patch then fills in the edited sections
+  const data = parseIniText(text);
+  data["30m"] = { ...(data["40m"] as Record<string, Json>), freq: "10m1387" };
+  delete data["40m"];
+  data["60M"] = { freq: "5m3645", disable: true };
+  const result = patchIni(parseIni(text), data, [], [
+    { op: "rename", from: "40m", name: "30m" },
+  ]);
+  assertEquals(
+    result.text,
+    text.replace("[40m]", "[30m]").replace("7m0386", "10m1387")
+      .replace("freq = 5m3645\n", "freq = 5m3645\ndisable = yes\n"),
+  );
+});
+
+Deno.test(function togglesCommentedOutDefaults() {
+  const text = `[global]
+hardware = rx888
+#status = hf.local   # default
+;blocktime = 20
+#hardware = airspy
+`;
+  const layout = optionLayout(parseIni(text));
+  assertEquals([...layout.live.keys()], ['["global","hardware"]']);
+  assertEquals(
+    layout.disabled.map((o) => [o.line, o.key, o.value, o.comment]),
+    [[2, "status", "hf.local", "# default"], [3, "blocktime", 20, ""]],
+  );
+
+  const data = parseIniText(text);
+  const global = data.global as Record<string, unknown>;
+  global.status = "hf-status.local";
+  delete global.hardware;
+  const result = patchIni(parseIni(text), data, [
+    { line: 1, enabled: false },
+    { line: 2, enabled: true },
+  ]);
+  assertEquals(result.patched, true);
+  assertEquals(
+    result.text,
+    text.replace("hardware = rx888", "#hardware = rx888")
+      .replace("#status = hf.local", "status = hf-status.local"),
+  );
+});
+
+Deno.test(async function roundTripsEveryShippedConfig() {
+  const dir = new URL("./config/", import.meta.url);
+  for await (const e of Deno.readDir(dir)) {
+    if (!e.isFile || !e.name.endsWith(".conf")) continue;
+    const text = await Deno.readTextFile(new URL(e.name, dir));
+    const doc = parseIni(text);
+    assertEquals(serializeIni(doc), text, e.name);
+    assertEquals(patchIni(doc, parseIniText(text)).text, text, e.name);
+  }
+});
@@ -0,0 +1,88 @@
+// key_path.ts
+// Single keys of a config's data addressed by path: `global.status`,
+// `servers.0.host` (array items by index), or a JSON array of names for
+// section names that contain dots (`["14.074 FT8","freq"]`).
+
+import type { Json } from "./types.ts";
+
+export type KeyPath = string[];
+
+type Container = Json[] | { [k: string]: Json };
+
+function isContainer(v: Json | undefined): v is Container {
+  return v !== null && typeof v === "object";
+}
+
+export function parseKeyPath(s: string): KeyPath {
+  let keys: unknown = s.split(".");
+  if (s.startsWith("[")) {
+    try {
+      keys = JSON.parse(s);
+    } catch {
+      keys = null;
+    }
+  }
+  if (
+    !Array.isArray(keys) || !keys.length ||
+    !keys.every((k) => typeof k === "string" && k !== "")
+  ) {
+    throw new Error(`Invalid key path: ${s}`);
+  }
+  return keys;
+}
+
+export function formatKeyPath(keys: KeyPath): string {
+  return keys.some((k) => k.includes("."))
+    ? JSON.stringify(keys)
+    : keys.join(".");
+}
+
+function has(node: Container, k: string): boolean {
+  return Array.isArray(node)
+    ? /^\d+$/.test(k) && Number(k) < node.length
+    : Object.hasOwn(node, k);
+}
+
+// The value at `keys`, or undefined when there is none.
+export function getKey(data: Json, keys: KeyPath): Json | undefined {
+  let node: Json | undefined = data;
+  for (const k of keys) {
+    if (!isContainer(node) || !has(node, k)) return undefined;
+    node = (node as Record<string, Json>)[k];
+  }
+  return node;
+}
+
+// Set the value at `keys` in place, creating missing tables on the way. An
+// array index may be one past the end, which appends.
+export function setKey(data: Json, keys: KeyPath, value: Json): void {
+  let node = data;
+  for (const [i, k] of keys.entries()) {
+    const at = formatKeyPath(keys.slice(0, i + 1));
+    if (!isContainer(node)) {
+      throw new Error(`${formatKeyPath(keys.slice(0, i))} is not a table`);
+    }
+    if (
+      Array.isArray(node) && !(/^\d+$/.test(k) && Number(k) <= node.length)
+    ) {
+      throw new Error(`${at}: no such array index`);
+    }
+    const slots = node as Record<string, Json>;
+    if (i === keys.length - 1) {
+      slots[k] = value;
+    } else {
+      if (!has(node, k)) slots[k] = {};
+      node = slots[k];
+    }
+  }
+}
+
+// Remove the value at `keys`; false when there was none.
+export function deleteKey(data: Json, keys: KeyPath): boolean {
+  const parent = getKey(data, keys.slice(0, -1));
+  const k = keys[keys.length - 1];
+  if (!isContainer(parent) || !has(parent, k)) return false;
+  if (Array.isArray(parent)) parent.splice(Number(k), 1);
+  else delete parent[k];
+  return true;
+}
@@ -0,0 +1,40 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  deleteKey,
+  formatKeyPath,
+  getKey,
+  parseKeyPath,
+  setKey,
+} from "./key_path.ts";
+import type { Json } from "./types.ts";
+
+Deno.test(function parsesDottedAndJsonPaths() {
+  assertEquals(parseKeyPath("global.status"), ["global", "status"]);
+  assertEquals(parseKeyPath('["14.074 FT8","freq"]'), ["14.074 FT8", "freq"]);
+  assertEquals(formatKeyPath(["14.074 FT8", "freq"]), '["14.074 FT8","freq"]');
+  assertThrows(() => parseKeyPath("global..status"));
+  assertThrows(() => parseKeyPath("[1]"));
+});
+
+Deno.test(function getsSetsAndDeletesKeys() {
+  const data: Json = { global: { status: "a.local" }, ports: [1, 2] };
+  assertEquals(getKey(data, ["global", "status"]), "a.local");
+  assertEquals(getKey(data, ["ports", "1"]), 2);
+  assertEquals(getKey(data, ["global", "missing"]), undefined);
+  assertEquals(getKey(data, ["global", "toString"]), undefined);
+
+  setKey(data, ["FM", "freq"], "147m435");
+  setKey(data, ["ports", "2"], 3);
+  assertThrows(() => setKey(data, ["ports", "9"], 4));
+  assertThrows(() => setKey(data, ["global", "status", "x"], 1));
+  assertEquals(data, {
+    global: { status: "a.local" },
+    ports: [1, 2, 3],
+    FM: { freq: "147m435" },
+  });
+
+  assertEquals(deleteKey(data, ["ports", "0"]), true);
+  assertEquals(deleteKey(data, ["global", "status"]), true);
+  assertEquals(deleteKey(data, ["global", "status"]), false);
+  assertEquals(data, { global: {}, ports: [2, 3], FM: { freq: "147m435" } });
+});
@@ -2,9 +2,22 @@
 // Deno web app to edit TOML-based .conf files via HTML form with enhancements:
 // - Optional formatting-preserving save (best-effort scalar patching)
 // - Input type inference (date, datetime-local, color, email, url, password)
-// - Directory browser (/browse)
+// - Directory browser with file operations (/browse, file_tree.ts)
 // - Simple validation schema (min/max/pattern/enum/required/type)
-// - Optional Basic Auth via --auth=user:pass
+// - Accounts with roles and per-file access via --users=FILE (users.ts), or
+//   a single Basic Auth account via --auth=user:pass
+// - Optional login page with cookie sessions and CSRF tokens via --login
+//   (/login, sessions.ts)
+// - JSON API for scripts under /api/v1
+// - Command line: get, set, diff, validate, fmt, useradd, passwd (cli.ts)
+// - Post-save hooks via --hooks=FILE, e.g. to restart a daemon (hooks.ts)
+// - Cross-file multicast stream check (/check, streams.ts)
+// - Frequency plan of all radiod configs as a band chart (/plan, freq_plan.ts)
+// - New files from parameterised templates (/new, templates.ts)
+// - Three-way merge with upstream's configs via --upstream=DIR (/merge)
+// - Search of keys, values, sections and comments in every file (/search)
+// - Audit log of every change, with who made it and each key's old and new
+//   value (/audit, audit.ts)
 
 // Basic run (serves on http://localhost:8787)
 // deno run --allow-read --allow-write --allow-net main.ts --root=.
@@ -12,19 +25,183 @@
 // Change port
 // deno run --allow-read --allow-write --allow-net main.ts --root=. --port=8080
 
+// Merge with upstream's copies of the configs (e.g. a ka9q-radio checkout)
+// deno run --allow-read --allow-write --allow-net main.ts --root=. --upstream=../ka9q-radio/config
+
 // Enable Basic Auth (username: admin, password: s3cret)
 // deno run --allow-read --allow-write --allow-net main.ts --root=. --auth=admin:s3cret
 
+// Accounts from a users file, added with `main.ts useradd`
+// deno run -A main.ts useradd alice --users=/etc/web-cfg/users.toml --role=admin
+// deno run --allow-read --allow-write --allow-net main.ts --root=. --users=/etc/web-cfg/users.toml
+
+// Log in on a page instead of through the browser's Basic Auth prompt
+// deno run --allow-read --allow-write --allow-net main.ts --root=. --users=/etc/web-cfg/users.toml --login
+
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
-import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import {
+  type IniLayout,
+  type IniOption,
+  type IniSectionEdit,
+  type IniToggle,
+  optionLayout,
+  parseIni,
+} from "./ka9q_ini.ts";
+import {
+  type ConfigFormat,
+  detectFormat,
+  mergeConfigText,
+  parseConfigText,
+  readConfigFile,
+  readTextOrNull,
+  renderConfigText,
+  SCHEMA,
+  versionOf,
+} from "./config_file.ts";
+import {
+  describeFrequency,
+  formatFrequency,
+  isFrequencyKey,
+  isFrequencyList,
+  parseFrequency,
+  splitFrequencyList,
+} from "./frequency.ts";
+import {
+  ruleFor,
+  type Schema,
+  schemaFor,
+  type SchemaRule,
+  validate,
+  type ValidationError,
+} from "./schema.ts";
+import {
+  type Backup,
+  BACKUP_DIR,
+  backupFile,
+  isBackupId,
+  listBackups,
+  readBackup,
+  readMergeBase,
+  writeMergeBase,
+} from "./backups.ts";
+import { unifiedDiff } from "./diff.ts";
+import {
+  type KeyChange,
+  keyChanges,
+  type MergedKey,
+  type MergeSide,
+} from "./merge.ts";
+import { writeFileAtomic } from "./atomic_write.ts";
+import {
+  deleteKey,
+  formatKeyPath,
+  getKey,
+  type KeyPath,
+  parseKeyPath,
+  setKey,
+} from "./key_path.ts";
+import { COMMANDS, runCli } from "./cli.ts";
+import {
+  type HookResult,
+  hooksFor,
+  hookVariables,
+  loadHooks,
+  runHook,
+} from "./hooks.ts";
+import {
+  type Channel,
+  isRadiodConfig,
+  type PlanIssue,
+  planIssues,
+  type Receiver,
+  receiverPlan,
+} from "./freq_plan.ts";
+import {
+  checkStreams,
+  type StreamIssue,
+  type StreamRef,
+  streamRefs,
+  type StreamSummary,
+} from "./streams.ts";
+import {
+  checkInstance,
+  isTemplateFile,
+  parseTemplate,
+  renderTemplate,
+  resolveValues,
+  type Template,
+  templateTarget,
+} from "./templates.ts";
+import {
+  collectConfFiles,
+  fileFamily,
+  inRealRoot,
+  inspectFile,
+  isConfFile,
+  isSkippedFolder,
+  listFolder,
+  type TreeEntry,
+  type TreeFile,
+} from "./file_tree.ts";
+import {
+  SEARCH_FIELDS,
+  type SearchField,
+  type SearchFile,
+  searchFiles,
+  type SearchHit,
+  searchMatcher,
+  type SearchMode,
+  type SearchQuery,
+  type SearchRun,
+} from "./search.ts";
+import type { Json } from "./types.ts";
+import {
+  type Actor,
+  appendAudit,
+  AUDIT_ACTIONS,
+  type AuditAction,
+  auditChanges,
+  auditCsv,
+  type AuditEntry,
+  type AuditFilter,
+  auditMatches,
+  readAudit,
+} from "./audit.ts";
+import {
+  accessTo,
+  basicCredentials,
+  checkLogin,
+  loadUsers,
+  singleAccount,
+  timingSafeEqual,
+  type User,
+} from "./users.ts";
+import {
+  cookieValue,
+  CSRF_COOKIE,
+  endSession,
+  findSession,
+  lockedFor,
+  loginFailed,
+  loginSucceeded,
+  type Session,
+  SESSION_COOKIE,
+  sessionCookies,
+  startSession,
+} from "./sessions.ts";
 // ---------------- Types and Config ----------------
 
-type Json = null | boolean | number | string | Json[] | { [k: string]: Json };
-
 interface AppConfig {
   root: string; // root directory for reading/writing files
   port: number; // http port
+  backups: number; // backup copies kept per file (0 = none)
+  hooks?: string; // post-save hooks file (see hooks.ts)
+  upstream?: string; // upstream's config directory, laid out like root
+  users?: string; // users file (see users.ts)
+  audit: string; // audit log (see audit.ts)
+  login: boolean; // log in on /login rather than with Basic Auth
+  sessionTimeout: number; // minutes a session may go unused
   authUser?: string;
   authPass?: string;
 }
@@ -33,6 +210,10 @@ function parseArgs(args: string[]): AppConfig {
   const config: AppConfig = {
     root: Deno.cwd(),
     port: 8787,
+    backups: 10,
+    audit: "",
+    login: false,
+    sessionTimeout: 30,
   };
   for (const a of args) {
     if (a.startsWith("--root=")) {
@@ -41,6 +222,27 @@ function parseArgs(args: string[]): AppConfig {
     if (a.startsWith("--port=")) {
       config.port = Number(a.substring("--port=".length)) || 8787;
     }
+    if (a.startsWith("--backups=")) {
+      const n = Number(a.substring("--backups=".length));
+      config.backups = Number.isInteger(n) && n >= 0 ? n : config.backups;
+    }
+    if (a.startsWith("--hooks=")) {
+      config.hooks = path.resolve(a.substring("--hooks=".length));
+    }
+    if (a.startsWith("--upstream=")) {
+      config.upstream = path.resolve(a.substring("--upstream=".length));
+    }
+    if (a.startsWith("--users=")) {
+      config.users = path.resolve(a.substring("--users=".length));
+    }
+    if (a.startsWith("--audit=")) {
+      config.audit = path.resolve(a.substring("--audit=".length));
+    }
+    if (a === "--login") config.login = true;
+    if (a.startsWith("--session-timeout=")) {
+      const n = Number(a.substring("--session-timeout=".length));
+      config.sessionTimeout = n > 0 ? n : config.sessionTimeout;
+    }
     if (a.startsWith("--auth=")) {
       const cred = a.substring("--auth=".length);
       const idx = cred.indexOf(":");
@@ -50,12 +252,65 @@ function parseArgs(args: string[]): AppConfig {
       }
     }
   }
+  config.audit ||= path.join(config.root, ".audit.jsonl");
   return config;
 }
 
+// `main.ts get|set|diff|validate|fmt|useradd|passwd ...` runs the command
+// line tool instead of the server (see cli.ts).
+if (COMMANDS.includes(Deno.args[0])) Deno.exit(await runCli(Deno.args));
+
 const app = parseArgs(Deno.args);
 
+// Hooks run commands, so the editor must not be able to change them.
+if (app.hooks) {
+  const rel = path.relative(app.root, app.hooks);
+  if (!rel.startsWith("..") && !path.isAbsolute(rel)) {
+    console.error(`--hooks file must be outside --root: ${app.hooks}`);
+    Deno.exit(2);
+  }
+  try {
+    await loadHooks(app.hooks);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    Deno.exit(2);
+  }
+}
+
+// The same goes for the accounts that say who may change what.
+if (app.users) {
+  const rel = path.relative(app.root, app.users);
+  if (!rel.startsWith("..") && !path.isAbsolute(rel)) {
+    console.error(`--users file must be outside --root: ${app.users}`);
+    Deno.exit(2);
+  }
+  if (app.authUser) {
+    console.error("Use either --users or --auth, not both");
+    Deno.exit(2);
+  }
+  try {
+    await loadUsers(app.users);
+  } catch (e) {
+    console.error(e instanceof Error ? e.message : e);
+    Deno.exit(2);
+  }
+}
+
+if (app.login && !app.users && !app.authUser) {
+  console.error("--login needs accounts: --users or --auth");
+  Deno.exit(2);
+}
+
 // ---------------- Auth ----------------
+// With --users, each request names one of its accounts; with --auth, the
+// one account given there, an admin. Without either, everyone is an admin.
+// With --login, pages are only for sessions started on /login; the API
+// still takes Basic Auth.
+
+const ANONYMOUS: User = { name: "", role: "admin", password: "", access: [] };
+const singleLogin = app.authUser
+  ? await singleAccount(app.authUser, app.authPass ?? "")
+  : null;
 
 function unauthorized(): Response {
   return new Response("Unauthorized", {
@@ -63,16 +318,219 @@ function unauthorized(): Response {
     headers: { "www-authenticate": 'Basic realm="Config Editor"' },
   });
 }
-function checkAuth(req: Request): boolean {
-  if (!app.authUser || !app.authPass) return true;
-  const hdr = req.headers.get("authorization") || "";
-  if (!hdr.startsWith("Basic ")) return false;
+
+function forbidden(message: string, json = false): Response {
+  return json
+    ? new Response(JSON.stringify({ error: message }), {
+      status: 403,
+      headers: { "content-type": "application/json; charset=utf-8" },
+    })
+    : new Response(message, { status: 403 });
+}
+
+const idleMs = () => app.sessionTimeout * 60_000;
+
+async function checkPassword(
+  name: string,
+  password: string,
+): Promise<User | null> {
+  if (singleLogin) return await singleLogin(name, password);
+  return await checkLogin(await loadUsers(app.users!), name, password);
+}
+
+// The account failed logins for `name` count against, or null when there is
+// no such account: made-up names would only fill the backoff's memory.
+async function loginAccount(name: string): Promise<string | null> {
+  if (singleLogin) return name === app.authUser ? name : null;
+  if (!app.users) return null;
+  return (await loadUsers(app.users)).has(name) ? name : null;
+}
+
+async function loginWait(req: Request, name: string): Promise<number> {
+  return lockedFor(clientAddress.get(req) ?? "", await loginAccount(name));
+}
+
+async function countLogin(req: Request, name: string, user: User | null) {
+  if (user) loginSucceeded(user.name);
+  else loginFailed(clientAddress.get(req) ?? "", await loginAccount(name));
+}
+
+// The session a request's cookie names, if it is still good: not idle for
+// too long, and its account still there with the same password.
+async function sessionOf(req: Request): Promise<Session | null> {
+  if (!app.login) return null;
+  const session = findSession(
+    cookieValue(req.headers.get("cookie"), SESSION_COOKIE),
+    idleMs(),
+  );
+  if (!session || !app.users) return session;
+  const now = (await loadUsers(app.users)).get(session.user.name);
+  if (now?.password !== session.user.password) {
+    endSession(session.id);
+    return null;
+  }
+  session.user = now; // a new role or access rules apply at once
+  return session;
+}
+
+function csrfMatches(session: Session, token: string | null): boolean {
+  const enc = new TextEncoder();
+  return timingSafeEqual(enc.encode(token ?? ""), enc.encode(session.csrf));
+}
+
+// Each handler asks who a request comes from, and the serve loop before
+// them; a wrong password should count once.
+const authenticated = new WeakMap<Request, Promise<User | null>>();
+
+// The user a request comes from, or null when it must be turned away.
+function authenticate(req: Request): Promise<User | null> {
+  let user = authenticated.get(req);
+  if (!user) {
+    user = authenticateOnce(req);
+    authenticated.set(req, user);
+  }
+  return user;
+}
+
+async function authenticateOnce(req: Request): Promise<User | null> {
+  if (!app.users && !singleLogin) return ANONYMOUS;
+  const session = await sessionOf(req);
+  if (session) return session.user;
+  if (app.login && !new URL(req.url).pathname.startsWith(API + "/")) {
+    return null;
+  }
+  const cred = basicCredentials(req.headers.get("authorization"));
+  if (!cred) return null;
+  const user = await checkPassword(cred.name, cred.password);
+  await countLogin(req, cred.name, user);
+  return user;
+}
+
+// Whether a request was sent by a page of another site, going by what the
+// browser says (scripts and curl say nothing, and aren't turned away).
+function crossSite(req: Request): boolean {
+  const site = req.headers.get("sec-fetch-site");
+  if (site) return site !== "same-origin" && site !== "none";
+  const origin = req.headers.get("origin");
+  if (!origin) return false;
+  const host = req.headers.get("x-forwarded-host") ?? req.headers.get("host");
   try {
-    const decoded = atob(hdr.slice("Basic ".length));
-    const [u, p] = decoded.split(":");
-    return u === app.authUser && p === app.authPass;
+    return new URL(origin).host !== host;
   } catch {
-    return false;
+    return true;
+  }
+}
+
+function isSecure(req: Request): boolean {
+  return new URL(req.url).protocol === "https:" ||
+    req.headers.get("x-forwarded-proto") === "https";
+}
+
+// Turns away, before any handler sees it, a request that
+// - tries Basic Auth from a client or for an account locked out after too
+//   many failed logins (429),
+// - changes something in a session without the session's CSRF token, or
+//   without a session from a page on another site (403),
+// - or, with --login, asks for a page without a session (to /login).
+async function admit(req: Request, url: URL): Promise<Response | null> {
+  const api = url.pathname.startsWith(API + "/");
+  // in the API's error shape there, and the pages' elsewhere
+  const json = (status: number, code: string, error: string, headers = {}) =>
+    apiJson(
+      api ? { error: { code, message: error } } : { error },
+      status,
+      headers,
+    );
+  const cred = basicCredentials(req.headers.get("authorization"));
+  const wait = cred ? await loginWait(req, cred.name) : 0;
+  if (wait > 0) {
+    return json(429, "too_many_attempts", "Too many failed logins", {
+      "retry-after": String(Math.ceil(wait / 1000)),
+    });
+  }
+  const session = await sessionOf(req);
+  if (req.method !== "GET" && req.method !== "HEAD") {
+    if (session) {
+      if (!csrfMatches(session, req.headers.get("x-csrf-token"))) {
+        return json(
+          403,
+          "forbidden",
+          "Missing or wrong CSRF token; reload the page",
+        );
+      }
+    } else if (crossSite(req)) {
+      return json(403, "forbidden", "Cross-site request refused");
+    }
+  }
+  if (app.login && !session && !api) {
+    if (req.method !== "GET") {
+      return json(
+        401,
+        "unauthorized",
+        "Not logged in, or the session has expired",
+      );
+    }
+    const next = url.pathname + url.search;
+    return new Response(null, {
+      status: 303,
+      headers: { location: `/login?next=${encodeURIComponent(next)}` },
+    });
+  }
+  return null;
+}
+
+// Whether `user` may read or change the file at `full` (inside --root).
+function mayRead(user: User, full: string): boolean {
+  return accessTo(user, path.relative(app.root, full)) !== "none";
+}
+function mayWrite(user: User, full: string): boolean {
+  return accessTo(user, path.relative(app.root, full)) === "write";
+}
+
+// The config files under --root that `user` may see.
+async function visibleFiles(user: User): Promise<TreeFile[]> {
+  return (await collectConfFiles(app.root)).filter((f) =>
+    accessTo(user, f.rel) !== "none"
+  );
+}
+
+// ---------------- Audit ----------------
+
+// The address each request came from, as the server saw it.
+const clientAddress = new WeakMap<Request, string>();
+
+function actorOf(req: Request, user: User): Actor {
+  return { user: user.name, address: clientAddress.get(req) ?? "" };
+}
+
+// Log a change to `file`, from the text it had to the text it has now (null
+// where there is no file). By now the change has been made, so a log that
+// can't be written doesn't undo it: the error is returned for the response
+// to report, as `auditError`.
+async function recordAudit(
+  actor: Actor,
+  action: AuditAction,
+  file: string,
+  before: string | null,
+  after: string | null,
+  more: Partial<AuditEntry> = {},
+): Promise<string | null> {
+  try {
+    await appendAudit(app.audit, {
+      time: new Date().toISOString(),
+      ...actor,
+      action,
+      file,
+      ...more,
+      changes: auditChanges(file, before, after),
+    });
+    return null;
+  } catch (e) {
+    const message = `Not written to the audit log ${app.audit}: ${
+      e instanceof Error ? e.message : e
+    }`;
+    console.error(message);
+    return message;
   }
 }
 
@@ -85,9 +543,27 @@ function ensureInsideRoot(candidate: string, root: string) {
   ) {
     throw new Error("Path is outside the permitted root directory");
   }
+  // the log of who changed what can't be changed, or read, as a config
+  if (full === app.audit) throw new Error("The audit log isn't a config file");
+  // nor can the copies that restores and merges are made from
+  if (
+    path.relative(normalizedRoot, full).split(path.SEPARATOR)[0] === BACKUP_DIR
+  ) {
+    throw new Error("Backups aren't config files; see the file's history");
+  }
   return full;
 }
 
+// Why nothing may be written at `full`, a path inside the root by its text,
+// or null when it may: a symlinked folder on the way leads outside the root.
+async function linkedOutside(full: string): Promise<string | null> {
+  return await inRealRoot(app.root, full)
+    ? null
+    : `Not allowed: ${
+      path.relative(app.root, full)
+    } is in a linked folder outside the root`;
+}
+
 async function fileExists(p: string): Promise<boolean> {
   try {
     const st = await Deno.stat(p);
@@ -107,134 +583,6 @@ async function pickSourceFile(requested: string): Promise<string | null> {
   return null;
 }
 
-async function readTomlFile(
-  filePath: string,
-): Promise<{ data: Json; text: string }> {
-  const text = await Deno.readTextFile(filePath);
-
-  // Accept unquoted string values on input:
-  // - Lines like: key = value   -> will be treated as: key = "value"
-  // - Only when value looks like a bare string that TOML would normally reject.
-  // - We keep numbers, booleans, dates, arrays, inline tables, quoted strings untouched.
-  // - Works per section; comments preserved.
-  const relaxed = (() => {
-    const lines = text.split(/\r?\n/);
-    const sectionHeaderRe = /^\s*\[[^\]]+\]\s*$/;
-    const assignRe =
-      /^(\s*[^#\s][^=]*?[^=\s]\s*=\s*)([^#"'\[\{#][^#]*?)(\s*(#.*)?)$/;
-    //            ^lhs------------^   ^candidate value^   ^trailing comment^
-
-    function looksLikeBareString(v: string): boolean {
-      const trimmed = v.trim();
-
-      // Already quoted?
-      if (trimmed.startsWith('"') || trimmed.startsWith("'")) return false;
-
-      // Inline arrays / tables
-      if (trimmed.startsWith("[") || trimmed.startsWith("{")) return false;
-
-      // Booleans
-      if (/^(true|false)$/i.test(trimmed)) return false;
-
-      // Numbers (int/float/_ separators)
-      if (/^[+-]?\d[\d_]*(\.\d[\d_]*)?([eE][+-]?\d+)?$/.test(trimmed)) {
-        return false;
-      }
-
-      // Date / datetime
-      if (
-        /^\d{4}-\d{2}-\d{2}(?:[ tT]\d{2}:\d{2}(?::\d{2}(?:\.\d{1,6})?)?(?:Z|[+-]\d{2}:\d{2})?)?$/
-          .test(trimmed)
-      ) {
-        return false;
-      }
-
-      // Empty or whitespace only — keep as-is
-      if (trimmed.length === 0) return false;
-
-      // If contains an inline comment delimiter, the assignRe already split it out;
-      // here we just ensure we won't break things that already look TOML-valid.
-      return true;
-    }
-
-    return lines
-      .map((line) => {
-        if (sectionHeaderRe.test(line)) return line; // section header
-        const m = line.match(assignRe);
-        if (!m) return line;
-
-        const lhs = m[1];
-        const rawVal = m[2];
-        const tail = m[3] ?? "";
-
-        if (!looksLikeBareString(rawVal)) return line;
-
-        // Quote while preserving inner content and escapes minimally.
-        const quoted = `"${
-          rawVal.trim().replace(/\\/g, "\\\\").replace(/"/g, '\\"')
-        }"`;
-        return `${lhs}${quoted}${tail}`;
-      })
-      .join("\n");
-  })();
-
-  const data = toml.parse(relaxed) as Json;
-  return { data, text };
-}
-
-function toToml(data: Json): string {
-  // On output, we always produce TOML-compliant text where string values are quoted.
-  // std toml.stringify already emits quoted strings; no change needed beyond using it.
-  if (data === null || typeof data !== "object" || Array.isArray(data)) {
-    return toml.stringify({ value: data as unknown });
-  }
-  return toml.stringify(data as Record<string, unknown>);
-}
-
-// ---------------- Schema (example and extensible) ----------------
-
-type SchemaRule =
-  & {
-    // dotted path, e.g., "server.port"
-    type?:
-      | "string"
-      | "number"
-      | "boolean"
-      | "date"
-      | "datetime-local"
-      | "color"
-      | "email"
-      | "url"
-      | "password";
-    required?: boolean;
-    min?: number;
-    max?: number;
-    pattern?: string; // JS regex string for validation
-    enum?: string[]; // for dropdowns (strings)
-    step?: number; // for numbers
-    title?: string; // friendly label override
-    placeholder?: string;
-  }
-  & Record<string, unknown>;
-
-// Extend this with your known keys
-const SCHEMA: Record<string, SchemaRule> = {
-  "server.port": {
-    type: "number",
-    min: 1,
-    max: 65535,
-    step: 1,
-    required: true,
-    title: "Port",
-  },
-  "server.host": { type: "string", required: true, placeholder: "0.0.0.0" },
-  "admin.email": { type: "email", required: true },
-  "theme.accent": { type: "color" },
-  "auth.enabled": { type: "boolean" },
-  "auth.username": { type: "string", required: true },
-  "auth.password": { type: "password", required: true },
-};
-
 // ---------------- HTML rendering ----------------
 
 function escapeHtml(s: string): string {
@@ -253,19 +601,19 @@ function inputName(pathParts: string[]): string {
   return name;
 }
 
-function joinPath(parts: string[]): string {
-  return parts.join(".");
-}
-
 function inferTypeFromValue(
   keyPath: string[],
   value: Json,
 ): string | undefined {
   const key = keyPath[keyPath.length - 1]?.toLowerCase() || "";
   if (typeof value === "boolean") return "checkbox";
-  if (typeof value === "number") return "number";
+  if (typeof value === "number") {
+    return isFrequencyKey(key) ? "frequency" : "number";
+  }
   if (typeof value === "string") {
     const v = value as string;
+    if (isFrequencyKey(key) && isFrequencyList(v)) return "frequency";
+    if (/^\d+[kmg]\d+$/i.test(v)) return "frequency";
     if (/^\d{4}-\d{2}-\d{2}$/.test(v)) return "date";
     if (/^\d{4}-\d{2}-\d{2}[ tT]\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?$/.test(v)) {
       return "datetime-local";
@@ -281,13 +629,21 @@ function inferTypeFromValue(
   return undefined;
 }
 
-function ruleFor(pathParts: string[]): SchemaRule | undefined {
-  return SCHEMA[joinPath(pathParts)];
+// What the renderers need besides the value itself.
+interface RenderContext {
+  schema: Schema;
+  options?: IniLayout; // ka9q INI files: on/off toggles and disabled defaults
+  sections?: boolean; // ka9q INI files: add/rename/move/... section controls
+  readOnly?: boolean; // the user may not change the file (Save As still works)
 }
 
-function renderPrimitiveInput(keyPath: string[], value: Json) {
+function renderPrimitiveInput(
+  keyPath: string[],
+  value: Json,
+  ctx: RenderContext,
+) {
   const name = inputName(keyPath);
-  const rule = ruleFor(keyPath);
+  const rule = ruleFor(ctx.schema, keyPath);
   let typeAttr: string;
 
   if (rule?.type) {
@@ -311,6 +667,18 @@ function renderPrimitiveInput(keyPath: string[], value: Json) {
 
   const labelTitle = rule?.title || keyPath[keyPath.length - 1] || "";
 
+  if (rule?.enum && typeAttr !== "checkbox") {
+    return renderEnumSelect(name, value, rule, typeAttr, attrs);
+  }
+
+  if (typeAttr === "frequency") {
+    const str = value === null ? "" : String(value);
+    if (splitFrequencyList(str).length > 1) {
+      return renderFrequencyList(keyPath, str, attrs);
+    }
+    return frequencyInput(name, str, attrs);
+  }
+
   if (typeAttr === "checkbox") {
     const checked = typeof value === "boolean" ? value : false;
     return `
@@ -323,9 +691,11 @@ function renderPrimitiveInput(keyPath: string[], value: Json) {
   }
 
   if (typeAttr === "number") {
-    const numVal = typeof value === "number" && Number.isFinite(value)
-      ? value
-      : "";
+    // env files hold numbers as text
+    const n = typeof value === "string" && value.trim() !== ""
+      ? Number(value)
+      : value;
+    const numVal = typeof n === "number" && Number.isFinite(n) ? n : "";
     return `<input type="number" name="${escapeHtml(name)}" value="${numVal}" ${
       attrs.join(" ")
     } />`;
@@ -341,14 +711,127 @@ function renderPrimitiveInput(keyPath: string[], value: Json) {
   }" value="${escapeHtml(str)}" ${attrs.join(" ")} />`;
 }
 
-function renderArray(keyPath: string[], arr: Json[]): string {
+// A select over rule.enum. An "Other…" choice with a text box is offered when
+// the rule allows other values or the file already holds one outside the
+// list; the form field name sits on whichever of the two is in use.
+function renderEnumSelect(
+  name: string,
+  value: Json,
+  rule: SchemaRule,
+  typeAttr: string,
+  attrs: string[],
+): string {
+  const options = rule.enum ?? [];
+  const str = value === null ? "" : String(value);
+  const outside = str !== "" && !options.includes(str);
+  // keep numbers numeric when they come back from the form
+  const kind = typeof value === "number" || typeAttr === "number"
+    ? 'data-kind="number"'
+    : "";
+  const nameAttr = `name="${escapeHtml(name)}"`;
+  const opts = options.map((o) =>
+    `<option value="${escapeHtml(o)}" ${o === str ? "selected" : ""}>${
+      escapeHtml(o)
+    }</option>`
+  );
+  if (!options.includes(str) && !outside) {
+    opts.unshift('<option value="" selected></option>');
+  }
+  const other = rule.allowOther || outside;
+  if (other) {
+    opts.push(
+      `<option data-other ${outside ? "selected" : ""}>Other…</option>`,
+    );
+  }
+  return `<span class="enum" data-name="${escapeHtml(name)}">
+      <select ${outside ? "" : nameAttr} ${kind} ${
+    attrs.filter((a) => a === "required").join(" ")
+  }>${opts.join("")}</select>
+      ${
+    other
+      ? `<input type="text" class="enum-other" ${
+        outside ? nameAttr : "hidden"
+      } ${kind} value="${escapeHtml(outside ? str : "")}" ${attrs.join(" ")} />`
+      : ""
+  }
+    </span>`;
+}
+
+// Pattern for a single frequency in ka9q notation (see frequency.ts).
+const FREQUENCY_PATTERN =
+  "\\s*(\\d+(\\.\\d+)?|\\d+[kmgKMG]\\d*|\\d*\\.\\d+[kmgKMG])\\s*";
+
+function frequencyHint(s: string): string {
+  const hz = parseFrequency(s);
+  if (hz === null) return s.trim() ? "invalid frequency" : "";
+  const canonical = formatFrequency(hz);
+  return describeFrequency(hz) +
+    (canonical !== s.trim() ? ` (= ${canonical})` : "");
+}
+
+function frequencyInput(
+  name: string | null,
+  value: string,
+  attrs: string[] = [],
+): string {
+  const nameAttr = name === null ? "" : `name="${escapeHtml(name)}"`;
+  return `<span class="freq">
+      <input type="text" data-kind="frequency" ${nameAttr} value="${
+    escapeHtml(value)
+  }" pattern="${FREQUENCY_PATTERN}" ${attrs.join(" ")} />
+      <span class="freq-hint">${escapeHtml(frequencyHint(value))}</span>
+    </span>`;
+}
+
+// A space-separated freq value edits as one row per channel. The hidden input
+// carries the value that is saved; it keeps the original text until the list
+// is changed, and is then rebuilt from the rows joined by single spaces.
+function renderFrequencyList(
+  keyPath: string[],
+  value: string,
+  attrs: string[],
+): string {
+  const name = inputName(keyPath);
+  const rows = splitFrequencyList(value)
+    .map((f) => frequencyListRow(f, attrs))
+    .join("");
+  return `
+    <fieldset class="freq-list">
+      <legend>${
+    escapeHtml(keyPath[keyPath.length - 1] ?? "")
+  } (frequencies)</legend>
+      <input type="hidden" data-kind="frequency-list" name="${
+    escapeHtml(name)
+  }" value="${escapeHtml(value)}" />
+      <div class="freq-items">${rows}</div>
+      <template>${frequencyListRow("", attrs)}</template>
+      <button class="freq-add" type="button">Add frequency</button>
+      <button class="freq-sort" type="button">Sort</button>
+    </fieldset>
+  `;
+}
+
+function frequencyListRow(f: string, attrs: string[] = []): string {
+  return `<div class="freq-item">
+        ${frequencyInput(null, f, attrs)}
+        <button class="freq-up" type="button" title="Move up">↑</button>
+        <button class="freq-down" type="button" title="Move down">↓</button>
+        <button class="freq-remove" type="button">Remove</button>
+      </div>`;
+}
+
+function renderArray(
+  keyPath: string[],
+  arr: Json[],
+  ctx: RenderContext,
+): string {
   const legend = keyPath.length ? keyPath[keyPath.length - 1] : "(array)";
   const itemsHtml = arr
     .map((v, i) => {
       const itemPath = [...keyPath, String(i)];
       return `
         <div class="array-item">
-          ${renderValue(itemPath, v)}
+          ${renderValue(itemPath, v, ctx)}
           <button class="remove-item" data-path="${
         escapeHtml(inputName(itemPath))
       }" type="button">Remove</button>
@@ -371,39 +854,111 @@ function renderArray(keyPath: string[], arr: Json[]): string {
   `;
 }
 
-function renderObject(keyPath: string[], obj: Record<string, Json>): string {
+// A setting that can be switched off (commented out) or, for a disabled
+// default, on. The value's inputs sit in a fieldset so one flag disables them.
+function renderOption(
+  p: string[],
+  v: Json,
+  ctx: RenderContext,
+  opt: IniOption,
+  enabled: boolean,
+): string {
+  const rule = ruleFor(ctx.schema, p);
+  const label = rule?.title || p[p.length - 1];
+  return `
+        <div class="field option${enabled ? "" : " disabled-option"}">
+          <input type="checkbox" class="option-toggle" data-line="${opt.line}" data-key="${
+    escapeHtml(JSON.stringify(p))
+  }" ${enabled ? "checked data-enabled" : ""} title="${
+    enabled ? "Uncheck to comment out" : "Check to enable this default"
+  }" />
+          <label><span class="key">${escapeHtml(label)}</span>
+            <fieldset class="option-body" ${enabled ? "" : "disabled"}>
+              ${renderValue(p, v, ctx)}
+            </fieldset>
+          </label>
+          ${
+    opt.comment
+      ? `<span class="option-comment">${escapeHtml(opt.comment)}</span>`
+      : ""
+  }
+        </div>
+      `;
+}
+
+// Controls for a ka9q INI section. The client edits the form in place and
+// records each action as an IniSectionEdit for the save.
+function sectionActions(disabled: boolean): string {
+  return `
+      <div class="section-actions">
+        <button type="button" class="section-toggle">${
+    disabled ? "Enable" : "Disable"
+  }</button>
+        <button type="button" class="section-rename">Rename…</button>
+        <button type="button" class="section-clone">Duplicate…</button>
+        <button type="button" class="section-up" title="Move up">↑</button>
+        <button type="button" class="section-down" title="Move down">↓</button>
+        <button type="button" class="section-delete">Delete</button>
+      </div>`;
+}
+
+function renderObject(
+  keyPath: string[],
+  obj: Record<string, Json>,
+  ctx: RenderContext,
+): string {
   const legend = keyPath.length ? keyPath[keyPath.length - 1] : "(root)";
   const fields = Object.entries(obj)
     .map(([k, v]) => {
       const p = [...keyPath, k];
-      const rule = ruleFor(p);
+      const opt = ctx.options?.live.get(JSON.stringify(p));
+      if (opt) return renderOption(p, v, ctx, opt, true);
+      const rule = ruleFor(ctx.schema, p);
       const label = rule?.title || k;
+      const section = ctx.sections && keyPath.length === 0 &&
+        v !== null && typeof v === "object" && !Array.isArray(v);
       return `
-        <div class="field">
+        <div class="field${section ? " section" : ""}">
           <label><span class="key">${escapeHtml(label)}</span>
-            ${renderValue(p, v)}
+            ${renderValue(p, v, ctx)}
           </label>
         </div>
       `;
     })
     .join("");
+  const disabled = keyPath.length === 1
+    ? (ctx.options?.disabled ?? [])
+      .filter((o) => o.section === keyPath[0])
+      .map((o) => renderOption([o.section, o.key], o.value, ctx, o, false))
+      .join("")
+    : "";
 
+  // data-path keeps empty tables in the submitted data
+  const attrs = keyPath.length
+    ? ` data-path="${escapeHtml(inputName(keyPath))}"`
+    : "";
+  const section = !!ctx.sections && keyPath.length === 1;
+  const off = section && obj.disable === true;
   return `
-    <fieldset class="object">
+    <fieldset class="object${off ? " section-disabled" : ""}"${attrs}${
+    section ? ` data-section="${escapeHtml(keyPath[0])}"` : ""
+  }>
       <legend>${escapeHtml(legend)}</legend>
-      ${fields || '<div class="empty-note">No fields</div>'}
+      ${section ? sectionActions(off) : ""}
+      ${fields || (disabled ? "" : '<div class="empty-note">No fields</div>')}
+      ${disabled}
     </fieldset>
   `;
 }
 
-function renderValue(keyPath: string[], v: Json): string {
+function renderValue(keyPath: string[], v: Json, ctx: RenderContext): string {
   if (Array.isArray(v)) {
-    return renderArray(keyPath, v);
+    return renderArray(keyPath, v, ctx);
   }
   if (v !== null && typeof v === "object") {
-    return renderObject(keyPath, v as Record<string, Json>);
+    return renderObject(keyPath, v as Record<string, Json>, ctx);
   }
-  return renderPrimitiveInput(keyPath, v);
+  return renderPrimitiveInput(keyPath, v, ctx);
 }
 
 function pageLayout(body: string, extraHead = ""): string {
@@ -428,13 +983,79 @@ function pageLayout(body: string, extraHead = ""): string {
   .actions { display: flex; gap: .5rem; margin-top: 1rem; flex-wrap: wrap; }
   .path { font-family: ui-monospace, SFMono-Regular, Menlo, monospace; }
   .tip { color: #555; font-size: 0.9rem; }
+  .error { color: #b00; }
+  .invalid input { outline: 2px solid #b00; }
+  .field-error { color: #b00; font-size: 0.85rem; }
   nav a { margin-right: .5rem; }
   table.file-list { border-collapse: collapse; width: 100%; }
   table.file-list th, table.file-list td { padding: .4rem .5rem; border-bottom: 1px solid #ddd; text-align: left; }
+  svg.plan { width: 100%; height: auto; font-size: 11px; user-select: none; touch-action: none; }
+  svg.plan .grid { stroke: #f0f0f0; }
+  svg.plan .grid.major { stroke: #ccc; }
+  svg.plan .coverage { fill: #e6f4e6; }
+  svg.plan .ch { fill: #36c; }
+  svg.plan .ch.disabled { fill: #bbb; }
+  svg.plan .ch.overlap { fill: #e90; }
+  svg.plan .ch.duplicate { fill: #c00; }
+  svg.plan .ch.uncovered { stroke: #c0c; stroke-width: 2; }
+  svg.plan a:hover .ch { fill-opacity: .6; }
+  #plan-select { fill: rgba(51, 102, 204, .15); }
+  .legend span { display: inline-block; width: .8em; height: .8em; margin: 0 .25em 0 1em; vertical-align: middle; box-sizing: border-box; }
+  tr.error td:first-child { color: #b00; }
+  .linked { outline: 2px solid #e90; outline-offset: 2px; }
+  .saved { border: 1px solid #9c9; background: #f4fbf4; padding: .25rem .75rem; margin: .5rem 0; }
+  .saved.failed { border-color: #d99; background: #fdf4f4; }
+  .saved pre { background: #fff; border: 1px solid #ddd; padding: .5rem; overflow-x: auto; max-height: 20rem; }
+  .diff { background: #f8f8f8; border: 1px solid #ddd; padding: .5rem; overflow-x: auto; }
+  .diff .add { color: #060; background: #e6ffe6; }
+  .diff .del { color: #900; background: #ffe6e6; }
+  .diff .hunk { color: #05a; }
+  tr.conflict td { background: #fff4e5; }
+  .section-actions { display: flex; flex-wrap: wrap; gap: .25rem; margin: 0 0 .5rem; }
+  .section-actions button { padding: .15rem .5rem; }
+  .section-disabled { background: #f4f4f4; }
+  .section-disabled > legend { text-decoration: line-through; color: #777; }
+  .option-body { border: 0; margin: 0; padding: 0; min-width: 0; }
+  .disabled-option { opacity: .55; }
+  .option-comment { color: #666; font-family: ui-monospace, SFMono-Regular, Menlo, monospace; font-size: 0.85rem; }
+  .freq { display: inline-flex; gap: .5rem; align-items: center; }
+  .freq-hint { color: #555; font-size: 0.85rem; white-space: nowrap; }
+  .freq input:invalid + .freq-hint { color: #b00; }
+  .search-hit pre { margin: .25rem 0 1rem; }
+  ul.audit-changes { margin: 0; padding-left: 1rem; }
+  ul.tree { list-style: none; padding-left: 1.25rem; margin: .25rem 0; }
+  #tree > ul.tree { padding-left: 0; }
+  .tree-file, .tree-folder summary { padding: .15rem 0; }
+  .tree-actions button { padding: .05rem .4rem; font-size: .8rem; }
+  .tree-actions { visibility: hidden; }
+  li:hover > .tree-actions, summary:hover > .tree-actions { visibility: visible; }
+  .health.ok { color: #060; }
+  .health.bad { color: #b00; }
+  .tag { background: #eef; border: 1px solid #ccd; border-radius: 3px; padding: 0 .3rem; font-size: .8rem; }
+  .freq-item { display: flex; align-items: center; gap: .25rem; margin: .15rem 0; }
+  body { position: relative; }
+  form.logout { position: absolute; top: 0; right: 1rem; }
 </style>
+<script>
+  // The session's CSRF token, which every change sends as x-csrf-token
+  // ("" without --login).
+  const csrfToken = document.cookie.match(/(?:^|; )${CSRF_COOKIE}=([^;]*)/)?.[1] ?? "";
+  addEventListener("DOMContentLoaded", () => {
+    for (const el of document.querySelectorAll("input[name=csrf]")) el.value = csrfToken;
+    // no token, no session to end (e.g. on the login page)
+    for (const el of document.querySelectorAll("form.logout")) el.hidden = !csrfToken;
+  });
+</script>
 ${extraHead}
 </head>
 <body>
+${
+    app.login
+      ? `<form method="post" action="/logout" class="logout">
+  <input type="hidden" name="csrf" /><button type="submit">Log out</button>
+</form>`
+      : ""
+  }
 ${body}
 </body>
 </html>`;
@@ -446,6 +1067,12 @@ function indexPage(): string {
       <h1>TOML Config Editor</h1>
       <nav>
         <a href="/browse">Browse</a>
+        <a href="/check">Check streams</a>
+        <a href="/plan">Frequency plan</a>
+        <a href="/new">New file</a>
+        <a href="/search">Search</a>
+        ${app.upstream ? '<a href="/merge">Merge upstream</a>' : ""}
+        <a href="/audit">Audit log</a>
       </nav>
     </header>
     <p>Root directory: <span class="path">${escapeHtml(app.root)}</span></p>
@@ -462,147 +1089,296 @@ function indexPage(): string {
   return pageLayout(body);
 }
 
-function browsePage(list: Array<{ rel: string; size: number }>): string {
-  const rows = list
-    .map(
-      (f) =>
-        `<tr>
-      <td><a href="/edit?file=${encodeURIComponent(f.rel)}">${
-          escapeHtml(f.rel)
-        }</a></td>
-      <td>${f.size}</td>
-    </tr>`,
-    )
-    .join("");
+// An entry of /browse/list, as the browser's script renders it.
+interface BrowseEntry {
+  kind: "folder" | "file";
+  name: string;
+  rel: string;
+  size?: number;
+  mtime?: string | null;
+  fallback?: boolean;
+  family?: string | null;
+  format?: string | null;
+  error?: string | null; // why the file doesn't parse
+}
+
+// The tree is drawn by the page's script: folders load their entries from
+// /browse/list when first opened, so only what is looked at is read. With
+// ?view=family the same is done per daemon family instead of per folder.
+function browsePage(
+  view: "tree" | "family",
+  groups: Array<{ id: string; label: string; count: number }>,
+  entries: BrowseEntry[],
+): string {
   const body = `
     <header>
       <h1>Browse .conf files</h1>
       <nav>
         <a href="/">Home</a>
+        <a href="/check">Check streams</a>
+        <a href="/plan">Frequency plan</a>
+        <a href="/new">New file</a>
+        <a href="/search">Search</a>
       </nav>
     </header>
     <p class="tip">Listing *.conf plus *.conf.example and *.conf.template under: <span class="path">${
     escapeHtml(app.root)
-  }</span></p>
-    <table class="file-list">
-      <thead><tr><th>Path</th><th>Size (bytes)</th></tr></thead>
-      <tbody>${
-    rows || '<tr><td colspan="2"><em>No files found</em></td></tr>'
-  }</tbody>
-    </table>
+  }</span>. Hidden and backup folders are left out.</p>
+    <div class="actions">
+      ${
+    view === "tree"
+      ? `<a href="/browse?view=family">Group by daemon</a>
+      <button type="button" data-op="mkdir" data-rel="">New folder…</button>`
+      : '<a href="/browse">Folder tree</a>'
+  }
+    </div>
+    <div id="browse-errors" class="error"></div>
+    <div id="tree" data-rel=""></div>
+    <script type="module">
+      const view = ${JSON.stringify(view)};
+      const groups = ${JSON.stringify(groups).replaceAll("<", "\\u003c")};
+      const rootEntries = ${JSON.stringify(entries).replaceAll("<", "\\u003c")};
+
+      function el(tag, props = {}, ...children) {
+        const node = Object.assign(document.createElement(tag), props);
+        node.append(...children);
+        return node;
+      }
+      function button(label, op, rel) {
+        const b = el("button", { type: "button", textContent: label });
+        b.dataset.op = op;
+        b.dataset.rel = rel;
+        return b;
+      }
+      function fileRow(f) {
+        const link = el("a", { href: "/edit?file=" + encodeURIComponent(f.rel), textContent: view === "family" ? f.rel : f.name });
+        const health = f.error
+          ? el("span", { className: "health bad", textContent: "✗ doesn't parse", title: f.error })
+          : el("span", { className: "health ok", textContent: "✓" });
+        const meta = el("span", { className: "tip" },
+          [f.format ?? "unreadable", f.size + " bytes", f.mtime ? new Date(f.mtime).toLocaleString() : ""].filter(Boolean).join(" · "));
+        const row = el("li", { className: "tree-file" }, link, " ", health, " ", meta);
+        if (f.fallback) {
+          row.append(" ", el("span", { className: "tag", textContent: f.name.endsWith(".template") ? "template" : "example" }));
+          row.append(" ", el("a", { href: "/new?template=" + encodeURIComponent(f.rel), textContent: "New file from it" }));
+        }
+        row.append(" ", el("span", { className: "tree-actions" },
+          button("Rename…", "rename", f.rel), button("Copy…", "copy", f.rel), button("Delete", "delete", f.rel)));
+        return row;
+      }
+      function folderRow(id, label, rel) {
+        const summary = el("summary", {}, el("strong", { textContent: label }));
+        if (view === "tree") {
+          summary.append(" ", el("span", { className: "tree-actions" },
+            button("Rename…", "rename", rel), button("New folder…", "mkdir", rel), button("Delete", "delete", rel)));
+        }
+        const details = el("details", {}, summary, el("ul", { className: "tree" }));
+        details.dataset.id = id;
+        details.addEventListener("toggle", () => {
+          if (details.open && !details.dataset.loaded) load(details);
+        });
+        return el("li", { className: "tree-folder" }, details);
+      }
+      function render(list, entries) {
+        list.textContent = "";
+        for (const e of entries) {
+          list.append(e.kind === "folder" ? folderRow(e.rel, e.name + "/", e.rel) : fileRow(e));
+        }
+        if (!entries.length) list.append(el("li", {}, el("em", { textContent: "No config files" })));
+      }
+      async function load(details) {
+        const list = details.querySelector(":scope > ul");
+        list.textContent = "Loading…";
+        const query = view === "family" ? "family=" : "dir=";
+        const res = await fetch("/browse/list?" + query + encodeURIComponent(details.dataset.id));
+        const json = await res.json();
+        if (!res.ok) {
+          list.textContent = json.error;
+          return;
+        }
+        details.dataset.loaded = "1";
+        render(list, json.entries);
+      }
+      // Reload the folder a changed entry is in, if it is shown.
+      function refresh(rel) {
+        const dir = rel.includes("/") ? rel.slice(0, rel.lastIndexOf("/")) : "";
+        if (view === "family" || !dir) {
+          location.reload();
+          return;
+        }
+        const details = [...document.querySelectorAll("details[data-id]")].find((d) => d.dataset.id === dir);
+        if (details?.dataset.loaded) load(details);
+      }
+
+      const tree = document.getElementById("tree");
+      if (view === "family") {
+        const list = el("ul", { className: "tree" });
+        for (const g of groups) list.append(folderRow(g.id, g.label + " (" + g.count + ")", g.id));
+        tree.append(list);
+      } else {
+        const list = el("ul", { className: "tree" });
+        render(list, rootEntries);
+        tree.append(list);
+      }
+
+      document.addEventListener("click", async (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLButtonElement) || !t.dataset.op) return;
+        e.preventDefault();
+        const op = t.dataset.op;
+        const rel = t.dataset.rel;
+        const body = { op, path: rel };
+        if (op === "rename" || op === "copy") {
+          body.to = prompt((op === "rename" ? "Rename " : "Copy ") + rel + " to:", rel);
+          if (!body.to || body.to === rel) return;
+        } else if (op === "mkdir") {
+          const name = prompt("New folder in " + (rel || "the root") + ":");
+          if (!name) return;
+          body.path = rel ? rel + "/" + name : name;
+        } else if (!confirm("Delete " + rel + "?")) {
+          return;
+        }
+        const res = await fetch("/browse/op", {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-csrf-token": csrfToken },
+          body: JSON.stringify(body),
+        });
+        const json = await res.json();
+        document.getElementById("browse-errors").textContent = res.ok
+          ? json.auditError ?? ""
+          : json.error;
+        if (!res.ok) return;
+        refresh(body.path);
+        if (body.to) refresh(body.to);
+      });
+    </script>
   `;
   return pageLayout(body);
 }
 
+function schemaNote(schema: Schema): string {
+  const used = schema.sources.length
+    ? schema.sources.map((s) => `<span class="path">${escapeHtml(s)}</span>`)
+      .join(", ")
+    : "built-in defaults only";
+  const errors = schema.errors
+    .map((e) => `<div class="error">Schema not loaded: ${escapeHtml(e)}</div>`)
+    .join("");
+  return `<p class="tip">Schema: ${used}</p>${errors}`;
+}
+
 function editPage(
   fileRel: string,
   usingPath: string,
   data: Json,
   originalText: string,
+  version: string,
+  ctx: RenderContext,
 ): string {
-  const formHtml = renderValue([], data);
+  const formHtml = renderValue([], data, ctx);
   const body = `
     <header>
       <h1>Edit: <span class="path">${escapeHtml(fileRel)}</span></h1>
       <nav>
         <a href="/">Home</a>
         <a href="/browse">Browse</a>
+        <a href="/history?file=${encodeURIComponent(fileRel)}">History</a>
+        ${
+    app.upstream
+      ? `<a href="/merge?file=${
+        encodeURIComponent(fileRel)
+      }">Merge upstream</a>`
+      : ""
+  }
       </nav>
     </header>
     <p class="tip">
-      Source file used: <span class="path">${escapeHtml(path.relative(app.root, usingPath))}</span>
+      Source file used: <span class="path">${
+    escapeHtml(path.relative(app.root, usingPath))
+  }</span>${
+    isTemplateFile(usingPath)
+      ? ` (a template: <a href="/new?template=${
+        encodeURIComponent(path.relative(app.root, usingPath))
+      }">make a new file from it</a>)`
+      : ""
+  }
     </p>
+    ${schemaNote(ctx.schema)}
+    <div id="save-result" hidden></div>
 
     <fieldset>
       <legend>Original text (after input normalization)</legend>
-      <textarea id="originalTextView" readonly style="width:100%;height:200px;font-family:ui-monospace, SFMono-Regular, Menlo, monospace;">${escapeHtml(originalText)}</textarea>
-    </fieldset>
-
-    <fieldset>
-      <legend>Preview: TOML to be saved</legend>
-      <textarea id="previewToml" readonly style="width:100%;height:220px;font-family:ui-monospace, SFMono-Regular, Menlo, monospace;"></textarea>
-      <div class="tip">This shows the TOML that will be written when you click Save. It updates as you edit fields.</div>
+      <textarea id="originalTextView" readonly style="width:100%;height:200px;font-family:ui-monospace, SFMono-Regular, Menlo, monospace;">${
+    escapeHtml(originalText)
+  }</textarea>
     </fieldset>
 
     <form id="config-form">
       ${formHtml}
+      ${
+    ctx.sections
+      ? `<template id="section-template">
+        <div class="field section">
+          <label><span class="key"></span>
+            ${renderObject([""], {}, ctx)}
+          </label>
+        </div>
+      </template>
+      <p><button type="button" id="section-add">Add section…</button></p>`
+      : ""
+  }
       <div class="actions">
-        <label><input type="checkbox" id="preserveFmt" checked /> Preserve formatting and comments (best effort)</label>
-        <button type="button" id="save">Save</button>
+        <label><input type="checkbox" id="preserveFmt" checked /> Preserve formatting and comments</label>
+        <button type="button" id="save"${
+    ctx.readOnly ? ` disabled title="You may only read this file"` : ""
+  }>Save</button>
         <label>Save As:
           <input type="text" id="saveAs" placeholder="${escapeHtml(fileRel)}" />
         </label>
         <button type="button" id="save-as">Save As…</button>
         <a href="/" style="margin-left:auto">Back</a>
       </div>
+      <div id="save-errors" class="error"></div>
+      <fieldset id="review" hidden>
+        <legend>Review changes</legend>
+        <p class="tip" id="review-summary"></p>
+        <pre class="diff" id="review-diff"></pre>
+        <details>
+          <summary>Full text to be written</summary>
+          <pre class="diff" id="review-text"></pre>
+        </details>
+        <div class="actions">
+          <button type="button" id="review-confirm">Confirm save</button>
+          <button type="button" id="review-cancel">Cancel</button>
+        </div>
+      </fieldset>
       <input type="hidden" id="fileRel" value="${escapeHtml(fileRel)}" />
-      <input type="hidden" id="sourcePath" value="${escapeHtml(path.relative(app.root, usingPath))}" />
-      <input type="hidden" id="originalText" value="${escapeHtml(originalText)}" />
+      <input type="hidden" id="sourcePath" value="${
+    escapeHtml(path.relative(app.root, usingPath))
+  }" />
+      <input type="hidden" id="originalText" value="${
+    escapeHtml(originalText)
+  }" />
+      <input type="hidden" id="version" value="${escapeHtml(version)}" />
     </form>
+    <fieldset id="conflict" hidden>
+      <legend>Changed on disk</legend>
+      <p class="tip" id="conflict-summary"></p>
+      <table class="file-list">
+        <thead><tr><th>Key</th><th>When loaded</th><th>Yours</th><th>On disk now</th></tr></thead>
+        <tbody id="conflict-rows"></tbody>
+      </table>
+      <details>
+        <summary>Changes made on disk since the page was loaded</summary>
+        <pre class="diff" id="conflict-diff"></pre>
+      </details>
+      <div class="actions">
+        <button type="button" id="conflict-merge">Save merge…</button>
+        <button type="button" id="conflict-force">Overwrite with mine…</button>
+        <button type="button" id="conflict-cancel">Cancel</button>
+      </div>
+    </fieldset>
     <script type="module">
-      // Minimal TOML stringify in the browser to produce preview text.
-      // Matches server semantics (always quote strings).
-      function quoteTomlString(s) {
-        return '"' + String(s).replace(/\\\\/g, '\\\\\\\\').replace(/"/g, '\\\\"') + '"';
-      }
-      function valueToToml(v, indent = "") {
-        if (v === null || v === undefined) return "null";
-        if (typeof v === "string") return quoteTomlString(v);
-        if (typeof v === "number") return Number.isFinite(v) ? String(v) : "0";
-        if (typeof v === "boolean") return v ? "true" : "false";
-        if (Array.isArray(v)) {
-          // homogeneous simple arrays only for preview; fallback to JSON-like
-          const parts = v.map((x) => {
-            const s = valueToToml(x, indent);
-            return s.includes("\\n") ? quoteTomlString(String(x)) : s;
-          });
-          return "[" + parts.join(", ") + "]";
-        }
-        if (typeof v === "object") {
-          // Inline simple tables otherwise will be emitted via sections by objectToToml
-          const keys = Object.keys(v);
-          const simple = keys.every(k => v[k] === null || ["string","number","boolean"].includes(typeof v[k]));
-          if (simple) {
-            const entries = keys.map(k => k + " = " + valueToToml(v[k], indent));
-            return "{ " + entries.join(", ") + " }";
-          }
-        }
-        return quoteTomlString(String(v));
-      }
-      function objectToToml(obj, parentPath = []) {
-        const lines = [];
-        // First emit scalar keys in this table
-        const scalars = [];
-        const subtables = [];
-        for (const [k, v] of Object.entries(obj || {})) {
-          if (v !== null && typeof v === "object" && !Array.isArray(v)) {
-            subtables.push([k, v]);
-          } else {
-            scalars.push([k, v]);
-          }
-        }
-        if (parentPath.length > 0) {
-          lines.push("[" + parentPath.join(".") + "]");
-        }
-        for (const [k, v] of scalars) {
-          lines.push(k + " = " + valueToToml(v));
-        }
-        for (const [k, v] of subtables) {
-          const sub = objectToToml(v, [...parentPath, k]);
-          if (sub) {
-            if (lines.length) lines.push(""); // blank line between sections
-            lines.push(sub);
-          }
-        }
-        return lines.join("\\n");
-      }
-      function toTomlPreview(data) {
-        if (data === null || typeof data !== "object" || Array.isArray(data)) {
-          return objectToToml({ value: data });
-        }
-        return objectToToml(data);
-      }
-
       function pathToArray(name) {
         const firstBracket = name.indexOf('[');
         if (firstBracket === -1) return [name];
@@ -629,6 +1405,11 @@ function editPage(
 
       function coerceValue(input) {
         if (input.type === "checkbox") return input.checked;
+        // plain Hz stays a number; 88m3 style notation stays text
+        const kind = input.dataset.kind;
+        if ((kind === "frequency" || kind === "number") && /^\\d+(\\.\\d+)?$/.test(input.value.trim())) {
+          return Number(input.value);
+        }
         if (input.type === "number") {
           const n = Number(input.value);
           return Number.isFinite(n) ? n : "";
@@ -638,10 +1419,13 @@ function editPage(
 
       function formToJson(formElement) {
         const root = {};
+        formElement.querySelectorAll("fieldset[data-path]").forEach((fs) => {
+          setNested(root, pathToArray(fs.getAttribute("data-path")), {});
+        });
         const inputs = formElement.querySelectorAll("input, textarea, select");
         inputs.forEach(input => {
           const { name, id } = input;
-          if (!name) return;
+          if (!name || input.matches(":disabled")) return;
           if (id === "saveAs" || id === "fileRel" || id === "sourcePath" || id === "originalText") return;
           const value = coerceValue(input);
           const keys = pathToArray(name);
@@ -669,28 +1453,23 @@ function editPage(
         return normalize(root);
       }
 
-      function updatePreview() {
-        const form = document.getElementById("config-form");
-        const data = formToJson(form);
-        const text = toTomlPreview(data);
-        const ta = document.getElementById("previewToml");
-        if (ta) ta.value = text;
+      // The save under review (see review() below); any edit to the form
+      // makes it stale, so the panel is closed and Save has to be clicked again.
+      let pending = null;
+      function discardReview() {
+        pending = null;
+        const panel = document.getElementById("review");
+        if (panel) panel.hidden = true;
       }
-
-      // Initialize and live-update preview
-      window.addEventListener("DOMContentLoaded", updatePreview);
       document.addEventListener("input", (e) => {
         const t = e.target;
         if (!(t instanceof HTMLInputElement || t instanceof HTMLTextAreaElement || t instanceof HTMLSelectElement)) return;
-        updatePreview();
+        discardReview();
       });
       document.addEventListener("click", (e) => {
         const t = e.target;
         if (!(t instanceof HTMLElement)) return;
-        if (t.matches(".add-item, .remove-item")) {
-          // Let DOM update, then refresh preview
-          setTimeout(updatePreview, 0);
-        }
+        if (t.matches(".add-item, .remove-item")) discardReview();
       });
 
       // Array UI handlers: add/remove (existing)
@@ -713,323 +1492,3575 @@ function editPage(
         }
       });
 
-      async function save(kind) {
-        const form = document.getElementById("config-form");
-        const data = formToJson(form);
-
-        const fileRelEl = document.getElementById("fileRel");
-        const sourcePathEl = document.getElementById("sourcePath");
-        const originalTextEl = document.getElementById("originalText");
-        const saveAsEl = document.getElementById("saveAs");
-        const preserveEl = document.getElementById("preserveFmt");
+      // Enum dropdowns: "Other…" swaps the field name onto the free-text box
+      document.addEventListener("change", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLSelectElement)) return;
+        const holder = t.closest(".enum");
+        const text = holder && holder.querySelector(".enum-other");
+        if (!holder || !text) return;
+        const name = holder.getAttribute("data-name");
+        const useOther = t.selectedOptions[0] && t.selectedOptions[0].hasAttribute("data-other");
+        text.hidden = !useOther;
+        if (useOther) {
+          t.removeAttribute("name");
+          text.setAttribute("name", name);
+          text.focus();
+        } else {
+          text.removeAttribute("name");
+          t.setAttribute("name", name);
+        }
+        discardReview();
+      });
+
+      // Option toggles (ka9q INI): unchecking comments a setting out, checking
+      // a disabled default uncomments it. Only one line per key can be live.
+      document.addEventListener("change", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLInputElement) || !t.matches(".option-toggle")) return;
+        const setEnabled = (toggle, on) => {
+          toggle.checked = on;
+          const field = toggle.closest(".option");
+          const body = field && field.querySelector(".option-body");
+          if (body) body.disabled = !on;
+          if (field) field.classList.toggle("disabled-option", !on);
+        };
+        setEnabled(t, t.checked);
+        if (t.checked) {
+          document.querySelectorAll(".option-toggle").forEach((other) => {
+            if (other !== t && other.getAttribute("data-key") === t.getAttribute("data-key")) setEnabled(other, false);
+          });
+        }
+        discardReview();
+      });
+      function changedToggles() {
+        return Array.from(document.querySelectorAll(".option-toggle"))
+          .filter((t) => t.checked !== t.hasAttribute("data-enabled"))
+          .map((t) => ({ line: Number(t.getAttribute("data-line")), enabled: t.checked }));
+      }
+
+      // Section actions (ka9q INI): the form is edited in place and each action
+      // is recorded, so the server can carry the section's comments along.
+      const sectionEdits = [];
+      function askSectionName(message, current) {
+        const answer = prompt(message, current);
+        if (answer === null) return null;
+        const name = answer.trim();
+        if (!name || /[\[\]]/.test(name)) {
+          alert("A section name cannot be empty or contain [ or ].");
+          return null;
+        }
+        const taken = Array.from(document.querySelectorAll("#config-form fieldset[data-section]"))
+          .some((f) => f.getAttribute("data-section") === name);
+        if (taken) {
+          alert("Section [" + name + "] already exists.");
+          return null;
+        }
+        return name;
+      }
+      // Point a section's fields at its new name.
+      function renameSectionFields(fs, from, to) {
+        const prefix = from + "[";
+        fs.setAttribute("data-section", to);
+        fs.setAttribute("data-path", to);
+        for (const attr of ["name", "data-path", "data-array", "data-name"]) {
+          fs.querySelectorAll("[" + attr + "]").forEach((el) => {
+            const v = el.getAttribute(attr);
+            if (v.startsWith(prefix)) el.setAttribute(attr, to + "[" + v.slice(prefix.length));
+          });
+        }
+        fs.querySelectorAll(".option-toggle").forEach((t) => {
+          t.setAttribute("data-key", JSON.stringify([to, JSON.parse(t.getAttribute("data-key"))[1]]));
+        });
+        fs.querySelector("legend").textContent = to;
+        const key = fs.closest(".section").querySelector(".key");
+        if (key) key.textContent = to;
+      }
+      function disableInput(fs) {
+        const name = fs.getAttribute("data-section") + "[disable]";
+        return fs.querySelector('[name="' + CSS.escape(name) + '"]');
+      }
+      function updateSectionState(fs) {
+        const input = disableInput(fs);
+        const off = !!input && !input.matches(":disabled") && input.checked;
+        fs.classList.toggle("section-disabled", off);
+        fs.querySelector(".section-toggle").textContent = off ? "Enable" : "Disable";
+      }
+      function toggleSection(fs) {
+        let input = disableInput(fs);
+        if (input && input.matches(":disabled")) {
+          // a commented-out "#disable = ..." default: switch it on first
+          const toggle = input.closest(".option").querySelector(".option-toggle");
+          toggle.checked = true;
+          toggle.dispatchEvent(new Event("change", { bubbles: true }));
+          input.checked = false;
+        }
+        if (!input) {
+          const row = document.createElement("div");
+          row.className = "field";
+          row.innerHTML = '<label><span class="key">disable</span> <input type="checkbox" /></label>';
+          input = row.querySelector("input");
+          input.name = fs.getAttribute("data-section") + "[disable]";
+          const note = fs.querySelector(":scope > .empty-note");
+          if (note) note.remove();
+          fs.insertBefore(row, fs.querySelector(":scope > .disabled-option"));
+        }
+        if (input.type === "checkbox") input.checked = !input.checked;
+        updateSectionState(fs);
+      }
+      document.addEventListener("change", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLInputElement) || !/\[disable\]$/.test(t.name)) return;
+        const fs = t.closest("fieldset[data-section]");
+        if (fs) updateSectionState(fs);
+      });
+      document.addEventListener("click", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLElement)) return;
+        if (t.id === "section-add") {
+          const name = askSectionName("Name of the new section:", "");
+          if (!name) return;
+          const wrapper = document.getElementById("section-template").content.firstElementChild.cloneNode(true);
+          const fs = wrapper.querySelector("fieldset");
+          renameSectionFields(fs, "", name);
+          document.querySelector("#config-form > fieldset.object").appendChild(wrapper);
+          sectionEdits.push({ op: "add", name });
+          discardReview();
+          return;
+        }
+        const fs = t.closest("fieldset[data-section]");
+        if (!fs || !t.closest(".section-actions")) return;
+        const name = fs.getAttribute("data-section");
+        const wrapper = fs.closest(".section");
+        if (t.matches(".section-toggle")) {
+          toggleSection(fs);
+        } else if (t.matches(".section-rename")) {
+          const to = askSectionName("Rename section [" + name + "] to:", name);
+          if (!to) return;
+          renameSectionFields(fs, name, to);
+          sectionEdits.push({ op: "rename", from: name, name: to });
+        } else if (t.matches(".section-clone")) {
+          const to = askSectionName("Name of the copy of [" + name + "]:", name + " copy");
+          if (!to) return;
+          const copy = wrapper.cloneNode(true);
+          const copyFs = copy.querySelector("fieldset[data-section]");
+          // the copy's commented-out defaults are kept in the file, but their
+          // toggles would point at the original's lines
+          copyFs.querySelectorAll(".disabled-option, .option-toggle").forEach((el) => el.remove());
+          renameSectionFields(copyFs, name, to);
+          wrapper.after(copy);
+          sectionEdits.push({ op: "clone", from: name, name: to });
+        } else if (t.matches(".section-up, .section-down")) {
+          const offset = t.matches(".section-up") ? -1 : 1;
+          let other = offset < 0 ? wrapper.previousElementSibling : wrapper.nextElementSibling;
+          while (other && !other.matches(".section")) {
+            other = offset < 0 ? other.previousElementSibling : other.nextElementSibling;
+          }
+          if (!other) return;
+          if (offset < 0) other.before(wrapper);
+          else other.after(wrapper);
+          sectionEdits.push({ op: "move", name, offset });
+        } else if (t.matches(".section-delete")) {
+          if (!confirm("Delete section [" + name + "] and its comments?")) return;
+          wrapper.remove();
+          sectionEdits.push({ op: "delete", name });
+        } else {
+          return;
+        }
+        discardReview();
+      });
+
+      // Frequency fields: live Hz/kHz/MHz hint (same rules as frequency.ts)
+      const FREQ_UNITS = { k: 3, m: 6, g: 9 };
+      function scaleFrequency(int, frac, exp) {
+        const digits = Number(int + frac);
+        const shift = exp - frac.length;
+        return shift >= 0 ? digits * 10 ** shift : digits / 10 ** -shift;
+      }
+      function parseFrequency(s) {
+        const t = String(s).trim();
+        let m;
+        if ((m = t.match(/^(\\d+)(?:\\.(\\d+))?$/))) return scaleFrequency(m[1], m[2] || "", 0);
+        if ((m = t.match(/^(\\d+)([kmg])(\\d*)$/i))) return scaleFrequency(m[1], m[3], FREQ_UNITS[m[2].toLowerCase()]);
+        if ((m = t.match(/^(\\d*)\\.(\\d+)([kmg])$/i))) return scaleFrequency(m[1] || "0", m[2], FREQ_UNITS[m[3].toLowerCase()]);
+        return null;
+      }
+      function describeFrequency(hz) {
+        for (const [label, scale] of [["GHz", 1e9], ["MHz", 1e6], ["kHz", 1e3]]) {
+          if (hz >= scale) return Number((hz / scale).toFixed(6)) + " " + label;
+        }
+        return hz + " Hz";
+      }
+      function updateFrequencyHint(input) {
+        const hint = input.parentElement && input.parentElement.querySelector(".freq-hint");
+        if (!hint) return;
+        const hz = parseFrequency(input.value);
+        hint.textContent = hz !== null ? describeFrequency(hz) : input.value.trim() ? "invalid frequency" : "";
+      }
+      // The hidden input holds the saved value; rebuild it from the rows.
+      function syncFrequencyList(list) {
+        const hidden = list.querySelector('input[data-kind="frequency-list"]');
+        const values = Array.from(list.querySelectorAll(".freq-item input"))
+          .map((i) => i.value.trim())
+          .filter((v) => v !== "");
+        if (hidden) hidden.value = values.join(" ");
+      }
+      document.addEventListener("input", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLInputElement) || t.dataset.kind !== "frequency") return;
+        updateFrequencyHint(t);
+        const list = t.closest(".freq-list");
+        if (list) {
+          syncFrequencyList(list);
+          discardReview();
+        }
+      });
+      document.addEventListener("click", (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLElement)) return;
+        const list = t.closest(".freq-list");
+        if (!list) return;
+        const items = list.querySelector(".freq-items");
+        const row = t.closest(".freq-item");
+        if (t.matches(".freq-add")) {
+          const tpl = list.querySelector("template");
+          if (tpl && items) items.appendChild(tpl.content.cloneNode(true));
+        } else if (t.matches(".freq-remove") && row) {
+          row.remove();
+        } else if (t.matches(".freq-up") && row && row.previousElementSibling) {
+          row.parentElement.insertBefore(row, row.previousElementSibling);
+        } else if (t.matches(".freq-down") && row && row.nextElementSibling) {
+          row.parentElement.insertBefore(row.nextElementSibling, row);
+        } else if (t.matches(".freq-sort") && items) {
+          const hz = (r) => parseFrequency(r.querySelector("input").value) ?? Infinity;
+          Array.from(items.querySelectorAll(".freq-item"))
+            .sort((a, b) => hz(a) - hz(b))
+            .forEach((r) => items.appendChild(r));
+        } else {
+          return;
+        }
+        syncFrequencyList(list);
+        discardReview();
+      });
+
+      // Server-side validation errors: mark each offending input inline; keys
+      // without an input (e.g. a missing required key) are listed in the summary.
+      function fieldFor(keys) {
+        const name = keys[0] + keys.slice(1).map((k) => "[" + k + "]").join("");
+        return document.querySelector('#config-form [name="' + CSS.escape(name) + '"]:not(:disabled)');
+      }
+      function clearFieldErrors() {
+        document.querySelectorAll(".field-error").forEach((el) => el.remove());
+        document.querySelectorAll(".invalid").forEach((el) => el.classList.remove("invalid"));
+        const summary = document.getElementById("save-errors");
+        if (summary) summary.innerHTML = "";
+      }
+      function showFieldErrors(errors) {
+        const summary = document.getElementById("save-errors");
+        const unplaced = [];
+        let first = null;
+        for (const err of errors) {
+          const input = fieldFor(err.keys);
+          if (!input) {
+            unplaced.push(err);
+            continue;
+          }
+          const holder = input.closest(".freq-list") || input.closest(".field") || input.parentElement;
+          holder.classList.add("invalid");
+          const note = document.createElement("span");
+          note.className = "field-error";
+          note.textContent = err.message + " (" + err.rule + ")";
+          holder.appendChild(note);
+          first = first || input;
+        }
+        if (summary) {
+          const p = document.createElement("p");
+          p.textContent = "Not saved: " + errors.length + " field(s) failed validation.";
+          summary.appendChild(p);
+          const ul = document.createElement("ul");
+          for (const e of unplaced) {
+            const li = document.createElement("li");
+            li.textContent = e.path + " " + e.message + " (" + e.rule + ")";
+            ul.appendChild(li);
+          }
+          if (unplaced.length) summary.appendChild(ul);
+        }
+        if (first && first.type !== "hidden") first.focus();
+      }
+
+      function saveBody(kind) {
+        const form = document.getElementById("config-form");
+        const data = formToJson(form);
+
+        const fileRelEl = document.getElementById("fileRel");
+        const sourcePathEl = document.getElementById("sourcePath");
+        const originalTextEl = document.getElementById("originalText");
+        const saveAsEl = document.getElementById("saveAs");
+        const preserveEl = document.getElementById("preserveFmt");
 
         const fileRel = fileRelEl && "value" in fileRelEl ? fileRelEl.value : "";
         const sourcePath = sourcePathEl && "value" in sourcePathEl ? sourcePathEl.value : "";
         const originalText = originalTextEl && "value" in originalTextEl ? originalTextEl.value : "";
         const saveAs = saveAsEl && "value" in saveAsEl ? saveAsEl.value.trim() : "";
         const preserve = !!(preserveEl && "checked" in preserveEl && preserveEl.checked);
+        const versionEl = document.getElementById("version");
 
-        const body = {
+        return {
           fileRel,
           sourcePath,
           originalText,
           data,
           mode: kind,
           saveAs: saveAs || null,
-          preserve
+          preserve,
+          toggles: changedToggles(),
+          sections: sectionEdits,
+          version: versionEl && "value" in versionEl ? versionEl.value : undefined
         };
-        const res = await fetch("/save", {
+      }
+
+      async function post(url, body) {
+        const res = await fetch(url, {
           method: "POST",
-          headers: { "content-type": "application/json" },
+          headers: { "content-type": "application/json", "x-csrf-token": csrfToken },
           body: JSON.stringify(body)
         });
         const json = await res.json();
+        clearFieldErrors();
+        if (res.status === 422 && Array.isArray(json.errors)) {
+          showFieldErrors(json.errors);
+          return null;
+        }
+        if (res.status === 409 && json.exists) {
+          if (!confirm(json.error + ". Overwrite it?")) return null;
+          body.overwrite = true;
+          return await post(url, body);
+        }
+        if (res.status === 409 && json.conflict) {
+          showConflict(json.error, json.conflict, body);
+          return null;
+        }
         if (!res.ok) {
           alert("Save failed: " + json.error);
+          return null;
+        }
+        return json;
+      }
+
+      function renderDiff(pre, diff) {
+        pre.textContent = "";
+        for (const line of diff.split("\\n").slice(0, -1)) {
+          const span = document.createElement("span");
+          span.textContent = line + "\\n";
+          if (line.startsWith("@@")) span.className = "hunk";
+          else if (line.startsWith("+") && !line.startsWith("+++")) span.className = "add";
+          else if (line.startsWith("-") && !line.startsWith("---")) span.className = "del";
+          pre.appendChild(span);
+        }
+      }
+
+      // Save and Save As first run the save on the server without writing,
+      // and show the diff against the file on disk for confirmation.
+      async function review(body) {
+        const json = await post("/dry-run", body);
+        if (!json) {
+          discardReview();
+          return;
+        }
+        pending = body;
+        const summary = document.getElementById("review-summary");
+        summary.textContent = (json.exists
+          ? (json.diff ? "Changes to " : "No changes to ") + json.target
+          : "New file " + json.target) +
+          (json.preserved ? " (format preserved)" : " (reformatted)");
+        renderDiff(document.getElementById("review-diff"), json.diff);
+        document.getElementById("review-text").textContent = json.text;
+        const panel = document.getElementById("review");
+        panel.hidden = false;
+        panel.scrollIntoView({ block: "nearest" });
+        document.getElementById("review-confirm").focus();
+      }
+
+      async function save() {
+        if (!pending) return;
+        const body = pending;
+        const json = await post("/save", body);
+        discardReview();
+        if (!json) return;
+        if (body.mode === "overwrite") {
+          // the page now describes an old version of the file
+          sessionStorage.setItem(savedKey, JSON.stringify(json));
+          location.reload();
+        } else {
+          showSaveResult(json);
+        }
+      }
+
+      // What a save did, with the exit status and output of each post-save
+      // hook. An overwrite reloads the page, so its result is kept until then.
+      const savedKey = "web-cfg:saved:" + location.search;
+      function showSaveResult(json) {
+        const box = document.getElementById("save-result");
+        box.textContent = "";
+        box.className = json.hooks.every((h) => h.ok) ? "saved" : "saved failed";
+        const p = document.createElement("p");
+        p.textContent = json.restored
+          ? "A post-save hook failed, so the save of " + json.savedTo + " was undone."
+          : "Saved to: " + json.savedTo + (json.preserved ? " (format preserved)" : " (reformatted)");
+        box.appendChild(p);
+        for (const warning of [json.auditError, json.ownerChange]) {
+          if (!warning) continue;
+          const warn = document.createElement("p");
+          warn.className = "error";
+          warn.textContent = warning;
+          box.appendChild(warn);
+        }
+        for (const h of json.hooks) {
+          const details = document.createElement("details");
+          details.open = !h.ok;
+          const summary = document.createElement("summary");
+          summary.textContent = (h.restore ? "After putting it back: " : "") + h.command.join(" ") + " — " +
+            (h.timedOut ? "timed out" : h.code === null ? "did not start" : "exit status " + h.code);
+          const out = document.createElement("pre");
+          out.textContent = h.output || "(no output)";
+          details.append(summary, out);
+          box.appendChild(details);
+        }
+        box.hidden = false;
+        box.scrollIntoView({ block: "nearest" });
+      }
+      const saved = sessionStorage.getItem(savedKey);
+      if (saved) {
+        sessionStorage.removeItem(savedKey);
+        showSaveResult(JSON.parse(saved));
+      }
+
+      // /edit?file=...&key=global.status (as linked from /check and /plan)
+      // points at one setting, or with an index at one channel of a freq
+      // list (FT8.freq.3): bring it into view.
+      const linked = new URLSearchParams(location.search).get("key");
+      if (linked) {
+        let keys = linked.split(".");
+        try {
+          if (linked.startsWith("[")) keys = JSON.parse(linked);
+        } catch {}
+        let field = fieldFor(keys.map(String));
+        const last = keys[keys.length - 1];
+        if (!field && /^\\d+$/.test(last)) {
+          const list = fieldFor(keys.slice(0, -1).map(String))?.closest(".freq-list");
+          field = list?.querySelectorAll(".freq-item input")[Number(last)];
+        }
+        if (field?.type === "hidden") field = field.closest(".freq-list");
+        if (field) {
+          field.classList.add("linked");
+          field.scrollIntoView({ block: "center" });
+          field.focus();
+        }
+      }
+
+      // Optimistic locking: a save of a file that changed on disk since the
+      // page was loaded comes back as 409 with the keys where the two
+      // versions differ. Each row picks which value the merge keeps.
+      let conflicted = null;
+      function shownValue(k, side) {
+        if (!(side in k)) return "(not set)";
+        return typeof k[side] === "string" ? k[side] : JSON.stringify(k[side]);
+      }
+      function sameValue(k, a, b) {
+        return (a in k) === (b in k) && JSON.stringify(k[a]) === JSON.stringify(k[b]);
+      }
+      function conflictCell(k, side, i, checked) {
+        const td = document.createElement("td");
+        const code = document.createElement("code");
+        code.textContent = shownValue(k, side);
+        if (i === null) {
+          td.appendChild(code);
+          return td;
+        }
+        const label = document.createElement("label");
+        const radio = document.createElement("input");
+        radio.type = "radio";
+        radio.name = "conflict-" + i;
+        radio.value = side;
+        radio.checked = checked;
+        label.append(radio, " ", code);
+        td.appendChild(label);
+        return td;
+      }
+      function showConflict(message, conflict, body) {
+        conflicted = { conflict, body };
+        document.getElementById("conflict-summary").textContent = message + ". " +
+          (conflict.parseError
+            ? "It doesn't parse (" + conflict.parseError + "), so settings can't be compared; overwrite it with your version, or cancel and fix it first."
+            : conflict.keys.length
+            ? "Pick the value to keep for each key that differs (yours are preselected where you changed them), or overwrite the file with your version."
+            : "No settings differ, only comments or layout.");
+        const rows = document.getElementById("conflict-rows");
+        rows.textContent = "";
+        conflict.keys.forEach((k, i) => {
+          const tr = document.createElement("tr");
+          if (k.conflict) tr.className = "conflict";
+          const key = document.createElement("td");
+          key.textContent = k.path;
+          const ours = !sameValue(k, "ours", "base");
+          tr.append(key, conflictCell(k, "base", null), conflictCell(k, "ours", i, ours), conflictCell(k, "theirs", i, !ours));
+          rows.appendChild(tr);
+        });
+        renderDiff(document.getElementById("conflict-diff"), conflict.diff);
+        document.getElementById("conflict-merge").hidden = !!conflict.parseError;
+        const panel = document.getElementById("conflict");
+        panel.hidden = false;
+        panel.scrollIntoView({ block: "nearest" });
+      }
+      function closeConflict() {
+        conflicted = null;
+        document.getElementById("conflict").hidden = true;
+      }
+      function deleteNested(target, keys) {
+        let obj = target;
+        for (const k of keys.slice(0, -1)) {
+          if (!obj || typeof obj !== "object") return;
+          obj = obj[k];
+        }
+        if (obj && typeof obj === "object") delete obj[keys[keys.length - 1]];
+      }
+      // The on-disk data with the chosen values of ours applied. It is saved
+      // onto the on-disk text, so its comments and layout are kept; section
+      // actions and option toggles travel as the key changes they made.
+      function mergeBody() {
+        const { conflict, body } = conflicted;
+        const data = structuredClone(conflict.data);
+        conflict.keys.forEach((k, i) => {
+          const pick = document.querySelector('input[name="conflict-' + i + '"]:checked');
+          if (!pick || pick.value !== "ours") return;
+          if ("ours" in k) setNested(data, k.keys, structuredClone(k.ours));
+          else deleteNested(data, k.keys);
+        });
+        return { ...body, data, originalText: conflict.text, version: conflict.version, toggles: [], sections: [] };
+      }
+
+      document.getElementById("save")?.addEventListener("click", () => review(saveBody("overwrite")));
+      document.getElementById("save-as")?.addEventListener("click", () => review(saveBody("saveAs")));
+      document.getElementById("conflict-merge")?.addEventListener("click", () => {
+        const body = mergeBody();
+        closeConflict();
+        review(body);
+      });
+      document.getElementById("conflict-force")?.addEventListener("click", () => {
+        const body = { ...conflicted.body, force: true };
+        closeConflict();
+        review(body);
+      });
+      document.getElementById("conflict-cancel")?.addEventListener("click", closeConflict);
+      document.getElementById("review-confirm")?.addEventListener("click", save);
+      document.getElementById("review-cancel")?.addEventListener("click", discardReview);
+    </script>
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- History ----------------
+
+function formatTime(t: Date): string {
+  return t.toISOString().replace("T", " ").slice(0, 19) + " UTC";
+}
+
+function renderDiff(diff: string): string {
+  if (!diff) return '<p class="tip">The two versions are identical.</p>';
+  const lines = diff.split("\n").slice(0, -1).map((l) => {
+    const cls = l.startsWith("@@")
+      ? "hunk"
+      : l.startsWith("+") && !l.startsWith("+++")
+      ? "add"
+      : l.startsWith("-") && !l.startsWith("---")
+      ? "del"
+      : "";
+    return cls ? `<span class="${cls}">${escapeHtml(l)}</span>` : escapeHtml(l);
+  });
+  return `<pre class="diff">${lines.join("\n")}</pre>`;
+}
+
+// Versions of a file: the current one (if it exists) and its backups, with
+// radio buttons to pick two for a diff and a restore button per backup.
+function historyPage(
+  fileRel: string,
+  current: { size: number; mtime: Date | null } | null,
+  backups: Backup[],
+  pick: { a: string; b: string },
+  diff: string,
+): string {
+  const radios = (id: string) =>
+    ["a", "b"].map((side) =>
+      `<td><input type="radio" name="${side}" value="${escapeHtml(id)}" ${
+        pick[side as "a" | "b"] === id ? "checked" : ""
+      } /></td>`
+    ).join("");
+  const rows = [
+    current
+      ? `<tr>
+      <td><strong>Current</strong></td>
+      <td>${current.mtime ? formatTime(current.mtime) : ""}</td>
+      <td>${current.size}</td>
+      ${radios("current")}
+      <td></td>
+    </tr>`
+      : "",
+    ...backups.map((b) =>
+      `<tr>
+      <td><code>${escapeHtml(b.id)}</code></td>
+      <td>${formatTime(b.time)}</td>
+      <td>${b.size}</td>
+      ${radios(b.id)}
+      <td><button type="button" class="restore" data-id="${
+        escapeHtml(b.id)
+      }">Restore</button></td>
+    </tr>`
+    ),
+  ].join("");
+  const body = `
+    <header>
+      <h1>History: <span class="path">${escapeHtml(fileRel)}</span></h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+        <a href="/edit?file=${encodeURIComponent(fileRel)}">Edit</a>
+        <a href="/audit?file=${encodeURIComponent(fileRel)}">Audit log</a>
+      </nav>
+    </header>
+    <p class="tip">A copy is kept each time the file is saved or restored (the ${app.backups} most recent).</p>
+    <form method="get" action="/history">
+      <input type="hidden" name="file" value="${escapeHtml(fileRel)}" />
+      <table class="file-list">
+        <thead><tr><th>Version</th><th>Saved</th><th>Size (bytes)</th><th>A</th><th>B</th><th></th></tr></thead>
+        <tbody>${
+    rows || '<tr><td colspan="6"><em>No versions</em></td></tr>'
+  }</tbody>
+      </table>
+      <div class="actions"><button type="submit">Compare A → B</button></div>
+    </form>
+    ${pick.a && pick.b ? renderDiff(diff) : ""}
+    <script type="module">
+      document.addEventListener("click", async (e) => {
+        const t = e.target;
+        if (!(t instanceof HTMLElement) || !t.matches(".restore")) return;
+        const id = t.getAttribute("data-id");
+        if (!confirm("Replace the current file with version " + id + "?")) return;
+        const res = await fetch("/restore", {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-csrf-token": csrfToken },
+          body: JSON.stringify({ file: ${
+    JSON.stringify(fileRel).replaceAll("<", "\\u003c")
+  }, id })
+        });
+        const json = await res.json();
+        if (!res.ok) {
+          alert("Restore failed: " + json.error);
           return;
         }
-        alert("Saved to: " + json.savedTo + (json.preserved ? " (format preserved)" : " (reformatted)"));
+        const failed = json.hooks.find((h) => !h.ok);
+        if (failed) {
+          alert("Post-save hook failed: " + failed.command.join(" ") + "\\n" + failed.output +
+            (json.rolledBack ? "\\nThe file was put back as it was." : ""));
+        }
+        if (json.auditError) alert(json.auditError);
+        if (json.ownerChange) alert(json.ownerChange);
+        location.reload();
+      });
+    </script>
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- Stream check ----------------
+
+// The result of checking every config under --root: what streams the
+// files name, and which of them don't add up.
+interface StreamCheck {
+  files: number; // configs read
+  errors: { file: string; message: string }[]; // configs that didn't parse
+  streams: StreamSummary[];
+  issues: StreamIssue[];
+}
+
+// A link to the setting behind a reference, on its edit page.
+function refLink(ref: StreamRef): string {
+  const key = formatKeyPath(ref.keys);
+  return `<a href="/edit?file=${encodeURIComponent(ref.file)}&amp;key=${
+    encodeURIComponent(key)
+  }"><span class="path">${escapeHtml(ref.file)}</span> <code>${
+    escapeHtml(key)
+  }</code></a>`;
+}
+
+function refLinks(refs: StreamRef[]): string {
+  return refs.map(refLink).join("<br>") || "<em>none</em>";
+}
+
+function issueTable(issues: StreamIssue[]): string {
+  const labels: Record<StreamIssue["kind"], string> = {
+    "dangling": "Nothing produces it",
+    "duplicate-producer": "Produced by several files",
+    "duplicate-status": "Status name not unique",
+    "unused": "Nothing consumes it",
+  };
+  const rows = issues.map((i) =>
+    `<tr class="${i.severity}">
+      <td>${labels[i.kind]}</td>
+      <td><code>${escapeHtml(i.stream)}</code></td>
+      <td>${refLinks(i.refs)}</td>
+    </tr>`
+  ).join("");
+  return `<table class="file-list">
+      <thead><tr><th>Problem</th><th>Stream</th><th>Caused by</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>`;
+}
+
+function checkPage(check: StreamCheck): string {
+  const errors = check.issues.filter((i) => i.severity === "error");
+  const warnings = check.issues.filter((i) => i.severity === "warning");
+  const unreadable = check.errors.map((e) =>
+    `<div class="error">Not checked: <a href="/edit?file=${
+      encodeURIComponent(e.file)
+    }"><span class="path">${escapeHtml(e.file)}</span></a>: ${
+      escapeHtml(e.message)
+    }</div>`
+  ).join("");
+  const streams = check.streams.map((s) =>
+    `<tr>
+      <td><code>${escapeHtml(s.name)}</code>${
+      s.status.length ? " (status)" : ""
+    }</td>
+      <td>${refLinks([...s.status, ...s.producers])}</td>
+      <td>${refLinks(s.consumers)}</td>
+    </tr>`
+  ).join("");
+  const body = `
+    <header>
+      <h1>Stream check</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <p class="tip">
+      ${check.files} config files under <span class="path">${
+    escapeHtml(app.root)
+  }</span> name ${check.streams.length} multicast streams.
+      Templates and examples are not checked.
+    </p>
+    ${unreadable}
+    <h2>Problems (${errors.length})</h2>
+    ${
+    errors.length
+      ? issueTable(errors)
+      : "<p>Every consumed stream has exactly one producer, and status names are unique.</p>"
+  }
+    <details>
+      <summary>Streams nothing consumes (${warnings.length})</summary>
+      <p class="tip">Often fine: a stream may be listened to with <code>monitor</code> or by a program without a config here.</p>
+      ${warnings.length ? issueTable(warnings) : ""}
+    </details>
+    <details>
+      <summary>All streams (${check.streams.length})</summary>
+      <table class="file-list">
+        <thead><tr><th>Stream</th><th>Produced by</th><th>Consumed by</th></tr></thead>
+        <tbody>${streams}</tbody>
+      </table>
+    </details>
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- Frequency plan ----------------
+
+const PLAN_WIDTH = 1000; // SVG user units
+const PLAN_GUTTER = 200; // receiver names
+const PLAN_LANE = 26;
+const PLAN_AXIS = 24;
+
+// The frequency range shown, linear when zoomed in far enough.
+interface PlanScale {
+  lo: number;
+  hi: number;
+  log: boolean;
+}
+
+function planScale(lo: number, hi: number): PlanScale {
+  lo = Math.max(lo, 1);
+  return { lo, hi: Math.max(hi, lo + 1), log: hi / lo > 20 };
+}
+
+function planX(scale: PlanScale, hz: number): number {
+  const t = scale.log
+    ? Math.log10(Math.max(hz, 1) / scale.lo) / Math.log10(scale.hi / scale.lo)
+    : (hz - scale.lo) / (scale.hi - scale.lo);
+  return PLAN_GUTTER + t * (PLAN_WIDTH - PLAN_GUTTER);
+}
+
+// Grid lines: labelled decades with unlabelled 2 and 5 on a log scale (all
+// labelled when there are few), round steps on a linear one.
+function planTicks(scale: PlanScale): { hz: number; label: boolean }[] {
+  const ticks: { hz: number; label: boolean }[] = [];
+  if (scale.log) {
+    const first = Math.floor(Math.log10(scale.lo));
+    const last = Math.ceil(Math.log10(scale.hi));
+    for (let e = first; e <= last; e++) {
+      for (const m of [1, 2, 5]) {
+        const hz = m * 10 ** e;
+        if (hz < scale.lo || hz > scale.hi) continue;
+        ticks.push({ hz, label: m === 1 || last - first <= 3 });
       }
+    }
+  } else {
+    const raw = (scale.hi - scale.lo) / 8;
+    const p = 10 ** Math.floor(Math.log10(raw));
+    const step = [1, 2, 5, 10].map((m) => m * p).find((s) => s >= raw)!;
+    for (let i = Math.ceil(scale.lo / step); i * step <= scale.hi; i++) {
+      ticks.push({ hz: i * step, label: true });
+    }
+  }
+  return ticks;
+}
+
+function planEditHref(file: string, keys: KeyPath): string {
+  return `/edit?file=${encodeURIComponent(file)}&amp;key=${
+    encodeURIComponent(formatKeyPath(keys))
+  }`;
+}
+
+function channelTitle(c: Channel, kinds: Set<string> | undefined): string {
+  const edge = (hz: number) => (hz > 0 ? "+" : "") + hz;
+  return `${c.section}: ${c.freq} (${describeFrequency(c.hz)})` +
+    `${c.mode ? " " + c.mode : ""}, ${edge(c.low)}…${edge(c.high)} Hz` +
+    (c.filterGuessed ? " (usual for the mode)" : "") +
+    (c.disabled ? ", disabled" : "") +
+    (kinds?.size ? ` — ${[...kinds].join(", ")}` : "");
+}
+
+function planChart(
+  receivers: Receiver[],
+  flagged: Map<Channel, Set<string>>,
+  scale: PlanScale,
+): string {
+  const height = PLAN_AXIS + receivers.length * PLAN_LANE;
+  const grid = planTicks(scale).map(({ hz, label }) => {
+    const x = planX(scale, hz).toFixed(1);
+    return `<line class="grid${
+      label ? " major" : ""
+    }" x1="${x}" x2="${x}" y1="${PLAN_AXIS - 4}" y2="${height}" />` +
+      (label
+        ? `<text x="${x}" y="14" text-anchor="middle">${
+          escapeHtml(describeFrequency(hz))
+        }</text>`
+        : "");
+  }).join("");
+  const clip = (hz: number) => Math.min(Math.max(hz, scale.lo), scale.hi);
+  const lanes = receivers.map((r, i) => {
+    const y = PLAN_AXIS + i * PLAN_LANE;
+    let coverage = "";
+    if (r.coverage && r.coverage.high > scale.lo && r.coverage.low < scale.hi) {
+      const x1 = planX(scale, clip(r.coverage.low));
+      const x2 = planX(scale, clip(r.coverage.high));
+      coverage = `<rect class="coverage" x="${x1.toFixed(1)}" y="${
+        y + 3
+      }" width="${(x2 - x1).toFixed(1)}" height="${PLAN_LANE - 6}"><title>${
+        escapeHtml(
+          `${r.device ?? "front end"}: ${describeFrequency(r.coverage.low)} – ${
+            describeFrequency(r.coverage.high)
+          }`,
+        )
+      }</title></rect>`;
+    }
+    const marks = r.channels
+      .filter((c) => c.hz + c.high >= scale.lo && c.hz + c.low <= scale.hi)
+      .map((c) => {
+        const x1 = planX(scale, clip(c.hz + c.low));
+        const x2 = planX(scale, clip(c.hz + c.high));
+        const w = Math.max(x2 - x1, 2);
+        const kinds = flagged.get(c);
+        const cls = ["ch", ...(c.disabled ? ["disabled"] : []), ...kinds ?? []]
+          .join(" ");
+        return `<a href="${
+          planEditHref(c.file, c.keys)
+        }"><rect class="${cls}" x="${((x1 + x2 - w) / 2).toFixed(1)}" y="${
+          y + 7
+        }" width="${w.toFixed(1)}" height="${PLAN_LANE - 14}"><title>${
+          escapeHtml(channelTitle(c, kinds))
+        }</title></rect></a>`;
+      }).join("");
+    return `<g>
+      <a href="/edit?file=${encodeURIComponent(r.file)}"><text x="4" y="${
+      y + PLAN_LANE / 2 + 4
+    }">${escapeHtml(r.file)}<title>${
+      escapeHtml(
+        `${r.channels.length} channels` +
+          (r.coverage ? "" : "; front-end coverage unknown"),
+      )
+    }</title></text></a>
+      ${coverage}${marks}
+    </g>`;
+  }).join("");
+  const scaleAttr = JSON.stringify({
+    ...scale,
+    x0: PLAN_GUTTER,
+    x1: PLAN_WIDTH,
+  });
+  return `<svg id="plan" class="plan" viewBox="0 0 ${PLAN_WIDTH} ${height}" data-scale="${
+    escapeHtml(scaleAttr)
+  }">
+      ${grid}${lanes}
+      <rect id="plan-select" x="0" y="${PLAN_AXIS}" width="0" height="${
+    height - PLAN_AXIS
+  }" style="display:none" />
+    </svg>`;
+}
+
+function planIssueList(issues: PlanIssue[]): string {
+  const titles: Record<PlanIssue["kind"], string> = {
+    duplicate: "Duplicate channels",
+    overlap: "Overlapping channels",
+    uncovered: "Outside the front end's coverage",
+  };
+  return (["duplicate", "overlap", "uncovered"] as const).map((kind) => {
+    const list = issues.filter((i) => i.kind === kind);
+    if (!list.length) return "";
+    const rows = list.map((i) =>
+      `<li><a href="/edit?file=${
+        encodeURIComponent(i.file)
+      }"><span class="path">${escapeHtml(i.file)}</span></a>: ${
+        i.channels.map((c) =>
+          `<a href="${planEditHref(c.file, c.keys)}">${
+            escapeHtml(`${c.section} ${c.freq}`)
+          }</a>`
+        ).join(" and ")
+      }</li>`
+    ).join("");
+    return `<details${kind === "duplicate" ? " open" : ""}>
+      <summary>${titles[kind]} (${list.length})</summary>
+      <ul>${rows}</ul>
+    </details>`;
+  }).join("");
+}
 
-      document.getElementById("save")?.addEventListener("click", () => save("overwrite"));
-      document.getElementById("save-as")?.addEventListener("click", () => save("saveAs"));
+function planPage(
+  receivers: Receiver[],
+  issues: PlanIssue[],
+  errors: { file: string; message: string }[],
+  scale: PlanScale,
+  zoomed: boolean,
+): string {
+  const flagged = new Map<Channel, Set<string>>();
+  for (const issue of issues) {
+    for (const c of issue.channels) {
+      if (!flagged.has(c)) flagged.set(c, new Set());
+      flagged.get(c)!.add(issue.kind);
+    }
+  }
+  const span = scale.log ? 4 : 2; // zoom out: x4 each way, or twice as wide
+  const out = scale.log ? [scale.lo / span, scale.hi * span] : [
+    scale.lo - (scale.hi - scale.lo) / span,
+    scale.hi + (scale.hi - scale.lo) / span,
+  ];
+  const channels = receivers.reduce((n, r) => n + r.channels.length, 0);
+  const unreadable = errors.map((e) =>
+    `<div class="error">Not shown: <a href="/edit?file=${
+      encodeURIComponent(e.file)
+    }"><span class="path">${escapeHtml(e.file)}</span></a>: ${
+      escapeHtml(e.message)
+    }</div>`
+  ).join("");
+  const body = `
+    <header>
+      <h1>Frequency plan</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <p class="tip">
+      ${channels} channels in ${receivers.length} radiod configs.
+      Drag across the chart to zoom in; each marker links to its setting.
+    </p>
+    ${unreadable}
+    <form method="get" action="/plan" class="actions">
+      <label>From <input type="text" name="from" value="${
+    formatFrequency(Math.round(scale.lo))
+  }" size="10" /></label>
+      <label>To <input type="text" name="to" value="${
+    formatFrequency(Math.round(scale.hi))
+  }" size="10" /></label>
+      <button type="submit">Zoom</button>
+      <a href="/plan?from=${Math.max(Math.round(out[0]), 1)}&amp;to=${
+    Math.round(out[1])
+  }">Zoom out</a>
+      ${zoomed ? '<a href="/plan">Full range</a>' : ""}
+    </form>
+    <p class="tip legend">
+      <span style="background:#36c"></span>channel
+      <span style="background:#e90"></span>overlapping
+      <span style="background:#c00"></span>duplicate
+      <span style="border:2px solid #c0c"></span>outside coverage
+      <span style="background:#bbb"></span>disabled
+      <span style="background:#e6f4e6"></span>front-end coverage
+    </p>
+    ${
+    receivers.length
+      ? planChart(receivers, flagged, scale)
+      : "<p><em>No radiod@*.conf files found</em></p>"
+  }
+    ${planIssueList(issues)}
+    <script type="module">
+      // Drag across the chart to zoom into that range.
+      const svg = document.getElementById("plan");
+      const band = document.getElementById("plan-select");
+      if (svg) {
+        const { lo, hi, log, x0, x1 } = JSON.parse(svg.dataset.scale);
+        const toHz = (x) => {
+          const t = (x - x0) / (x1 - x0);
+          return log ? lo * (hi / lo) ** t : lo + t * (hi - lo);
+        };
+        const svgX = (e) => {
+          const pt = svg.createSVGPoint();
+          pt.x = e.clientX;
+          pt.y = e.clientY;
+          return pt.matrixTransform(svg.getScreenCTM().inverse()).x;
+        };
+        let start = null;
+        svg.addEventListener("pointerdown", (e) => {
+          if (e.target.closest("a")) return;
+          start = Math.max(svgX(e), x0);
+          band.setAttribute("x", start);
+          band.setAttribute("width", 0);
+          band.style.display = "";
+          svg.setPointerCapture(e.pointerId);
+        });
+        svg.addEventListener("pointermove", (e) => {
+          if (start === null) return;
+          const x = Math.min(Math.max(svgX(e), x0), x1);
+          band.setAttribute("x", Math.min(start, x));
+          band.setAttribute("width", Math.abs(x - start));
+        });
+        svg.addEventListener("pointerup", (e) => {
+          if (start === null) return;
+          const x = Math.min(Math.max(svgX(e), x0), x1);
+          const [a, b] = [Math.min(start, x), Math.max(start, x)];
+          start = null;
+          band.style.display = "none";
+          if (b - a < 4) return;
+          location.search = "?from=" + Math.round(toHz(a)) + "&to=" + Math.round(toHz(b));
+        });
+      }
     </script>
   `;
   return pageLayout(body);
 }
 
-// ---------------- Best-effort formatter-preserving patching ----------------
-
-function quoteTomlString(s: string): string {
-  // Always quote strings when writing, per TOML specification.
-  return `"${s.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+// ---------------- Search ----------------
+
+interface SearchResult extends SearchRun {
+  files: number; // files searched
+}
+
+const SEARCH_LIMIT = 500;
+const SEARCH_TIME = 5_000; // ms; the search is stopped then
+const SEARCH_MODES: SearchMode[] = ["substring", "exact", "regex"];
+
+// The modes `user` may search by. A regular expression can take the server
+// for as long as it backtracks, so only admins may search by one.
+function searchModes(user: User): SearchMode[] {
+  return user.role === "admin"
+    ? SEARCH_MODES
+    : SEARCH_MODES.filter((m) => m !== "regex");
+}
+
+function searchHitHtml(hit: SearchHit): string {
+  const href = `/edit?file=${encodeURIComponent(hit.file)}${
+    hit.keys ? `&amp;key=${encodeURIComponent(formatKeyPath(hit.keys))}` : ""
+  }`;
+  const lines = hit.context.map((c) => {
+    const text = `${String(c.line).padStart(4)}  ${escapeHtml(c.text)}\n`;
+    return c.line >= hit.line && c.line <= hit.end
+      ? `<span class="add">${text}</span>`
+      : text;
+  }).join("");
+  return `<div class="search-hit">
+      <p><a href="${href}">line ${hit.line}${
+    hit.section === null ? "" : ` in [${escapeHtml(hit.section)}]`
+  }${
+    hit.keys ? ` <code>${escapeHtml(formatKeyPath(hit.keys))}</code>` : ""
+  }</a> <span class="tip">(${hit.fields.join(", ")})</span></p>
+      <pre class="diff">${lines}</pre>
+    </div>`;
+}
+
+function searchPage(
+  q: SearchQuery | null,
+  modes: SearchMode[],
+  families: string[],
+  result: SearchResult | null,
+  error: string | null,
+): string {
+  const fields = q?.fields ?? SEARCH_FIELDS;
+  const checkbox = (name: string, value: string, checked: boolean) =>
+    `<label><input type="checkbox" name="${name}" value="${escapeHtml(value)}"${
+      checked ? " checked" : ""
+    } /> ${escapeHtml(value)}</label>`;
+  let results = "";
+  if (error) {
+    results = `<div class="error">${escapeHtml(error)}</div>`;
+  } else if (result) {
+    const byFile = new Map<string, SearchHit[]>();
+    for (const hit of result.hits) {
+      byFile.set(hit.file, [...byFile.get(hit.file) ?? [], hit]);
+    }
+    results = `
+    ${
+      result.errors.map((e) =>
+        `<div class="error">Not searched: <a href="/edit?file=${
+          encodeURIComponent(e.file)
+        }"><span class="path">${escapeHtml(e.file)}</span></a>: ${
+          escapeHtml(e.message)
+        }</div>`
+      ).join("")
+    }
+    <p>${result.hits.length}${result.truncated ? "+" : ""} match${
+      result.hits.length === 1 ? "" : "es"
+    } in ${byFile.size} of ${result.files} files${
+      result.truncated ? ` (only the first ${SEARCH_LIMIT} are shown)` : ""
+    }.</p>${
+      result.timedOut
+        ? `<div class="error">The search stopped after ${
+          SEARCH_TIME / 1000
+        } s, before every file was searched.</div>`
+        : ""
+    }
+    ${
+      [...byFile].map(([file, hits]) =>
+        `<h2><a href="/edit?file=${
+          encodeURIComponent(file)
+        }"><span class="path">${escapeHtml(file)}</span></a></h2>
+    ${hits.map(searchHitHtml).join("")}`
+      ).join("")
+    }`;
+  }
+  const body = `
+    <header>
+      <h1>Search</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <form method="get" action="/search">
+      <div class="actions">
+        <input type="search" name="q" value="${
+    escapeHtml(q?.text ?? "")
+  }" placeholder="wspr-pcm.local" required autofocus />
+        <select name="mode">${
+    modes.map((m) =>
+      `<option${
+        m === (q?.mode ?? "substring") ? " selected" : ""
+      }>${m}</option>`
+    ).join("")
+  }</select>
+        <label><input type="checkbox" name="case" value="1"${
+    q?.matchCase ? " checked" : ""
+  } /> Match case</label>
+        <button type="submit">Search</button>
+      </div>
+      <p>In: ${
+    SEARCH_FIELDS.map((f) => checkbox("in", f, fields.includes(f))).join(" ")
+  }</p>
+      ${
+    families.length
+      ? `<p>Files: ${
+        families.map((f) => checkbox("family", f, !!q?.families.includes(f)))
+          .join(" ")
+      } <span class="tip">(none checked: every file)</span></p>`
+      : ""
+  }
+    </form>
+    ${results}
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- Audit log ----------------
+
+const AUDIT_LIMIT = 500; // entries shown on the page; exports have them all
+
+function auditValue(v: Json | undefined): string {
+  return v === undefined
+    ? '<span class="tip">unset</span>'
+    : `<code>${escapeHtml(JSON.stringify(v))}</code>`;
+}
+
+function auditRow(e: AuditEntry): string {
+  const link = (rel: string) =>
+    `<a href="/history?file=${encodeURIComponent(rel)}"><span class="path">${
+      escapeHtml(rel)
+    }</span></a>`;
+  const notes = [
+    e.version ? `put back version <code>${escapeHtml(e.version)}</code>` : "",
+    e.restored ? "undone again: a post-save hook failed" : "",
+    e.changes === null ? "a version doesn't parse, so keys aren't listed" : "",
+  ].filter(Boolean).map((n) => `<div class="tip">${n}</div>`).join("");
+  const changes = (e.changes ?? []).map((c) =>
+    `<li><code>${escapeHtml(c.key)}</code>: ${auditValue(c.old)} → ${
+      auditValue(c.new)
+    }</li>`
+  ).join("");
+  return `<tr>
+      <td>${escapeHtml(formatTime(new Date(e.time)))}</td>
+      <td>${
+    e.user ? escapeHtml(e.user) : '<span class="tip">anonymous</span>'
+  }</td>
+      <td>${escapeHtml(e.address)}</td>
+      <td>${escapeHtml(e.action)}</td>
+      <td>${link(e.file)}${e.to ? ` → ${link(e.to)}` : ""}</td>
+      <td>${
+    changes ? `<ul class="audit-changes">${changes}</ul>` : ""
+  }${notes}</td>
+    </tr>`;
+}
+
+// Newest first, filtered by the form's fields; the export links download
+// every matching entry.
+function auditPage(
+  url: URL,
+  users: string[],
+  entries: AuditEntry[],
+  damaged: number,
+  error: string | null,
+): string {
+  const p = url.searchParams;
+  const value = (k: string) => escapeHtml(p.get(k) ?? "");
+  const select = (name: string, options: string[]) =>
+    `<select name="${name}"><option value="">any</option>${
+      options.map((o) =>
+        `<option${o === p.get(name) ? " selected" : ""}>${
+          escapeHtml(o)
+        }</option>`
+      ).join("")
+    }</select>`;
+  const exportUrl = (format: string) => {
+    const q = new URLSearchParams(p);
+    q.set("format", format);
+    return `/audit?${escapeHtml(q.toString())}`;
+  };
+  const rows = entries.slice(0, AUDIT_LIMIT).map(auditRow).join("");
+  const body = `
+    <header>
+      <h1>Audit log</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <p class="tip">Every save, restore, merge, new file and file operation, with who made it, from where, and each key's old and new value. Kept in <span class="path">${
+    escapeHtml(app.audit)
+  }</span>.</p>
+    <form method="get" action="/audit">
+      <div class="actions">
+        <label>User ${select("user", users.filter(Boolean))}</label>
+        <label>Action ${select("action", AUDIT_ACTIONS)}</label>
+        <label>File <input type="text" name="file" value="${
+    value("file")
+  }" placeholder="radiod@" /></label>
+        <label>Key <input type="text" name="key" value="${
+    value("key")
+  }" placeholder="status" /></label>
+      </div>
+      <div class="actions">
+        <label>From <input type="date" name="from" value="${
+    value("from")
+  }" /></label>
+        <label>To <input type="date" name="to" value="${value("to")}" /></label>
+        <span class="tip">(UTC days)</span>
+        <button type="submit">Filter</button>
+        <a href="/audit">Clear</a>
+        <span style="margin-left:auto">Export: <a href="${
+    exportUrl("csv")
+  }">CSV</a> <a href="${exportUrl("jsonl")}">JSON Lines</a></span>
+      </div>
+    </form>
+    ${error ? `<div class="error">${escapeHtml(error)}</div>` : ""}
+    ${
+    damaged
+      ? `<div class="error">${damaged} line${
+        damaged === 1 ? "" : "s"
+      } of the log couldn't be read.</div>`
+      : ""
+  }
+    <p>${entries.length} entr${entries.length === 1 ? "y" : "ies"}${
+    entries.length > AUDIT_LIMIT
+      ? ` (the newest ${AUDIT_LIMIT} are shown; the export has all)`
+      : ""
+  }.</p>
+    <table class="file-list">
+      <thead><tr><th>Time</th><th>User</th><th>From</th><th>Action</th><th>File</th><th>Changes</th></tr></thead>
+      <tbody>${rows}</tbody>
+    </table>
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- New file wizard ----------------
+
+function templateField(v: Template["vars"][number]): string {
+  const id = `var-${v.name}`;
+  const input = v.type === "choice"
+    ? `<select id="${id}" name="${escapeHtml(v.name)}">${
+      v.choices.map((c) =>
+        `<option${c === v.default ? " selected" : ""}>${escapeHtml(c)}</option>`
+      ).join("")
+    }</select>`
+    : `<input type="text" id="${id}" name="${
+      escapeHtml(v.name)
+    }" placeholder="${escapeHtml(v.default)}" />`;
+  const hint = [v.type === "choice" ? "" : v.type, v.description]
+    .filter(Boolean).join(": ");
+  return `<div class="field">
+        <label for="${id}"><span class="key">${
+    escapeHtml(v.name)
+  }</span></label>
+        ${input}
+        <span class="tip">${escapeHtml(hint)}</span>
+      </div>`;
+}
+
+// Pick a template, answer its variables, preview, create. Empty answers
+// take the default shown as placeholder.
+function newPage(
+  templates: string[],
+  chosen: { rel: string; template?: Template; error?: string } | null,
+): string {
+  const options = templates.map((t) =>
+    `<option${t === chosen?.rel ? " selected" : ""}>${escapeHtml(t)}</option>`
+  ).join("");
+  let form = "";
+  if (chosen?.error) {
+    form = `<div class="error">${escapeHtml(chosen.rel)}: ${
+      escapeHtml(chosen.error)
+    }</div>`;
+  } else if (chosen?.template) {
+    const example = templateTarget(chosen.rel, "<instance>");
+    form = `
+    <form id="new-form">
+      <fieldset>
+        <legend>New file from <span class="path">${
+      escapeHtml(chosen.rel)
+    }</span></legend>
+        <div class="field">
+          <label for="var-instance"><span class="key">instance</span></label>
+          <input type="text" id="var-instance" name="instance" required />
+          <span class="tip">creates <span class="path">${
+      escapeHtml(example)
+    }</span></span>
+        </div>
+        ${chosen.template.vars.map(templateField).join("")}
+      </fieldset>
+      <div class="actions">
+        <button type="button" id="new-preview">Preview</button>
+        <button type="button" id="new-create">Create</button>
+      </div>
+    </form>
+    <div id="new-errors" class="error"></div>
+    <section id="new-result" hidden>
+      <p id="new-summary"></p>
+      <ul id="new-validation" class="error"></ul>
+      <pre id="new-text" class="diff"></pre>
+    </section>
+    <script type="module">
+      const template = ${JSON.stringify(chosen.rel).replaceAll("<", "\\u003c")};
+      function answers() {
+        const values = {};
+        for (const el of document.querySelectorAll("#new-form [name]")) {
+          if (el.name !== "instance" && el.value !== "") values[el.name] = el.value;
+        }
+        const instance = document.getElementById("var-instance").value.trim();
+        return { template, instance, values };
+      }
+      function showErrors(errors) {
+        document.querySelectorAll(".field-error").forEach((el) => el.remove());
+        for (const [name, message] of Object.entries(errors)) {
+          const field = document.getElementById("var-" + name);
+          const note = document.createElement("span");
+          note.className = "field-error error";
+          note.textContent = message;
+          field.after(note);
+        }
+      }
+      async function post(url) {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-csrf-token": csrfToken },
+          body: JSON.stringify(answers()),
+        });
+        const json = await res.json();
+        document.getElementById("new-errors").textContent = res.ok || json.errors ? "" : json.error;
+        showErrors(json.errors ?? {});
+        return { res, json };
+      }
+      function showPreview(json) {
+        document.getElementById("new-summary").textContent = json.exists
+          ? json.target + " already exists, and won't be overwritten."
+          : "Creates " + json.target + ":";
+        const list = document.getElementById("new-validation");
+        list.textContent = "";
+        for (const e of json.validation) {
+          const li = document.createElement("li");
+          li.textContent = (e.path ? e.path + ": " : "") + e.message;
+          list.appendChild(li);
+        }
+        document.getElementById("new-text").textContent = json.text;
+        document.getElementById("new-result").hidden = false;
+      }
+      document.getElementById("new-preview").addEventListener("click", async () => {
+        const { json } = await post("/new/preview");
+        if (json.text !== undefined) showPreview(json);
+      });
+      document.getElementById("new-create").addEventListener("click", async () => {
+        const { res, json } = await post("/new");
+        if (json.text !== undefined) showPreview(json);
+        if (!res.ok) return;
+        if (json.restored) {
+          const failed = json.hooks.find((h) => !h.ok);
+          document.getElementById("new-errors").textContent =
+            "A post-save hook failed, so the file was removed again: " +
+            failed.command.join(" ") + ": " + failed.output;
+          return;
+        }
+        // the edit page shows what the save did, as after a save there
+        const search = "?file=" + encodeURIComponent(json.savedTo);
+        sessionStorage.setItem("web-cfg:saved:" + search, JSON.stringify(json));
+        location.href = "/edit" + search;
+      });
+    </script>`;
+  }
+  const body = `
+    <header>
+      <h1>New file</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <p class="tip">
+      Templates are the *.conf.template and *.conf.example files under the root.
+      Variables are declared in them as <code># @var band: name = \${instance} -- description</code>.
+    </p>
+    ${
+    templates.length
+      ? `<form method="get" action="/new" class="actions">
+      <label>Template <select name="template">${options}</select></label>
+      <button type="submit">Choose</button>
+    </form>`
+      : "<p><em>No templates found</em></p>"
+  }
+    ${form}
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- Upstream merge ----------------
+
+// How each local file compares with upstream's copy.
+interface UpstreamFile {
+  rel: string;
+  status: "same" | "differs" | "local" | "upstream"; // or only on one side
+}
+
+function mergeListPage(files: UpstreamFile[]): string {
+  const label = {
+    same: "Same as upstream",
+    differs: "Differs",
+    local: "Local only",
+    upstream: "Upstream only (not installed)",
+  };
+  const rows = files.map((f) =>
+    `<tr${f.status === "differs" ? ' class="conflict"' : ""}>
+      <td>${
+      f.status === "differs"
+        ? `<a href="/merge?file=${encodeURIComponent(f.rel)}">${
+          escapeHtml(f.rel)
+        }</a>`
+        : escapeHtml(f.rel)
+    }</td>
+      <td>${label[f.status]}</td>
+    </tr>`
+  ).join("");
+  const body = `
+    <header>
+      <h1>Merge upstream</h1>
+      <nav>
+        <a href="/">Home</a>
+        <a href="/browse">Browse</a>
+      </nav>
+    </header>
+    <p class="tip">Upstream: <span class="path">${
+    escapeHtml(app.upstream ?? "")
+  }</span>. Pick a file that differs to merge upstream's changes into it.</p>
+    <table class="file-list">
+      <thead><tr><th>File</th><th>Status</th></tr></thead>
+      <tbody>${
+    rows || '<tr><td colspan="2"><em>No config files</em></td></tr>'
+  }</tbody>
+    </table>
+  `;
+  return pageLayout(body);
+}
+
+function mergeValue(k: MergedKey, side: "base" | MergeSide): string {
+  if (!(side in k)) return "(not set)";
+  const v = k[side];
+  return typeof v === "string" ? v : JSON.stringify(v);
+}
+
+// One row per key that differs between the local file and upstream. The
+// keys only one side changed show the side taken; conflicts get a choice.
+function mergeRow(k: MergedKey, i: number): string {
+  const cell = (side: MergeSide) => {
+    const value = `<code>${escapeHtml(mergeValue(k, side))}</code>`;
+    if (!k.conflict) {
+      return `<td>${
+        k.taken === side ? `<strong>${value}</strong>` : value
+      }</td>`;
+    }
+    return `<td><label><input type="radio" name="pick-${i}" value="${side}" data-path="${
+      escapeHtml(k.path)
+    }"${k.taken === side ? " checked" : ""} /> ${value}</label></td>`;
+  };
+  return `<tr${k.conflict ? ' class="conflict"' : ""}>
+      <td>${escapeHtml(k.path)}</td>
+      <td><code>${escapeHtml(mergeValue(k, "base"))}</code></td>
+      ${cell("ours")}
+      ${cell("theirs")}
+    </tr>`;
+}
+
+function mergePage(
+  fileRel: string,
+  bases: Array<{ id: string; label: string }>,
+  base: string,
+  plan: { keys: MergedKey[]; diff: string; version: string },
+): string {
+  const conflicts = plan.keys.filter((k) => k.conflict).length;
+  const taken = plan.keys.filter((k) => !k.conflict && k.taken === "theirs")
+    .length;
+  const options = bases.map((b) =>
+    `<option value="${escapeHtml(b.id)}"${b.id === base ? " selected" : ""}>${
+      escapeHtml(b.label)
+    }</option>`
+  ).join("");
+  const body = `
+    <header>
+      <h1>Merge upstream: <span class="path">${escapeHtml(fileRel)}</span></h1>
+      <nav>
+        <a href="/merge">All files</a>
+        <a href="/edit?file=${encodeURIComponent(fileRel)}">Edit</a>
+        <a href="/history?file=${encodeURIComponent(fileRel)}">History</a>
+      </nav>
+    </header>
+    <form method="get" action="/merge" class="actions">
+      <input type="hidden" name="file" value="${escapeHtml(fileRel)}" />
+      <label>Base <select name="base">${options}</select></label>
+      <button type="submit">Compare</button>
+    </form>
+    <p class="tip">
+      The base is the version both copies started from: the upstream copy this
+      file was last merged with, or one of its backups. Without one, only keys
+      one side doesn't have merge by themselves.
+    </p>
+    <p>${taken} upstream change${
+    taken === 1 ? "" : "s"
+  } taken automatically, ${conflicts} conflict${conflicts === 1 ? "" : "s"}${
+    conflicts ? " (local values preselected)" : ""
+  }.</p>
+    <table class="file-list">
+      <thead><tr><th>Key</th><th>Base</th><th>Local</th><th>Upstream</th></tr></thead>
+      <tbody>${
+    plan.keys.map(mergeRow).join("") ||
+    '<tr><td colspan="4"><em>No settings differ</em></td></tr>'
+  }</tbody>
+    </table>
+    <h2>Changes to the local file</h2>
+    <div id="merge-diff">${renderDiff(plan.diff)}</div>
+    <div id="merge-errors" class="error"></div>
+    <div class="actions">
+      <button type="button" id="merge-save"${
+    plan.diff ? "" : " disabled"
+  }>Save merge</button>
+    </div>
+    <script type="module">
+      const request = {
+        file: ${JSON.stringify(fileRel).replaceAll("<", "\\u003c")},
+        base: ${JSON.stringify(base).replaceAll("<", "\\u003c")},
+        version: ${JSON.stringify(plan.version)},
+      };
+      function picks() {
+        const out = {};
+        for (const el of document.querySelectorAll("input[data-path]:checked")) {
+          out[el.getAttribute("data-path")] = el.value;
+        }
+        return out;
+      }
+      async function post(url) {
+        const res = await fetch(url, {
+          method: "POST",
+          headers: { "content-type": "application/json", "x-csrf-token": csrfToken },
+          body: JSON.stringify({ ...request, picks: picks() }),
+        });
+        const json = await res.json();
+        const errors = document.getElementById("merge-errors");
+        errors.textContent = res.ok ? "" : json.error + (json.errors
+          ? ": " + json.errors.map((e) => e.path + ": " + e.message).join("; ")
+          : "");
+        return { res, json };
+      }
+      function showDiff(diff) {
+        const out = document.getElementById("merge-diff");
+        out.textContent = "";
+        const pre = document.createElement("pre");
+        pre.className = "diff";
+        for (const line of diff.split("\\n").slice(0, -1)) {
+          const span = document.createElement("span");
+          span.textContent = line + "\\n";
+          if (line.startsWith("@@")) span.className = "hunk";
+          else if (line.startsWith("+") && !line.startsWith("+++")) span.className = "add";
+          else if (line.startsWith("-") && !line.startsWith("---")) span.className = "del";
+          pre.appendChild(span);
+        }
+        out.appendChild(diff ? pre : Object.assign(document.createElement("p"), {
+          className: "tip",
+          textContent: "The merge leaves the local file as it is.",
+        }));
+        document.getElementById("merge-save").disabled = !diff;
+      }
+      document.addEventListener("change", async (e) => {
+        if (!(e.target instanceof HTMLInputElement) || !e.target.matches("input[data-path]")) return;
+        const { res, json } = await post("/merge/preview");
+        if (res.ok) showDiff(json.diff);
+      });
+      document.getElementById("merge-save").addEventListener("click", async () => {
+        const { res, json } = await post("/merge");
+        if (!res.ok) return;
+        // the edit page shows what the save did, as after a save there
+        const search = "?file=" + encodeURIComponent(json.savedTo);
+        sessionStorage.setItem("web-cfg:saved:" + search, JSON.stringify(json));
+        location.href = "/edit" + search;
+      });
+    </script>
+  `;
+  return pageLayout(body);
+}
+
+// ---------------- HTTP handlers ----------------
+
+function jsonHeaders() {
+  return { "content-type": "application/json; charset=utf-8" };
+}
+
+// The fields of a JSON request body, none when it isn't an object; each
+// handler checks the ones it reads.
+async function jsonFields(req: Request): Promise<{ [k: string]: unknown }> {
+  const body: unknown = await req.json().catch(() => null);
+  return body !== null && typeof body === "object" && !Array.isArray(body)
+    ? body as { [k: string]: unknown }
+    : {};
+}
+
+function stringField(v: unknown): string | undefined {
+  return typeof v === "string" ? v : undefined;
+}
+
+// ---------------- Login ----------------
+
+function loginPage(next: string, name: string, error: string | null): string {
+  const body = `
+    <header>
+      <h1>TOML Config Editor</h1>
+    </header>
+    <form method="post" action="/login">
+      <input type="hidden" name="next" value="${escapeHtml(next)}" />
+      <div class="field">
+        <label>User <input type="text" name="name" value="${
+    escapeHtml(name)
+  }" autocomplete="username" required${name ? "" : " autofocus"} /></label>
+      </div>
+      <div class="field">
+        <label>Password <input type="password" name="password" autocomplete="current-password" required${
+    name ? " autofocus" : ""
+  } /></label>
+      </div>
+      ${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+      <div class="actions"><button type="submit">Log in</button></div>
+    </form>
+  `;
+  return pageLayout(body);
+}
+
+// Where to go after logging in: a path on this server, never another site.
+function loginTarget(next: string | null): string {
+  return next?.startsWith("/") && !next.startsWith("//") &&
+      !next.startsWith("/\\")
+    ? next
+    : "/";
+}
+
+function withCookies(
+  req: Request,
+  session: Session | null,
+  init: ResponseInit,
+): ResponseInit {
+  const headers = new Headers(init.headers);
+  for (const c of sessionCookies(session, isSecure(req))) {
+    headers.append("set-cookie", c);
+  }
+  return { ...init, headers };
+}
+
+// A form's fields; none when the body isn't a form.
+function formOf(req: Request): Promise<FormData> {
+  return req.formData().catch(() => new FormData());
+}
+
+// GET /login shows the form; POST /login checks it and starts a session.
+// Only with --login.
+async function handleLogin(req: Request, url: URL): Promise<Response> {
+  if (!app.login) return new Response("Not Found", { status: 404 });
+  const html = { "content-type": "text/html; charset=utf-8" };
+  if (req.method === "GET") {
+    const next = loginTarget(url.searchParams.get("next"));
+    if (await sessionOf(req)) {
+      return new Response(null, { status: 303, headers: { location: next } });
+    }
+    // clear the cookies of a session that has ended
+    return new Response(
+      loginPage(next, "", null),
+      withCookies(req, null, { headers: html }),
+    );
+  }
+  if (req.method !== "POST") {
+    return new Response("Method Not Allowed", { status: 405 });
+  }
+  if (crossSite(req)) return forbidden("Cross-site request refused");
+  const form = await formOf(req);
+  const name = String(form.get("name") ?? "");
+  const password = String(form.get("password") ?? "");
+  const next = loginTarget(String(form.get("next") ?? ""));
+  const wait = await loginWait(req, name);
+  if (wait > 0) {
+    const seconds = Math.ceil(wait / 1000);
+    return new Response(
+      loginPage(
+        next,
+        name,
+        `Too many failed logins; try again in ${seconds} s.`,
+      ),
+      { status: 429, headers: { ...html, "retry-after": String(seconds) } },
+    );
+  }
+  const user = await checkPassword(name, password);
+  await countLogin(req, name, user);
+  if (!user) {
+    return new Response(
+      loginPage(next, name, "Wrong user name or password."),
+      { status: 401, headers: html },
+    );
+  }
+  const session = startSession(user, idleMs());
+  return new Response(
+    null,
+    withCookies(req, session, { status: 303, headers: { location: next } }),
+  );
+}
+
+// POST /logout, from the form at the top of every page, which sends the
+// CSRF token as a field.
+async function handleLogout(req: Request): Promise<Response> {
+  if (!app.login) return new Response("Not Found", { status: 404 });
+  const session = await sessionOf(req);
+  if (session) {
+    const token = (await formOf(req)).get("csrf");
+    if (!csrfMatches(session, typeof token === "string" ? token : null)) {
+      return forbidden("Missing or wrong CSRF token; reload the page");
+    }
+    endSession(session.id);
+  }
+  return new Response(
+    null,
+    withCookies(req, null, { status: 303, headers: { location: "/login" } }),
+  );
+}
+
+async function handleIndex(req: Request): Promise<Response> {
+  if (!await authenticate(req)) return unauthorized();
+  return new Response(indexPage(), {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+// Tree entries with what /browse shows of each file: the format it is
+// read as and whether it parses.
+async function browseEntries(entries: TreeEntry[]): Promise<BrowseEntry[]> {
+  const out: BrowseEntry[] = [];
+  for (const e of entries) {
+    if (e.kind === "folder") {
+      out.push({ kind: e.kind, name: e.name, rel: e.rel });
+      continue;
+    }
+    const { format, error } = await inspectFile(path.join(app.root, e.rel));
+    out.push({
+      ...e,
+      mtime: e.mtime?.toISOString() ?? null,
+      format,
+      error,
+    });
+  }
+  return out;
+}
+
+const OTHER_FAMILY = "other";
+
+// A folder's entries without the files `user` may not see.
+function visibleEntries(user: User, entries: TreeEntry[]): TreeEntry[] {
+  return entries.filter((e) =>
+    e.kind === "folder" || accessTo(user, e.rel) !== "none"
+  );
+}
+
+async function handleBrowse(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  let page: string;
+  if (url.searchParams.get("view") === "family") {
+    const counts = new Map<string, number>();
+    for (const f of await visibleFiles(user)) {
+      const id = f.family ?? OTHER_FAMILY;
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    const groups = [...counts].sort(([a], [b]) =>
+      a === OTHER_FAMILY ? 1 : b === OTHER_FAMILY ? -1 : a.localeCompare(b)
+    ).map(([id, count]) => ({
+      id,
+      label: id === OTHER_FAMILY ? "Other files" : id,
+      count,
+    }));
+    page = browsePage("family", groups, []);
+  } else {
+    const entries = await browseEntries(
+      visibleEntries(user, await listFolder(app.root, "")),
+    );
+    page = browsePage("tree", [], entries);
+  }
+  return new Response(page, {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+// GET /browse/list?dir=<folder> or ?family=radiod@ (or "other"): the
+// entries the browser shows when a folder or group is opened.
+async function handleBrowseList(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const family = url.searchParams.get("family");
+    let entries: TreeEntry[];
+    if (family !== null) {
+      entries = (await visibleFiles(user)).filter((f) =>
+        (f.family ?? OTHER_FAMILY) === family
+      );
+    } else {
+      const dir = url.searchParams.get("dir") ?? "";
+      ensureInsideRoot(path.join(app.root, dir), app.root);
+      entries = visibleEntries(user, await listFolder(app.root, dir));
+    }
+    return new Response(
+      JSON.stringify({ entries: await browseEntries(entries) }),
+      { headers: jsonHeaders() },
+    );
+  } catch (e) {
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: e instanceof Deno.errors.NotFound ? 404 : 400,
+        headers: jsonHeaders(),
+      },
+    );
+  }
+}
+
+// A path the browser may change: inside the root, not the root itself and
+// not in or at a hidden or backup folder.
+function browseTarget(rel: unknown): string {
+  if (typeof rel !== "string" || !rel.trim()) throw new Error("Missing path");
+  const full = ensureInsideRoot(path.join(app.root, rel), app.root);
+  const parts = path.relative(app.root, full).split(path.SEPARATOR);
+  if (!parts[0] || parts.some(isSkippedFolder)) {
+    throw new Error(`Not allowed: ${rel}`);
+  }
+  return full;
+}
+
+// POST /browse/op { op, path, to }: rename or copy `path` to `to`, delete
+// it, or make the folder `path`. Nothing is ever overwritten; a deleted file
+// is backed up first, and only empty folders can be deleted. Files need
+// write access (read access to the original of a copy); folders need an
+// admin.
+async function handleBrowseOp(req: Request): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const fail = (status: number, error: string) =>
+    new Response(JSON.stringify({ error }), {
+      status,
+      headers: jsonHeaders(),
+    });
+  try {
+    const payload = await jsonFields(req);
+    const op = stringField(payload.op);
+    let target: string;
+    let to: string | null = null;
+    try {
+      target = browseTarget(payload.path);
+      if (op === "rename" || op === "copy") to = browseTarget(payload.to);
+    } catch (e) {
+      return fail(400, e instanceof Error ? e.message : String(e));
+    }
+    for (const p of [target, to]) {
+      const linked = p && await linkedOutside(p);
+      if (linked) return fail(400, linked);
+    }
+    const rel = path.relative(app.root, target);
+    const toRel = to && path.relative(app.root, to);
+    const st = op === "mkdir"
+      ? null
+      : await Deno.lstat(target).catch(() => null);
+    if (op !== "mkdir" && !st) return fail(404, `${rel} doesn't exist`);
+    if (op === "mkdir" || !st!.isFile) {
+      if (user.role !== "admin") {
+        return fail(403, "Only an admin may change folders");
+      }
+    } else if (
+      !(op === "copy" ? mayRead(user, target) : mayWrite(user, target)) ||
+      (to && !mayWrite(user, to))
+    ) {
+      return fail(403, `You may not ${op} ${rel}${to ? ` to ${toRel}` : ""}`);
+    }
+    if (to) {
+      if (await Deno.lstat(to).then(() => true, () => false)) {
+        return fail(409, `${toRel} already exists`);
+      }
+      if (st!.isFile && !isConfFile(path.basename(to))) {
+        return fail(
+          400,
+          "The new name must end in .conf, .conf.example or .conf.template",
+        );
+      }
+    }
+
+    // for the audit log: the copy's keys are all new, a deleted file's gone
+    let before: string | null = null;
+    let after: string | null = null;
+    let backup: Backup | null = null;
+    if (op === "rename") {
+      await Deno.rename(target, to!);
+    } else if (op === "copy") {
+      if (!st!.isFile) return fail(400, "Only files can be copied");
+      await Deno.copyFile(target, to!);
+      after = await Deno.readTextFile(to!);
+    } else if (op === "delete") {
+      if (st!.isDirectory) {
+        for await (const _ of Deno.readDir(target)) {
+          return fail(409, `${rel} isn't empty`);
+        }
+        await Deno.remove(target);
+      } else {
+        before = await Deno.readTextFile(target);
+        backup = await backupFile(app.root, rel, app.backups);
+        await Deno.remove(target);
+      }
+    } else if (op === "mkdir") {
+      if (await Deno.lstat(target).then(() => true, () => false)) {
+        return fail(409, `${rel} already exists`);
+      }
+      await Deno.mkdir(target);
+    } else {
+      return fail(400, `Unknown operation: ${op}`);
+    }
+    const auditError = await recordAudit(
+      actorOf(req, user),
+      op as AuditAction,
+      rel,
+      before,
+      after,
+      {
+        ...(toRel ? { to: toRel } : {}),
+        ...(backup ? { backup: backup.id } : {}),
+      },
+    );
+    return new Response(
+      JSON.stringify({ ok: true, path: rel, to: toRel, auditError }),
+      { headers: jsonHeaders() },
+    );
+  } catch (e) {
+    if (e instanceof Deno.errors.NotFound) return fail(404, e.message);
+    console.error(e);
+    return fail(500, e instanceof Error ? e.message : String(e));
+  }
+}
+
+async function handleEdit(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const fileRel = url.searchParams.get("file");
+  if (!fileRel) return new Response("Missing ?file=...", { status: 400 });
+
+  let candidate: string;
+  try {
+    candidate = ensureInsideRoot(path.join(app.root, fileRel), app.root);
+  } catch (e) {
+    return forbidden(e instanceof Error ? e.message : String(e));
+  }
+  if (!mayRead(user, candidate)) {
+    return forbidden(`You may not read ${fileRel}`);
+  }
+  const source = await pickSourceFile(candidate);
+  if (!source) {
+    const msg = pageLayout(`
+      <h1>File not found</h1>
+      <p>Could not find: <span class="path">${
+      escapeHtml(path.relative(app.root, candidate))
+    }</span></p>
+      <p>Also tried: <code>.example</code> and <code>.template</code> variants.</p>
+      <p><a href="/">Back</a></p>
+    `);
+    return new Response(msg, {
+      headers: { "content-type": "text/html; charset=utf-8" },
+      status: 404,
+    });
+  }
+
+  try {
+    const { data, text, format } = await readConfigFile(source);
+    const schema = await schemaFor(app.root, candidate, SCHEMA);
+    const options = format === "ka9q-ini"
+      ? optionLayout(parseIni(text))
+      : undefined;
+    return new Response(
+      editPage(fileRel, source, data, text, await versionOf(text), {
+        schema,
+        options,
+        sections: format === "ka9q-ini",
+        readOnly: !mayWrite(user, candidate),
+      }),
+      { headers: { "content-type": "text/html; charset=utf-8" } },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      "Failed to parse config: " + (e instanceof Error ? e.message : String(e)),
+      {
+        status: 400,
+      },
+    );
+  }
+}
+
+// What commitText did: the backup of the version it replaced and the
+// results of the file's post-save hooks, in the order they ran.
+interface Commit {
+  backup: Backup | null;
+  hooks: HookResult[];
+  restored: boolean; // a hook failed and the previous version is back
+  auditError: string | null; // why the change isn't in the audit log
+  ownerChange: string | null; // the ownership the file couldn't keep
+}
+
+// Write a new version of a file, backing up the one it replaces, then run
+// its post-save hooks. The first hook that fails stops the rest; if it has
+// restore_on_failure, the previous version (or no file, for a new one) is
+// put back and the hook runs once more so the daemon picks that up. Either
+// way the change goes in the audit log as `actor` doing `action`.
+async function commitText(
+  targetPath: string,
+  text: string,
+  actor: Actor,
+  action: AuditAction,
+  more: Partial<AuditEntry> = {},
+): Promise<Commit> {
+  const rel = path.relative(app.root, targetPath);
+  // read before writing, so a broken hooks file fails the save up front
+  const hooks = app.hooks
+    ? hooksFor(await loadHooks(app.hooks), app.root, targetPath)
+    : [];
+  const previous = await readTextOrNull(targetPath);
+  await Deno.mkdir(path.dirname(targetPath), { recursive: true });
+  const backup = await backupFile(app.root, rel, app.backups);
+  let ownerChange = await writeFileAtomic(targetPath, text);
+
+  const results: HookResult[] = [];
+  const vars = hookVariables(app.root, targetPath);
+  let restored = false;
+  for (const hook of hooks) {
+    const result = await runHook(hook, vars);
+    results.push(result);
+    if (result.ok) continue;
+    if (!hook.restoreOnFailure) break;
+    // the version that failed stays in the history
+    await backupFile(app.root, rel, app.backups);
+    if (previous === null) await Deno.remove(targetPath);
+    else ownerChange = await writeFileAtomic(targetPath, previous);
+    results.push({ ...await runHook(hook, vars), restore: true });
+    restored = true;
+    break;
+  }
+  const auditError = await recordAudit(actor, action, rel, previous, text, {
+    ...more,
+    backup: backup?.id ?? null,
+    ...(restored ? { restored } : {}),
+  });
+  return { backup, hooks: results, restored, auditError, ownerChange };
+}
+
+// What a save would do: the file it goes to and the exact text written there.
+interface SavePlan {
+  targetPath: string;
+  text: string;
+  preserved: boolean;
+}
+
+// The save pipeline short of writing, shared by /save and /dry-run. Returns
+// the error response instead when the request can't be saved.
+async function planSave(
+  payload: { [k: string]: unknown },
+  user: User,
+): Promise<SavePlan | Response> {
+  const fileRel = stringField(payload.fileRel);
+  const sourcePathRel = stringField(payload.sourcePath); // relative to root
+  const mode = payload.mode === "overwrite" || payload.mode === "saveAs"
+    ? payload.mode
+    : undefined;
+  const saveAs = stringField(payload.saveAs);
+  // parsed from JSON, so Json; the schema and the writers check the rest
+  const data = (payload.data ?? null) as Json;
+  const preserve = !!payload.preserve;
+  const originalText = stringField(payload.originalText);
+  // lines switched on/off with the form's option checkboxes (ka9q INI)
+  const toggles = Array.isArray(payload.toggles)
+    ? payload.toggles as IniToggle[]
+    : [];
+  // section actions taken on the form, in order (ka9q INI)
+  const sections = Array.isArray(payload.sections)
+    ? payload.sections as IniSectionEdit[]
+    : [];
+
+  if (!fileRel || !sourcePathRel || !mode) {
+    return new Response(
+      JSON.stringify({ error: "Missing required fields" }),
+      { status: 400, headers: jsonHeaders() },
+    );
+  }
+
+  let sourcePath: string;
+  let defaultTarget: string;
+  try {
+    sourcePath = ensureInsideRoot(path.join(app.root, sourcePathRel), app.root);
+    defaultTarget = ensureInsideRoot(path.join(app.root, fileRel), app.root);
+  } catch (e) {
+    return forbidden(e instanceof Error ? e.message : String(e), true);
+  }
+
+  let targetPath: string;
+  if (mode === "overwrite") {
+    targetPath = (await fileExists(defaultTarget)) ? defaultTarget : sourcePath;
+  } else {
+    if (!saveAs) {
+      return new Response(JSON.stringify({ error: "Missing saveAs name" }), {
+        status: 400,
+        headers: jsonHeaders(),
+      });
+    }
+    try {
+      targetPath = ensureInsideRoot(path.join(app.root, saveAs), app.root);
+    } catch (e) {
+      return forbidden(e instanceof Error ? e.message : String(e), true);
+    }
+    // Save As never replaces an existing file unless asked to explicitly.
+    if (!payload.overwrite && await fileExists(targetPath)) {
+      return new Response(
+        JSON.stringify({
+          error: `${path.relative(app.root, targetPath)} already exists`,
+          exists: true,
+        }),
+        { status: 409, headers: jsonHeaders() },
+      );
+    }
+  }
+
+  if (!mayRead(user, sourcePath) || !mayWrite(user, targetPath)) {
+    return forbidden(
+      `You may not change ${path.relative(app.root, targetPath)}`,
+      true,
+    );
+  }
+  const linked = await linkedOutside(targetPath);
+  if (linked) return forbidden(linked, true);
+
+  // The edit page's version token names the text it was loaded from. If the
+  // file has changed since, the save would silently undo those changes:
+  // refuse it with what changed, unless the client forces the overwrite.
+  // Without a version there is nothing to compare, so it must force.
+  const version = stringField(payload.version);
+  if (mode === "overwrite" && !payload.force) {
+    if (version === undefined) {
+      return new Response(
+        JSON.stringify({
+          error:
+            'Missing version: send the one the file was loaded with, or "force": true',
+        }),
+        { status: 400, headers: jsonHeaders() },
+      );
+    }
+    const diskText = await readTextOrNull(targetPath);
+    const diskVersion = await versionOf(diskText);
+    if (diskVersion !== version) {
+      const format = detectFormat(sourcePath, diskText ?? originalText ?? "");
+      // a file that no longer parses can't be compared key by key: the
+      // conflict then has only the diff, and overwriting is the way out
+      let theirs: Json | null = null;
+      let keys: KeyChange[] = [];
+      let parseError: string | null = null;
+      try {
+        theirs = parseConfigText(format, diskText ?? "");
+        const base = originalText === undefined
+          ? theirs
+          : parseConfigText(format, originalText);
+        keys = keyChanges(base, data, theirs);
+      } catch (e) {
+        parseError = e instanceof Error ? e.message : String(e);
+      }
+      return new Response(
+        JSON.stringify({
+          error: `${
+            path.relative(app.root, targetPath)
+          } has changed on disk since it was loaded`,
+          conflict: {
+            version: diskVersion,
+            text: diskText ?? "",
+            data: theirs,
+            diff: unifiedDiff(
+              originalText ?? "",
+              diskText ?? "",
+              "loaded",
+              "on disk",
+            ),
+            keys,
+            parseError,
+          },
+        }),
+        { status: 409, headers: jsonHeaders() },
+      );
+    }
+  }
+
+  // Rules follow the name being saved, not a .example/.template source.
+  const schema = await schemaFor(
+    app.root,
+    mode === "overwrite" ? defaultTarget : targetPath,
+    SCHEMA,
+  );
+  const errors = validate(data, schema);
+  if (errors.length) {
+    return new Response(
+      JSON.stringify({ error: "Validation failed", errors }),
+      { status: 422, headers: jsonHeaders() },
+    );
+  }
+
+  const sourceText = originalText ?? await Deno.readTextFile(sourcePath);
+  try {
+    const { text, preserved } = renderConfigText(
+      detectFormat(sourcePath, sourceText),
+      data,
+      preserve ? originalText : undefined,
+      toggles,
+      sections,
+    );
+    return { targetPath, text, preserved };
+  } catch (e) {
+    // something the format can't hold, such as a line break in a value
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      { status: 400, headers: jsonHeaders() },
+    );
+  }
+}
+
+async function handleSave(req: Request): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const plan = await planSave(await jsonFields(req), user);
+    if (plan instanceof Response) return plan;
+    const { targetPath, text: outText, preserved } = plan;
+
+    const { backup, hooks, restored, auditError, ownerChange } =
+      await commitText(
+        targetPath,
+        outText,
+        actorOf(req, user),
+        "save",
+      );
+
+    return new Response(
+      JSON.stringify({
+        ok: !restored,
+        savedTo: path.relative(app.root, targetPath),
+        preserved,
+        backup: backup?.id ?? null,
+        version: await versionOf(
+          restored ? await readTextOrNull(targetPath) : outText,
+        ),
+        hooks,
+        restored,
+        auditError,
+        ownerChange,
+      }),
+      {
+        headers: jsonHeaders(),
+      },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: jsonHeaders(),
+      },
+    );
+  }
+}
+
+// Same request as /save; nothing is written. Returns the text /save would
+// write and its unified diff against the file currently on disk.
+async function handleDryRun(req: Request): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const plan = await planSave(await jsonFields(req), user);
+    if (plan instanceof Response) return plan;
+    const target = path.relative(app.root, plan.targetPath);
+    const current = await readTextOrNull(plan.targetPath);
+    return new Response(
+      JSON.stringify({
+        ok: true,
+        target,
+        exists: current !== null,
+        preserved: plan.preserved,
+        text: plan.text,
+        diff: unifiedDiff(current ?? "", plan.text, target, target),
+      }),
+      { headers: jsonHeaders() },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: jsonHeaders(),
+      },
+    );
+  }
+}
+
+// Read every config under --root that `user` may see, except the
+// .example/.template stand-ins that nothing runs, and match up the streams
+// they name.
+async function checkRoot(user: User): Promise<StreamCheck> {
+  const refs: StreamRef[] = [];
+  const errors: StreamCheck["errors"] = [];
+  let files = 0;
+  for (const f of await visibleFiles(user)) {
+    if (!f.rel.endsWith(".conf")) continue;
+    files++;
+    try {
+      const { data } = await readConfigFile(path.join(app.root, f.rel));
+      refs.push(...streamRefs(f.rel, data));
+    } catch (e) {
+      errors.push({
+        file: f.rel,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+  return { files, errors, ...checkStreams(refs) };
+}
+
+async function handleCheck(req: Request): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  return new Response(checkPage(await checkRoot(user)), {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+// The frequency plan of every radiod config under --root, zoomed to
+// ?from=&to= (Hz or ka9q notation) when given.
+async function handlePlan(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const range = ["from", "to"].map((k) => url.searchParams.get(k));
+  const [from, to] = range.map((v) => v === null ? null : parseFrequency(v));
+  if (
+    (range[0] !== null && from === null) || (range[1] !== null && to === null)
+  ) {
+    return new Response("Invalid from/to frequency", { status: 400 });
+  }
+
+  const receivers: Receiver[] = [];
+  const issues: PlanIssue[] = [];
+  const errors: { file: string; message: string }[] = [];
+  for (const f of await visibleFiles(user)) {
+    if (!isRadiodConfig(f.rel)) continue;
+    try {
+      const { data } = await readConfigFile(path.join(app.root, f.rel));
+      const receiver = receiverPlan(f.rel, data);
+      receivers.push(receiver);
+      issues.push(...planIssues(receiver));
+    } catch (e) {
+      errors.push({
+        file: f.rel,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+
+  // full range: every channel and coverage, with some room around them
+  const edges = receivers.flatMap((r) => [
+    ...r.channels.flatMap((c) => [c.hz + c.low, c.hz + c.high]),
+    ...(r.coverage ? [r.coverage.low, r.coverage.high] : []),
+  ]).filter((hz) => hz > 0);
+  const lo = edges.length ? Math.min(...edges) / 1.2 : 1e3;
+  const hi = edges.length ? Math.max(...edges) * 1.2 : 2e9;
+  const scale = planScale(from ?? lo, to ?? hi);
+  return new Response(
+    planPage(receivers, issues, errors, scale, from !== null || to !== null),
+    { headers: { "content-type": "text/html; charset=utf-8" } },
+  );
+}
+
+// The query a /search or /api/v1/search URL asks for, or why it can't be
+// run: ?q=text&mode=substring|exact|regex&in=key&in=value&family=radiod@
+// &case=1. Without ?in= every field is searched.
+function searchQueryOf(url: URL, user: User): SearchQuery | string {
+  const p = url.searchParams;
+  const mode = (p.get("mode") ?? "substring") as SearchMode;
+  if (!SEARCH_MODES.includes(mode)) return `Unknown search mode: ${mode}`;
+  if (!searchModes(user).includes(mode)) {
+    return "Only admins can search by regular expression";
+  }
+  const fields = p.getAll("in") as SearchField[];
+  const unknown = fields.find((f) => !SEARCH_FIELDS.includes(f));
+  if (unknown) return `Unknown field: ${unknown}`;
+  const q: SearchQuery = {
+    text: p.get("q") ?? "",
+    mode,
+    fields: fields.length ? fields : SEARCH_FIELDS,
+    matchCase: p.get("case") === "1",
+    families: p.getAll("family"),
+  };
+  if (!q.text) return "Missing ?q=...";
+  try {
+    searchMatcher(q);
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+  return q;
+}
+
+// Search every config under --root that `user` may see, in path order, up
+// to SEARCH_LIMIT hits or for SEARCH_TIME.
+async function searchRoot(q: SearchQuery, user: User): Promise<SearchResult> {
+  const files: SearchFile[] = [];
+  const unread: SearchResult["errors"] = [];
+  for (const f of await visibleFiles(user)) {
+    const family = fileFamily(f.rel);
+    if (q.families.length && !(family && q.families.includes(family))) {
+      continue;
+    }
+    const full = path.join(app.root, f.rel);
+    try {
+      const text = await Deno.readTextFile(full);
+      files.push({ file: f.rel, format: detectFormat(full, text), text });
+    } catch (e) {
+      unread.push({
+        file: f.rel,
+        message: e instanceof Error ? e.message : String(e),
+      });
+    }
+  }
+  const run = await searchFiles(files, q, SEARCH_TIME, SEARCH_LIMIT);
+  return {
+    files: files.length + unread.length,
+    ...run,
+    errors: [...unread, ...run.errors],
+  };
+}
+
+async function handleSearch(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const families = [
+    ...new Set(
+      (await visibleFiles(user)).flatMap((f) => fileFamily(f.rel) ?? []),
+    ),
+  ].sort();
+  const modes = searchModes(user);
+  let page: string;
+  if (!url.searchParams.has("q")) {
+    page = searchPage(null, modes, families, null, null);
+  } else {
+    const q = searchQueryOf(url, user);
+    page = typeof q === "string"
+      ? searchPage(null, modes, families, null, q)
+      : searchPage(q, modes, families, await searchRoot(q, user), null);
+  }
+  return new Response(page, {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+async function handleNewPage(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const templates = (await visibleFiles(user))
+    .map((f) => f.rel)
+    .filter(isTemplateFile);
+  const rel = url.searchParams.get("template");
+  let chosen = null;
+  if (rel) {
+    if (!templates.includes(rel)) {
+      return new Response("Not a template: " + rel, { status: 404 });
+    }
+    try {
+      const text = await Deno.readTextFile(path.join(app.root, rel));
+      chosen = { rel, template: parseTemplate(text) };
+    } catch (e) {
+      chosen = { rel, error: e instanceof Error ? e.message : String(e) };
+    }
+  }
+  return new Response(newPage(templates, chosen), {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
+}
+
+// What the wizard would create from a request's answers.
+interface NewPlan {
+  targetPath: string;
+  text: string;
+  exists: boolean;
+  errors: Record<string, string>; // by variable, including "instance"
+  validation: ValidationError[]; // of the result against its schema
+}
+
+// Shared by /new/preview and /new. Returns the error response instead when
+// the request itself is broken.
+async function planNew(
+  payload: { [k: string]: unknown },
+  user: User,
+): Promise<NewPlan | Response> {
+  const rel = stringField(payload.template);
+  if (!rel || !isTemplateFile(rel)) {
+    return new Response(
+      JSON.stringify({ error: "Missing or invalid template" }),
+      { status: 400, headers: jsonHeaders() },
+    );
+  }
+  let templatePath: string;
+  try {
+    templatePath = ensureInsideRoot(path.join(app.root, rel), app.root);
+  } catch (e) {
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      { status: 400, headers: jsonHeaders() },
+    );
+  }
+  if (!mayRead(user, templatePath)) {
+    return forbidden(`You may not read ${rel}`, true);
+  }
+  let template: Template;
+  try {
+    template = parseTemplate(await Deno.readTextFile(templatePath));
+  } catch (e) {
+    return new Response(
+      JSON.stringify({
+        error: `${rel}: ${e instanceof Error ? e.message : e}`,
+      }),
+      { status: 422, headers: jsonHeaders() },
+    );
+  }
+  const instance = String(payload.instance ?? "").trim();
+  const given: Record<string, string> = {};
+  const answers = payload.values;
+  if (answers && typeof answers === "object" && !Array.isArray(answers)) {
+    for (const [k, v] of Object.entries(answers)) given[k] = String(v);
+  }
+  const { values, errors } = resolveValues(template, given, instance);
+  const instanceError = checkInstance(instance);
+  if (instanceError) errors.instance = instanceError;
+  const targetPath = ensureInsideRoot(
+    templateTarget(templatePath, instanceError ? "instance" : instance),
+    app.root,
+  );
+  const linked = await linkedOutside(targetPath);
+  if (linked) return forbidden(linked, true);
+  const text = renderTemplate(template, values);
+  let validation: ValidationError[];
+  try {
+    validation = validate(
+      parseConfigText(detectFormat(targetPath, text), text),
+      await schemaFor(app.root, targetPath, SCHEMA),
+    );
+  } catch (e) {
+    validation = [{
+      path: "",
+      keys: [],
+      message: `Doesn't parse: ${e instanceof Error ? e.message : e}`,
+      rule: "parse",
+    }];
+  }
+  return {
+    targetPath,
+    text,
+    exists: await fileExists(targetPath),
+    errors,
+    validation,
+  };
+}
+
+async function handleNew(req: Request, dryRun: boolean): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const plan = await planNew(await jsonFields(req), user);
+    if (plan instanceof Response) return plan;
+    const { targetPath, text, exists, errors, validation } = plan;
+    const preview = {
+      target: path.relative(app.root, targetPath),
+      exists,
+      text,
+      errors,
+      validation,
+    };
+    if (dryRun) {
+      return new Response(JSON.stringify(preview), { headers: jsonHeaders() });
+    }
+    if (Object.keys(errors).length || validation.length) {
+      return new Response(
+        JSON.stringify({ error: "Validation failed", ...preview }),
+        { status: 422, headers: jsonHeaders() },
+      );
+    }
+    if (!mayWrite(user, targetPath)) {
+      return forbidden(`You may not create ${preview.target}`, true);
+    }
+    if (exists) {
+      return new Response(
+        JSON.stringify({
+          error: `${preview.target} already exists`,
+          ...preview,
+        }),
+        { status: 409, headers: jsonHeaders() },
+      );
+    }
+    const { hooks, restored, auditError, ownerChange } = await commitText(
+      targetPath,
+      text,
+      actorOf(req, user),
+      "new",
+    );
+    return new Response(
+      JSON.stringify({
+        ok: !restored,
+        savedTo: preview.target,
+        preserved: true,
+        version: restored ? "" : await versionOf(text),
+        hooks,
+        restored,
+        auditError,
+        ownerChange,
+      }),
+      { status: 201, headers: jsonHeaders() },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: jsonHeaders(),
+      },
+    );
+  }
+}
+
+// Every config under --root or upstream that `user` may see, and whether
+// the two copies match.
+async function compareUpstream(user: User): Promise<UpstreamFile[]> {
+  const local = (await collectConfFiles(app.root)).map((f) => f.rel);
+  const upstream = (await collectConfFiles(app.upstream!)).map((f) => f.rel);
+  const out: UpstreamFile[] = [];
+  for (const rel of new Set([...local, ...upstream])) {
+    if (accessTo(user, rel) === "none") continue;
+    let status: UpstreamFile["status"];
+    if (!upstream.includes(rel)) status = "local";
+    else if (!local.includes(rel)) status = "upstream";
+    else {
+      const [a, b] = await Promise.all([
+        Deno.readTextFile(path.join(app.root, rel)),
+        Deno.readTextFile(path.join(app.upstream!, rel)),
+      ]);
+      status = a === b ? "same" : "differs";
+    }
+    out.push({ rel, status });
+  }
+  return out.sort((a, b) => a.rel.localeCompare(b.rel));
+}
+
+// What merging upstream's copy into a local file gives.
+interface MergePlan {
+  targetPath: string;
+  localText: string;
+  upstreamText: string;
+  text: string;
+  data: Json;
+  keys: MergedKey[];
+}
+
+// The base a merge page names: "upstream" for the copy last merged,
+// "none", or the id of one of the file's backups.
+async function mergeBaseText(rel: string, base: string) {
+  if (base === "none") return null;
+  if (base === "upstream") return await readMergeBase(app.root, rel);
+  return await readBackup(app.root, rel, base);
+}
+
+// Shared by the merge page, /merge/preview and /merge. Returns the error
+// response instead when there is nothing to merge.
+async function planMerge(
+  fileRel: string | null,
+  base: string,
+  picks: Record<string, MergeSide>,
+): Promise<MergePlan | Response> {
+  if (!app.upstream) {
+    return new Response(
+      JSON.stringify({ error: "Start the server with --upstream=DIR" }),
+      { status: 404, headers: jsonHeaders() },
+    );
+  }
+  if (
+    !fileRel || !(base === "none" || base === "upstream" || isBackupId(base))
+  ) {
+    return new Response(
+      JSON.stringify({ error: "Missing or invalid file/base" }),
+      { status: 400, headers: jsonHeaders() },
+    );
+  }
+  let targetPath: string;
+  try {
+    targetPath = ensureInsideRoot(path.join(app.root, fileRel), app.root);
+  } catch (e) {
+    return forbidden(e instanceof Error ? e.message : String(e), true);
+  }
+  const rel = path.relative(app.root, targetPath);
+  const upstreamPath = ensureInsideRoot(
+    path.join(app.upstream, rel),
+    app.upstream,
+  );
+  const localText = await readTextOrNull(targetPath);
+  const upstreamText = await readTextOrNull(upstreamPath);
+  if (localText === null || upstreamText === null) {
+    return new Response(
+      JSON.stringify({
+        error: `${rel} doesn't exist ${
+          localText === null ? "locally" : "upstream"
+        }`,
+      }),
+      { status: 404, headers: jsonHeaders() },
+    );
+  }
+  const merged = mergeConfigText(
+    targetPath,
+    localText,
+    upstreamText,
+    await mergeBaseText(rel, base),
+    picks,
+  );
+  return { targetPath, localText, upstreamText, ...merged };
+}
+
+function mergePicks(picks: unknown): Record<string, MergeSide> {
+  const out: Record<string, MergeSide> = {};
+  if (!picks || typeof picks !== "object" || Array.isArray(picks)) return out;
+  for (const [k, v] of Object.entries(picks)) {
+    if (v === "ours" || v === "theirs") out[k] = v;
+  }
+  return out;
 }
 
-function valueToTomlScalar(v: Json): string | null {
-  if (v === null) return "null"; // Not standard TOML; would typically be omitted or empty. We keep "null" to avoid parse errors in patch; fallback will stringify properly.
-  if (typeof v === "boolean") return v ? "true" : "false";
-  if (typeof v === "number") return Number.isFinite(v) ? String(v) : "0";
-  if (typeof v === "string") return quoteTomlString(v);
-  return null;
+async function handleMergePage(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  if (!app.upstream) {
+    return new Response("Start the server with --upstream=DIR", {
+      status: 404,
+    });
+  }
+  const fileRel = url.searchParams.get("file");
+  if (!fileRel) {
+    return new Response(mergeListPage(await compareUpstream(user)), {
+      headers: { "content-type": "text/html; charset=utf-8" },
+    });
+  }
+  let rel: string;
+  try {
+    rel = path.relative(
+      app.root,
+      ensureInsideRoot(path.join(app.root, fileRel), app.root),
+    );
+  } catch (e) {
+    return forbidden(e instanceof Error ? e.message : String(e));
+  }
+  if (accessTo(user, rel) === "none") {
+    return forbidden(`You may not read ${rel}`);
+  }
+  const merged = await readMergeBase(app.root, rel) !== null;
+  const bases = [
+    ...(merged ? [{ id: "upstream", label: "Upstream as last merged" }] : []),
+    { id: "none", label: "None" },
+    ...(await listBackups(app.root, rel)).map((b) => ({
+      id: b.id,
+      label: `Backup of ${formatTime(b.time)}`,
+    })),
+  ];
+  const base = url.searchParams.get("base") ?? bases[0].id;
+  const plan = await planMerge(rel, base, {});
+  if (plan instanceof Response) {
+    return new Response((await plan.json()).error, { status: plan.status });
+  }
+  return new Response(
+    mergePage(rel, bases, base, {
+      keys: plan.keys,
+      diff: unifiedDiff(plan.localText, plan.text, rel, rel),
+      version: await versionOf(plan.localText),
+    }),
+    { headers: { "content-type": "text/html; charset=utf-8" } },
+  );
 }
 
-function patchScalarInSection(
-  text: string,
-  sectionPath: string[],
-  key: string,
-  newValToml: string,
-): { text: string; patched: boolean } {
-  // Find section header [a.b] (or root if sectionPath.length===0), then replace "key = old" in that section.
-  const lines = text.split(/\r?\n/);
-  let inSection = sectionPath.length === 0;
-  const sectionHeaderRe = /^\s*\[([^\]]+)\]\s*$/;
-  const targetHeader = sectionPath.join(".");
-  let patched = false;
-
-  for (let i = 0; i < lines.length; i++) {
-    const m = lines[i].match(sectionHeaderRe);
-    if (m) {
-      const hdr = m[1].trim();
-      inSection = hdr === targetHeader;
-      continue;
+// POST /merge/preview previews the merge with the given picks; POST /merge
+// writes it, unless the local file changed since the page was loaded, and
+// keeps the upstream copy as the base of the next merge.
+async function handleMerge(req: Request, dryRun: boolean): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const payload = await jsonFields(req);
+    const base = String(payload.base ?? "none");
+    const plan = await planMerge(
+      stringField(payload.file) ?? null,
+      base,
+      mergePicks(payload.picks),
+    );
+    if (plan instanceof Response) return plan;
+    const rel = path.relative(app.root, plan.targetPath);
+    if (!(dryRun ? mayRead : mayWrite)(user, plan.targetPath)) {
+      return forbidden(`You may not change ${rel}`, true);
+    }
+    const linked = dryRun ? null : await linkedOutside(plan.targetPath);
+    if (linked) return forbidden(linked, true);
+    const diff = unifiedDiff(plan.localText, plan.text, rel, rel);
+    if (dryRun) {
+      return new Response(
+        JSON.stringify({ ok: true, target: rel, text: plan.text, diff }),
+        { headers: jsonHeaders() },
+      );
     }
-    if (!inSection) continue;
-    // Within the section (or root), find key = ...
-    // Allow spaces, inline comments, and different quoting
-    const keyRe = new RegExp(
-      `^(\\s*)(${
-        key.replace(/[.*+?^${}()|[\\]\\\\]/g, "\\$&")
-      })\\s*=\\s*([^#]*)(\\s*(#.*)?)$`,
+    if (await versionOf(plan.localText) !== payload.version) {
+      return new Response(
+        JSON.stringify({
+          error:
+            `${rel} has changed on disk since the merge was shown; reload the page`,
+        }),
+        { status: 409, headers: jsonHeaders() },
+      );
+    }
+    const errors = validate(
+      plan.data,
+      await schemaFor(app.root, plan.targetPath, SCHEMA),
     );
-    const km = lines[i].match(keyRe);
-    if (km) {
-      const indent = km[1] ?? "";
-      const tailComment = km[4] ?? "";
-      lines[i] = `${indent}${key} = ${newValToml}${tailComment}`;
-      patched = true;
-      break;
+    if (errors.length) {
+      return new Response(
+        JSON.stringify({ error: "Validation failed", errors }),
+        { status: 422, headers: jsonHeaders() },
+      );
     }
-    // If we hit the next section header, stop searching
-    if (lines[i].match(sectionHeaderRe)) break;
+    const { backup, hooks, restored, auditError, ownerChange } =
+      await commitText(
+        plan.targetPath,
+        plan.text,
+        actorOf(req, user),
+        "merge",
+      );
+    if (!restored) await writeMergeBase(app.root, rel, plan.upstreamText);
+    return new Response(
+      JSON.stringify({
+        ok: !restored,
+        savedTo: rel,
+        preserved: true,
+        backup: backup?.id ?? null,
+        version: await versionOf(
+          restored ? await readTextOrNull(plan.targetPath) : plan.text,
+        ),
+        hooks,
+        restored,
+        auditError,
+        ownerChange,
+      }),
+      { headers: jsonHeaders() },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: 500,
+        headers: jsonHeaders(),
+      },
+    );
   }
-
-  return { text: lines.join("\n"), patched };
 }
 
-function walkPatch(
-  text: string,
-  oldObj: any,
-  newObj: any,
-  pathAcc: string[] = [],
-): { text: string; patchedAny: boolean } {
-  let patchedAny = false;
-
-  // For nested objects, descend into sections. For scalars at any depth, try to patch in place.
-  const keys = new Set<string>([
-    ...Object.keys(oldObj || {}),
-    ...Object.keys(newObj || {}),
-  ]);
-  let outText = text;
-
-  for (const k of keys)
-  {
-    const oldVal = oldObj ? oldObj[k] : undefined;
-    const newVal = newObj ? newObj[k] : undefined;
-
-    // Only attempt scalars; arrays/objects fallback to full stringify
-    const newScalar = valueToTomlScalar(newVal as Json);
-    const oldScalar = valueToTomlScalar(oldVal as Json);
-
-    if (newScalar !== null && oldScalar !== null) {
-      // scalar → scalar
-      const sectionPath = pathAcc; // tables correspond to pathAcc
-      const res = patchScalarInSection(outText, sectionPath, k, newScalar);
-      outText = res.text;
-      patchedAny = patchedAny || res.patched;
-    } else if (
-      newVal && typeof newVal === "object" && !Array.isArray(newVal) &&
-      oldVal && typeof oldVal === "object" && !Array.isArray(oldVal)
-    ) {
-      // both objects → descend
-      const res = walkPatch(outText, oldVal, newVal, [...pathAcc, k]);
-      outText = res.text;
-      patchedAny = patchedAny || res.patchedAny;
-    } else {
-      // Anything else (added/removed keys, arrays, complex) → skip here; caller may fallback
+async function handleHistory(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  const fileRel = url.searchParams.get("file");
+  if (!fileRel) return new Response("Missing ?file=...", { status: 400 });
+  let target: string;
+  try {
+    target = ensureInsideRoot(path.join(app.root, fileRel), app.root);
+  } catch (e) {
+    return forbidden(e instanceof Error ? e.message : String(e));
+  }
+  const rel = path.relative(app.root, target);
+  if (!mayRead(user, target)) return forbidden(`You may not read ${rel}`);
+
+  let current: { size: number; mtime: Date | null } | null = null;
+  try {
+    const st = await Deno.stat(target);
+    if (!st.isFile) {
+      return new Response(`Not a file: ${rel || "."}`, { status: 400 });
     }
+    current = { size: st.size, mtime: st.mtime };
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e;
+  }
+  const backups = await listBackups(app.root, rel);
+  if (!current && !backups.length) {
+    return new Response("No such file and no backups: " + rel, {
+      status: 404,
+    });
   }
 
-  return { text: outText, patchedAny };
+  // default: the newest backup against the current file
+  const versions = [
+    ...(current ? ["current"] : []),
+    ...backups.map((b) => b.id),
+  ];
+  const pick = {
+    a: url.searchParams.get("a") ?? backups[0]?.id ?? "",
+    b: url.searchParams.get("b") ?? (current ? "current" : ""),
+  };
+  for (const id of [pick.a, pick.b]) {
+    if (id && !versions.includes(id)) {
+      return new Response("Unknown version: " + id, { status: 400 });
+    }
+  }
+  const textOf = (id: string) =>
+    id === "current"
+      ? Deno.readTextFile(target)
+      : readBackup(app.root, rel, id);
+  const diff = pick.a && pick.b
+    ? unifiedDiff(await textOf(pick.a), await textOf(pick.b), pick.a, pick.b)
+    : "";
+  return new Response(historyPage(rel, current, backups, pick, diff), {
+    headers: { "content-type": "text/html; charset=utf-8" },
+  });
 }
 
-// ---------------- HTTP handlers ----------------
-
-function jsonHeaders() {
-  return { "content-type": "application/json; charset=utf-8" };
+// Put a backup back in place; the version it replaces is backed up first.
+async function handleRestore(req: Request): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  try {
+    const payload = await jsonFields(req);
+    const fileRel = stringField(payload.file);
+    const id = stringField(payload.id);
+    if (!fileRel || !id || !isBackupId(id)) {
+      return new Response(
+        JSON.stringify({ error: "Missing or invalid file/id" }),
+        { status: 400, headers: jsonHeaders() },
+      );
+    }
+    let target: string;
+    try {
+      target = ensureInsideRoot(path.join(app.root, fileRel), app.root);
+    } catch (e) {
+      return forbidden(e instanceof Error ? e.message : String(e), true);
+    }
+    const rel = path.relative(app.root, target);
+    if (!mayWrite(user, target)) {
+      return forbidden(`You may not change ${rel}`, true);
+    }
+    const linked = await linkedOutside(target);
+    if (linked) return forbidden(linked, true);
+    const text = await readBackup(app.root, rel, id);
+    const { backup, hooks, restored, auditError, ownerChange } =
+      await commitText(
+        target,
+        text,
+        actorOf(req, user),
+        "restore",
+        { version: id },
+      );
+    return new Response(
+      JSON.stringify({
+        ok: !restored,
+        restored: id,
+        backup: backup?.id ?? null,
+        hooks,
+        rolledBack: restored,
+        auditError,
+        ownerChange,
+      }),
+      { headers: jsonHeaders() },
+    );
+  } catch (e) {
+    console.error(e);
+    return new Response(
+      JSON.stringify({ error: e instanceof Error ? e.message : String(e) }),
+      {
+        status: e instanceof Deno.errors.NotFound ? 404 : 500,
+        headers: jsonHeaders(),
+      },
+    );
+  }
 }
 
-async function handleIndex(req: Request): Promise<Response> {
-  if (!checkAuth(req)) return unauthorized();
-  return new Response(indexPage(), {
-    headers: { "content-type": "text/html; charset=utf-8" },
-  });
+// The filter an /audit or /api/v1/audit URL asks for, or why it can't be
+// used: ?user=&action=&file=&key=&from=&to=, where from and to are dates
+// (UTC, both days included) or full ISO times.
+function auditFilterOf(url: URL): AuditFilter | string {
+  const p = url.searchParams;
+  const filter: AuditFilter = {};
+  for (const k of ["user", "file", "key"] as const) {
+    const v = p.get(k);
+    if (v) filter[k] = v;
+  }
+  const action = p.get("action");
+  if (action) {
+    if (!AUDIT_ACTIONS.includes(action as AuditAction)) {
+      return `Unknown action: ${action}`;
+    }
+    filter.action = action as AuditAction;
+  }
+  for (const k of ["from", "to"] as const) {
+    const v = p.get(k);
+    if (!v) continue;
+    const time = /^\d{4}-\d{2}-\d{2}$/.test(v)
+      ? `${v}T${k === "from" ? "00:00:00.000" : "23:59:59.999"}Z`
+      : v;
+    const date = new Date(time);
+    if (isNaN(date.getTime())) return `Invalid ${k}: ${v}`;
+    filter[k] = date;
+  }
+  return filter;
 }
 
-async function collectConfFiles(
-  root: string,
-): Promise<Array<{ rel: string; size: number }>> {
-  const out: Array<{ rel: string; size: number }> = [];
-  for await (const entry of Deno.readDir(root)) {
-    // recursive helper
-  }
-  async function walk(dir: string) {
-    for await (const e of Deno.readDir(dir)) {
-      const p = path.join(dir, e.name);
-      if (e.isDirectory) {
-        await walk(p);
-      } else if (e.isFile) {
-        const rel = path.relative(root, p);
-        if (
-          rel.endsWith(".conf") || rel.endsWith(".conf.example") ||
-          rel.endsWith(".conf.template")
-        ) {
-          const st = await Deno.stat(p);
-          out.push({ rel, size: st.size });
-        }
-      }
-    }
+// GET /audit shows the log; ?format=csv or ?format=jsonl downloads the
+// entries that match. The log shows every file's values, so it's for
+// admins only.
+async function handleAudit(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return unauthorized();
+  if (user.role !== "admin") {
+    return forbidden("Only an admin may read the audit log");
   }
-  await walk(root);
-  out.sort((a, b) => a.rel.localeCompare(b.rel));
-  return out;
+  const filter = auditFilterOf(url);
+  const { entries: all, damaged } = await readAudit(app.audit);
+  const entries = typeof filter === "string"
+    ? []
+    : all.filter((e) => auditMatches(e, filter));
+  const format = url.searchParams.get("format");
+  if (format && typeof filter === "string") {
+    return new Response(filter, { status: 400 });
+  }
+  if (format === "csv" || format === "jsonl") {
+    // oldest first, as in the log itself
+    entries.reverse();
+    const text = format === "csv"
+      ? auditCsv(entries)
+      : entries.map((e) => JSON.stringify(e) + "\n").join("");
+    return new Response(text, {
+      headers: {
+        "content-type": format === "csv"
+          ? "text/csv; charset=utf-8"
+          : "application/jsonl; charset=utf-8",
+        "content-disposition": `attachment; filename="audit.${format}"`,
+      },
+    });
+  }
+  if (format) return new Response(`Unknown format: ${format}`, { status: 400 });
+  const users = [...new Set(all.map((e) => e.user))].sort();
+  return new Response(
+    auditPage(
+      url,
+      users,
+      entries,
+      damaged,
+      typeof filter === "string" ? filter : null,
+    ),
+    { headers: { "content-type": "text/html; charset=utf-8" } },
+  );
 }
 
-async function handleBrowse(req: Request): Promise<Response> {
-  if (!checkAuth(req)) return unauthorized();
-  const list = await collectConfFiles(app.root);
-  return new Response(browsePage(list), {
-    headers: { "content-type": "text/html; charset=utf-8" },
+// ---------------- JSON API ----------------
+// /api/v1 for scripts: the same sandbox, auth, schema checks, backups and
+// atomic writes as the pages. Every error is answered as
+// { "error": { "code": "...", "message": "...", ...details } }.
+
+const API = "/api/v1";
+
+function apiJson(
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {},
+): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...jsonHeaders(), ...headers },
   });
 }
 
-async function handleEdit(req: Request, url: URL): Promise<Response> {
-  if (!checkAuth(req)) return unauthorized();
-  const fileRel = url.searchParams.get("file");
-  if (!fileRel) return new Response("Missing ?file=...", { status: 400 });
+function apiError(
+  status: number,
+  code: string,
+  message: string,
+  details: Record<string, unknown> = {},
+): Response {
+  return apiJson(
+    { error: { code, message, ...details } },
+    status,
+    status === 401 ? { "www-authenticate": 'Basic realm="Config Editor"' } : {},
+  );
+}
 
-  const candidate = ensureInsideRoot(path.join(app.root, fileRel), app.root);
-  const source = await pickSourceFile(candidate);
-  if (!source) {
-    const msg = pageLayout(`
-      <h1>File not found</h1>
-      <p>Could not find: <span class="path">${
-      escapeHtml(path.relative(app.root, candidate))
-    }</span></p>
-      <p>Also tried: <code>.example</code> and <code>.template</code> variants.</p>
-      <p><a href="/">Back</a></p>
-    `);
-    return new Response(msg, {
-      headers: { "content-type": "text/html; charset=utf-8" },
-      status: 404,
-    });
+// The file a /files/<path> request names, or the error response when it is
+// outside the root, is to be written through a linked folder that leads
+// outside it, or `user` may not `use` it that way.
+async function apiTarget(
+  encoded: string,
+  user: User,
+  use: "read" | "write",
+): Promise<string | Response> {
+  let rel: string;
+  try {
+    rel = encoded.split("/").map(decodeURIComponent).join("/");
+  } catch {
+    return apiError(400, "bad_request", `Malformed path: ${encoded}`);
+  }
+  if (!rel) return apiError(400, "bad_request", "Missing file path");
+  let target: string;
+  try {
+    target = ensureInsideRoot(path.join(app.root, rel), app.root);
+  } catch (e) {
+    return apiError(
+      403,
+      "outside_root",
+      e instanceof Error ? e.message : String(e),
+    );
+  }
+  const linked = use === "write" ? await linkedOutside(target) : null;
+  if (linked) return apiError(403, "outside_root", linked);
+  if (!(use === "read" ? mayRead : mayWrite)(user, target)) {
+    return apiError(
+      403,
+      "forbidden",
+      `You may not ${use === "read" ? "read" : "change"} ${rel}`,
+    );
+  }
+  return target;
+}
+
+async function apiBody(
+  req: Request,
+): Promise<{ [k: string]: Json } | Response> {
+  let body: Json;
+  try {
+    body = await req.json();
+  } catch {
+    return apiError(400, "bad_request", "Request body must be JSON");
   }
+  if (body === null || typeof body !== "object" || Array.isArray(body)) {
+    return apiError(400, "bad_request", "Request body must be a JSON object");
+  }
+  return body;
+}
 
+function apiKey(url: URL): KeyPath | null | Response {
+  const key = url.searchParams.get("key");
+  if (key === null) return null;
   try {
-    const { data, text } = await readTomlFile(source);
-    return new Response(
-      editPage(fileRel, source, data, text),
-      { headers: { "content-type": "text/html; charset=utf-8" } },
+    return parseKeyPath(key);
+  } catch (e) {
+    return apiError(
+      400,
+      "bad_request",
+      e instanceof Error ? e.message : String(e),
     );
-  } catch (e: any) {
-    console.error(e);
-    return new Response("Failed to parse TOML: " + e.message, { status: 400 });
   }
 }
 
-async function handleSave(req: Request): Promise<Response> {
-  if (!checkAuth(req)) return unauthorized();
+function apiParse(
+  format: ConfigFormat,
+  text: string,
+): Json | Response {
   try {
-    const payload = await req.json();
-    const fileRel: string = payload.fileRel;
-    const sourcePathRel: string = payload.sourcePath; // relative to root
-    const mode: "overwrite" | "saveAs" = payload.mode;
-    const saveAs: string | null = payload.saveAs;
-    const data: Json = payload.data;
-    const preserve: boolean = !!payload.preserve;
-    const originalText: string | undefined = payload.originalText;
-
-    if (!fileRel || !sourcePathRel || !mode) {
-      return new Response(
-        JSON.stringify({ error: "Missing required fields" }),
-        { status: 400, headers: jsonHeaders() },
+    return parseConfigText(format, text);
+  } catch (e) {
+    return apiError(
+      422,
+      "parse_error",
+      e instanceof Error ? e.message : String(e),
+    );
+  }
+}
+
+// `If-Match: "<version>"` makes a write conditional on the file still being
+// the version the client read (see the `version` of GET).
+async function apiCheckVersion(
+  req: Request,
+  current: string | null,
+): Promise<Response | null> {
+  const want = req.headers.get("if-match");
+  if (want === null) return null;
+  const version = await versionOf(current);
+  if (want.replace(/^(W\/)?"|"$/g, "") === version) return null;
+  return apiError(
+    412,
+    "version_mismatch",
+    "The file has changed since that version was read",
+    { version },
+  );
+}
+
+async function apiListFiles(user: User): Promise<Response> {
+  const files = [];
+  for (const f of await visibleFiles(user)) {
+    const { format, error } = await inspectFile(path.join(app.root, f.rel));
+    files.push({
+      path: f.rel,
+      size: f.size,
+      mtime: f.mtime?.toISOString() ?? null,
+      format,
+      error,
+    });
+  }
+  return apiJson({ files });
+}
+
+async function apiGetFile(target: string, url: URL): Promise<Response> {
+  const rel = path.relative(app.root, target);
+  const keys = apiKey(url);
+  if (keys instanceof Response) return keys;
+  const text = await readTextOrNull(target);
+  if (text === null) return apiError(404, "not_found", `${rel} not found`);
+  const format = detectFormat(target, text);
+  const data = apiParse(format, text);
+  if (data instanceof Response) return data;
+  const version = await versionOf(text);
+  const etag = { etag: `"${version}"` };
+  if (!keys) {
+    return apiJson({ path: rel, format, version, text, data }, 200, etag);
+  }
+  const value = getKey(data, keys);
+  if (value === undefined) {
+    return apiError(404, "key_not_found", `${formatKeyPath(keys)} is not set`);
+  }
+  return apiJson(
+    { path: rel, key: formatKeyPath(keys), value, version },
+    200,
+    etag,
+  );
+}
+
+// Validate `data` against the file's schema and write `text` (unless the
+// file already has it).
+async function apiCommit(
+  actor: Actor,
+  target: string,
+  current: string | null,
+  data: Json,
+  text: string,
+): Promise<Response> {
+  const errors = validate(data, await schemaFor(app.root, target, SCHEMA));
+  if (errors.length) {
+    return apiError(422, "invalid", "Validation failed", { errors });
+  }
+  const changed = text !== current;
+  const commit = changed
+    ? await commitText(target, text, actor, current === null ? "new" : "save")
+    : null;
+  if (commit?.restored) {
+    return apiError(500, "hook_failed", "A post-save hook failed", {
+      hooks: commit.hooks,
+      restored: true,
+      version: await versionOf(await readTextOrNull(target)),
+      auditError: commit.auditError,
+      ownerChange: commit.ownerChange,
+    });
+  }
+  return apiJson({
+    ok: true,
+    path: path.relative(app.root, target),
+    version: await versionOf(text),
+    created: current === null,
+    changed,
+    backup: commit?.backup?.id ?? null,
+    hooks: commit?.hooks ?? [],
+    auditError: commit?.auditError ?? null,
+    ownerChange: commit?.ownerChange ?? null,
+  }, current === null ? 201 : 200);
+}
+
+// PUT a whole file as { "text": ... } (written as is) or { "data": ... }
+// (applied to the existing text, keeping its formatting, unless
+// "preserve": false), or one key as ?key=... with { "value": ... }.
+async function apiPutFile(
+  req: Request,
+  actor: Actor,
+  target: string,
+  url: URL,
+): Promise<Response> {
+  const rel = path.relative(app.root, target);
+  const keys = apiKey(url);
+  if (keys instanceof Response) return keys;
+  const body = await apiBody(req);
+  if (body instanceof Response) return body;
+  const current = await readTextOrNull(target);
+  const stale = await apiCheckVersion(req, current);
+  if (stale) return stale;
+
+  if (keys) {
+    if (current === null) return apiError(404, "not_found", `${rel} not found`);
+    if (!("value" in body)) {
+      return apiError(400, "bad_request", 'Missing "value"');
+    }
+    const format = detectFormat(target, current);
+    const data = apiParse(format, current);
+    if (data instanceof Response) return data;
+    try {
+      setKey(data, keys, body.value);
+      const { text } = renderConfigText(format, data, current);
+      return await apiCommit(actor, target, current, data, text);
+    } catch (e) {
+      return apiError(
+        400,
+        "bad_request",
+        e instanceof Error ? e.message : String(e),
       );
     }
-
-    const sourcePath = ensureInsideRoot(
-      path.join(app.root, sourcePathRel),
-      app.root,
+  }
+  if (typeof body.text === "string") {
+    const data = apiParse(detectFormat(target, body.text), body.text);
+    if (data instanceof Response) return data;
+    return await apiCommit(actor, target, current, data, body.text);
+  }
+  const data = body.data;
+  if (data === null || typeof data !== "object" || Array.isArray(data)) {
+    return apiError(
+      400,
+      "bad_request",
+      'Expected "text", a "data" object, or ?key= with "value"',
     );
-    const defaultTarget = ensureInsideRoot(
-      path.join(app.root, fileRel),
-      app.root,
+  }
+  const formats: ConfigFormat[] = ["toml", "ka9q-ini", "env"];
+  const format = current !== null
+    ? detectFormat(target, current)
+    : target.endsWith(".toml")
+    ? "toml"
+    : formats.find((f) => f === body.format) ?? "ka9q-ini";
+  try {
+    const { text } = renderConfigText(
+      format,
+      data,
+      current === null || body.preserve === false ? undefined : current,
+    );
+    return await apiCommit(actor, target, current, data, text);
+  } catch (e) {
+    return apiError(
+      400,
+      "bad_request",
+      e instanceof Error ? e.message : String(e),
     );
+  }
+}
 
-    let targetPath: string;
-    if (mode === "overwrite") {
-      targetPath = (await fileExists(defaultTarget))
-        ? defaultTarget
-        : sourcePath;
-    } else {
-      if (!saveAs) {
-        return new Response(JSON.stringify({ error: "Missing saveAs name" }), {
-          status: 400,
-          headers: jsonHeaders(),
-        });
-      }
-      targetPath = ensureInsideRoot(path.join(app.root, saveAs), app.root);
+// DELETE a file (a backup is kept) or, with ?key=..., one key of it.
+async function apiDeleteFile(
+  req: Request,
+  actor: Actor,
+  target: string,
+  url: URL,
+): Promise<Response> {
+  const rel = path.relative(app.root, target);
+  const keys = apiKey(url);
+  if (keys instanceof Response) return keys;
+  const current = await readTextOrNull(target);
+  if (current === null) return apiError(404, "not_found", `${rel} not found`);
+  const stale = await apiCheckVersion(req, current);
+  if (stale) return stale;
+
+  if (keys) {
+    const format = detectFormat(target, current);
+    const data = apiParse(format, current);
+    if (data instanceof Response) return data;
+    if (!deleteKey(data, keys)) {
+      return apiError(
+        404,
+        "key_not_found",
+        `${formatKeyPath(keys)} is not set`,
+      );
     }
+    const { text } = renderConfigText(format, data, current);
+    return await apiCommit(actor, target, current, data, text);
+  }
+  const backup = await backupFile(app.root, rel, app.backups);
+  await Deno.remove(target);
+  const auditError = await recordAudit(actor, "delete", rel, current, null, {
+    backup: backup?.id ?? null,
+  });
+  return apiJson({
+    ok: true,
+    path: rel,
+    backup: backup?.id ?? null,
+    auditError,
+  });
+}
 
-    await Deno.mkdir(path.dirname(targetPath), { recursive: true });
+// POST { "path": ..., "text" | "data": ... } checks that content against the
+// file's schema without writing; without text or data, the file on disk.
+async function apiValidate(req: Request, user: User): Promise<Response> {
+  const body = await apiBody(req);
+  if (body instanceof Response) return body;
+  if (typeof body.path !== "string") {
+    return apiError(400, "bad_request", 'Missing "path"');
+  }
+  const target = await apiTarget(body.path, user, "read");
+  if (target instanceof Response) return target;
+  const rel = path.relative(app.root, target);
 
-    let outText: string;
-    let preserved = false;
+  let data: Json | Response;
+  if (typeof body.text === "string") {
+    data = apiParse(detectFormat(target, body.text), body.text);
+  } else if ("data" in body) {
+    data = body.data;
+  } else {
+    const text = await readTextOrNull(target);
+    if (text === null) return apiError(404, "not_found", `${rel} not found`);
+    data = apiParse(detectFormat(target, text), text);
+  }
+  if (data instanceof Response) return data;
+  const errors = validate(data, await schemaFor(app.root, target, SCHEMA));
+  return apiJson({ ok: errors.length === 0, path: rel, errors });
+}
 
-    if (preserve && originalText) {
-      try {
-        // Parse old object from original text to know structure (ignore errors silently)
-        const oldObj = toml.parse(originalText) as Record<string, unknown>;
-        const result = walkPatch(originalText, oldObj, data);
-        if (result.patchedAny) {
-          outText = result.text;
-          preserved = true;
-        } else {
-          outText = toToml(data);
-        }
-      } catch {
-        outText = toToml(data);
+async function handleApi(req: Request, url: URL): Promise<Response> {
+  const user = await authenticate(req);
+  if (!user) return apiError(401, "unauthorized", "Authentication required");
+  const route = url.pathname.startsWith(API + "/")
+    ? url.pathname.slice(API.length)
+    : "";
+  const notAllowed = () =>
+    apiError(
+      405,
+      "method_not_allowed",
+      `${req.method} is not supported on ${url.pathname}`,
+    );
+  try {
+    if (route === "/files") {
+      return req.method === "GET" ? await apiListFiles(user) : notAllowed();
+    }
+    if (route === "/validate") {
+      return req.method === "POST"
+        ? await apiValidate(req, user)
+        : notAllowed();
+    }
+    if (route === "/check") {
+      return req.method === "GET"
+        ? apiJson(await checkRoot(user))
+        : notAllowed();
+    }
+    if (route === "/search") {
+      if (req.method !== "GET") return notAllowed();
+      const q = searchQueryOf(url, user);
+      if (typeof q === "string") return apiError(400, "bad_request", q);
+      return apiJson(await searchRoot(q, user));
+    }
+    if (route === "/audit") {
+      if (req.method !== "GET") return notAllowed();
+      if (user.role !== "admin") {
+        return apiError(
+          403,
+          "forbidden",
+          "Only an admin may read the audit log",
+        );
       }
-    } else {
-      outText = toToml(data);
+      const filter = auditFilterOf(url);
+      if (typeof filter === "string") {
+        return apiError(400, "bad_request", filter);
+      }
+      return apiJson(await readAudit(app.audit, filter));
     }
-
-    await Deno.writeTextFile(targetPath, outText, { create: true });
-
-    return new Response(
-      JSON.stringify({
-        ok: true,
-        savedTo: path.relative(app.root, targetPath),
-        preserved,
-      }),
-      {
-        headers: jsonHeaders(),
-      },
-    );
-  } catch (e: any) {
+    if (route.startsWith("/files/")) {
+      const target = await apiTarget(
+        route.slice("/files/".length),
+        user,
+        req.method === "GET" ? "read" : "write",
+      );
+      if (target instanceof Response) return target;
+      if (req.method === "GET") return await apiGetFile(target, url);
+      const actor = actorOf(req, user);
+      if (req.method === "PUT") {
+        return await apiPutFile(req, actor, target, url);
+      }
+      if (req.method === "DELETE") {
+        return await apiDeleteFile(req, actor, target, url);
+      }
+      return notAllowed();
+    }
+    return apiError(404, "not_found", `No API endpoint ${url.pathname}`);
+  } catch (e) {
     console.error(e);
-    return new Response(JSON.stringify({ error: e.message ?? String(e) }), {
-      status: 500,
-      headers: jsonHeaders(),
-    });
+    return apiError(
+      500,
+      "internal",
+      e instanceof Error ? e.message : String(e),
+    );
   }
 }
 
@@ -1039,18 +5070,38 @@ console.log(`Root: ${app.root}`);
 console.log(`Root: ${app.root}`);
 console.log(
   `Listening on http://localhost:${app.port}${
-    app.authUser ? " (Basic Auth enabled)" : ""
+    app.users
+      ? ` (users from ${app.users})`
+      : app.authUser
+      ? " (Basic Auth enabled)"
+      : ""
   }`,
 );
 
-serve(async (req) => {
+serve(async (req, info) => {
+  clientAddress.set(req, (info.remoteAddr as Deno.NetAddr).hostname);
   try {
     const url = new URL(req.url);
+    if (url.pathname === "/login") return await handleLogin(req, url);
+    if (req.method === "POST" && url.pathname === "/logout") {
+      return await handleLogout(req);
+    }
+    const refused = await admit(req, url);
+    if (refused) return refused;
     if (req.method === "GET" && url.pathname === "/") {
       return await handleIndex(req);
     }
+    if (url.pathname.startsWith("/api/")) {
+      return await handleApi(req, url);
+    }
     if (req.method === "GET" && url.pathname === "/browse") {
-      return await handleBrowse(req);
+      return await handleBrowse(req, url);
+    }
+    if (req.method === "GET" && url.pathname === "/browse/list") {
+      return await handleBrowseList(req, url);
+    }
+    if (req.method === "POST" && url.pathname === "/browse/op") {
+      return await handleBrowseOp(req);
     }
     if (req.method === "GET" && url.pathname === "/edit") {
       return await handleEdit(req, url);
@@ -1058,6 +5109,45 @@ serve(async (req) => {
     if (req.method === "POST" && url.pathname === "/save") {
       return await handleSave(req);
     }
+    if (req.method === "POST" && url.pathname === "/dry-run") {
+      return await handleDryRun(req);
+    }
+    if (req.method === "GET" && url.pathname === "/new") {
+      return await handleNewPage(req, url);
+    }
+    if (req.method === "POST" && url.pathname === "/new/preview") {
+      return await handleNew(req, true);
+    }
+    if (req.method === "POST" && url.pathname === "/new") {
+      return await handleNew(req, false);
+    }
+    if (req.method === "GET" && url.pathname === "/merge") {
+      return await handleMergePage(req, url);
+    }
+    if (req.method === "POST" && url.pathname === "/merge/preview") {
+      return await handleMerge(req, true);
+    }
+    if (req.method === "POST" && url.pathname === "/merge") {
+      return await handleMerge(req, false);
+    }
+    if (req.method === "GET" && url.pathname === "/search") {
+      return await handleSearch(req, url);
+    }
+    if (req.method === "GET" && url.pathname === "/plan") {
+      return await handlePlan(req, url);
+    }
+    if (req.method === "GET" && url.pathname === "/check") {
+      return await handleCheck(req);
+    }
+    if (req.method === "GET" && url.pathname === "/history") {
+      return await handleHistory(req, url);
+    }
+    if (req.method === "POST" && url.pathname === "/restore") {
+      return await handleRestore(req);
+    }
+    if (req.method === "GET" && url.pathname === "/audit") {
+      return await handleAudit(req, url);
+    }
 
     return new Response("Not Found", { status: 404 });
   } catch (e) {
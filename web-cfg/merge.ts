@@ -0,0 +1,125 @@
+// merge.ts
+// Key-by-key comparison of a config's data as an edit started from it (base),
+// as edited (ours) and as it is now elsewhere (theirs). Keys are leaf paths:
+// scalars and arrays are compared whole, tables are walked into. The same
+// comparison merges a local file with upstream's copy (mergeData).
+
+import { deleteKey, getKey, setKey } from "./key_path.ts";
+import type { Json } from "./types.ts";
+
+export interface KeyChange {
+  path: string; // dotted, for display
+  keys: string[];
+  // absent when the key isn't set in that version
+  base?: Json;
+  ours?: Json;
+  theirs?: Json;
+  // both sides changed the key, and differently
+  conflict: boolean;
+}
+
+function isTable(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+function leaves(
+  v: Json,
+  keys: string[] = [],
+  out = new Map<string, { keys: string[]; value: Json }>(),
+) {
+  if (isTable(v)) {
+    for (const [k, child] of Object.entries(v)) {
+      leaves(child, [...keys, k], out);
+    }
+  } else if (keys.length) {
+    out.set(JSON.stringify(keys), { keys, value: v });
+  }
+  return out;
+}
+
+function same(a: Json | undefined, b: Json | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Every key whose value differs between ours and theirs, in the order the
+// keys first appear in theirs, then ours, then base.
+export function keyChanges(base: Json, ours: Json, theirs: Json): KeyChange[] {
+  const b = leaves(base);
+  const o = leaves(ours);
+  const t = leaves(theirs);
+  const out: KeyChange[] = [];
+  for (const id of new Set([...t.keys(), ...o.keys(), ...b.keys()])) {
+    const keys = (t.get(id) ?? o.get(id) ?? b.get(id))!.keys;
+    const [bv, ov, tv] = [b, o, t].map((m) => m.get(id)?.value);
+    if (same(ov, tv)) continue;
+    const change: KeyChange = {
+      path: keys.join("."),
+      keys,
+      conflict: !same(ov, bv) && !same(tv, bv),
+    };
+    if (b.has(id)) change.base = bv;
+    if (o.has(id)) change.ours = ov;
+    if (t.has(id)) change.theirs = tv;
+    out.push(change);
+  }
+  return out;
+}
+
+// ---------------- Three-way merge ----------------
+
+export type MergeSide = "ours" | "theirs";
+
+export interface MergedKey extends KeyChange {
+  taken: MergeSide;
+}
+
+// Remove the tables the merge emptied that theirs doesn't have (a section
+// upstream dropped), so they go from the file as well.
+function pruneEmptied(
+  data: Json,
+  ours: Json,
+  theirs: Json,
+  keys: string[] = [],
+) {
+  if (!isTable(data)) return;
+  for (const [k, child] of Object.entries(data)) {
+    const at = [...keys, k];
+    pruneEmptied(child, ours, theirs, at);
+    const before = getKey(ours, at);
+    if (
+      isTable(child) && !Object.keys(child).length &&
+      isTable(before) && Object.keys(before).length &&
+      getKey(theirs, at) === undefined
+    ) {
+      delete data[k];
+    }
+  }
+}
+
+// Merge theirs into ours against their common base: a key only one side
+// changed takes that side's value, and a key both changed differently takes
+// the side `picks` names for its path (ours by default). Returns the merged
+// data and every key that differs between ours and theirs, with the side
+// it took.
+export function mergeData(
+  base: Json,
+  ours: Json,
+  theirs: Json,
+  picks: Record<string, MergeSide> = {},
+): { data: Json; keys: MergedKey[] } {
+  const data = structuredClone(ours);
+  const keys = keyChanges(base, ours, theirs).map((c): MergedKey => {
+    const taken = c.conflict
+      ? picks[c.path] === "theirs" ? "theirs" : "ours"
+      : same(c.ours, c.base)
+      ? "theirs"
+      : "ours";
+    if (taken === "theirs") {
+      if ("theirs" in c) setKey(data, c.keys, structuredClone(c.theirs!));
+      else deleteKey(data, c.keys);
+    }
+    return { ...c, taken };
+  });
+  pruneEmptied(data, ours, theirs);
+  return { data, keys };
+}
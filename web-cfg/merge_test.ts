@@ -0,0 +1,118 @@
+import { assertEquals } from "@std/assert";
+import { mergeConfigText } from "./config_file.ts";
+import { keyChanges, mergeData } from "./merge.ts";
+
+Deno.test(function listsKeysThatDiffer() {
+  const base = {
+    global: { status: "a.local", blocktime: 20 },
+    FM: { freq: 1 },
+  };
+  const ours = {
+    global: { status: "b.local", blocktime: 20 },
+    FM: { freq: 1 },
+  };
+  const theirs = {
+    global: { status: "c.local", blocktime: 10, overlap: 5 },
+    FM: { freq: 1 },
+  };
+  assertEquals(keyChanges(base, ours, theirs), [
+    {
+      path: "global.status",
+      keys: ["global", "status"],
+      base: "a.local",
+      ours: "b.local",
+      theirs: "c.local",
+      conflict: true,
+    },
+    {
+      path: "global.blocktime",
+      keys: ["global", "blocktime"],
+      base: 20,
+      ours: 20,
+      theirs: 10,
+      conflict: false,
+    },
+    {
+      path: "global.overlap",
+      keys: ["global", "overlap"],
+      theirs: 5,
+      conflict: false,
+    },
+  ]);
+  assertEquals(keyChanges(base, theirs, theirs), []);
+  assertEquals(keyChanges({ a: [1, 2] }, { a: [1, 3] }, {}), [
+    { path: "a", keys: ["a"], base: [1, 2], ours: [1, 3], conflict: true },
+  ]);
+});
+
+Deno.test(function mergesThreeWays() {
+  const base = { global: { ttl: 0, status: "a.local" }, FM: { freq: 1 } };
+  const ours = { global: { ttl: 1, status: "b.local" }, FM: { freq: 1 } };
+  const theirs = {
+    global: { ttl: 0, status: "c.local", overlap: 5 },
+    WX: { freq: 2 },
+  };
+  const { data, keys } = mergeData(base, ours, theirs);
+  assertEquals(data, {
+    global: { ttl: 1, status: "b.local", overlap: 5 },
+    WX: { freq: 2 },
+  });
+  assertEquals(
+    keys.map((k) => [k.path, k.conflict, k.taken]),
+    [
+      ["global.ttl", false, "ours"],
+      ["global.status", true, "ours"],
+      ["global.overlap", false, "theirs"],
+      ["WX.freq", false, "theirs"],
+      ["FM.freq", false, "theirs"],
+    ],
+  );
+  assertEquals(
+    mergeData(base, ours, theirs, { "global.status": "theirs" }).data,
+    {
+      global: { ttl: 1, status: "c.local", overlap: 5 },
+      WX: { freq: 2 },
+    },
+  );
+});
+
+Deno.test(function mergesUpstreamTextKeepingComments() {
+  const base = `[global]
+status = hf.local
+blocktime = 20
+`;
+  const local = `[global]
+# our own multicast group
+status = shack.local
+blocktime = 20 ; ms
+`;
+  const upstream = `[global]
+status = hf.local
+blocktime = 10
+
+# new upstream channel
+[WWV]
+freq = 10m0
+#mode = am
+`;
+  const merged = mergeConfigText(
+    "radiod@hf.conf",
+    local,
+    upstream,
+    base,
+  );
+  assertEquals(
+    merged.text,
+    `[global]
+# our own multicast group
+status = shack.local
+blocktime = 10 ; ms
+
+# new upstream channel
+[WWV]
+freq = 10m0
+#mode = am
+`,
+  );
+  assertEquals(merged.keys.filter((k) => k.conflict), []);
+});
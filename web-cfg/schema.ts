@@ -0,0 +1,369 @@
+// schema.ts
+// Validation schemas: rules keyed by dotted path, loaded from schema files
+// that live next to the configs, and the server-side check run before a save.
+//
+// A schema file is named <name>.schema.toml or <name>.schema.json and looks
+// like (TOML shown):
+//
+//   files = ["radiod@*.conf"]   # optional; default: <name>@*.conf, <name>.conf
+//
+//   [rules."*.freq"]            # "*" matches one path segment (any section)
+//   type = "frequency"
+//
+//   [rules."global.status"]
+//   required = true
+//
+// Schema files are looked up in the config's directory and every parent up
+// to the root, and re-read whenever their mtime changes.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import {
+  isFrequencyList,
+  parseFrequency,
+  splitFrequencyList,
+} from "./frequency.ts";
+import type { Json } from "./types.ts";
+
+export type SchemaRule =
+  & {
+    type?:
+      | "string"
+      | "number"
+      | "boolean"
+      | "date"
+      | "datetime-local"
+      | "color"
+      | "email"
+      | "url"
+      | "password"
+      | "frequency"; // ka9q notation (88m3, 12k), or a space-separated list
+    required?: boolean;
+    min?: number;
+    max?: number;
+    pattern?: string; // JS regex string for validation
+    enum?: string[]; // rendered as a dropdown
+    allowOther?: boolean; // enum is a suggestion list: other values pass
+    step?: number; // for numbers
+    title?: string; // friendly label override
+    placeholder?: string;
+  }
+  & Record<string, unknown>;
+
+// Rules keyed by dotted path; segments may be "*".
+export type SchemaRules = Record<string, SchemaRule>;
+
+export interface SchemaFile {
+  path: string;
+  files: string[]; // filename globs this schema applies to
+  rules: SchemaRules;
+}
+
+// The rules that apply to one config file, lowest precedence first.
+export interface Schema {
+  layers: SchemaRules[];
+  sources: string[]; // schema files used
+  errors: string[]; // schema files that failed to load
+}
+
+const SCHEMA_FILE_RE = /^(.+)\.schema\.(toml|json)$/;
+
+// ---------------- Rule lookup ----------------
+
+function splitPattern(pattern: string): string[] {
+  return pattern.split(".");
+}
+
+// Number of literal (non-wildcard) segments when `pattern` matches the path,
+// or -1 when it doesn't.
+function matchScore(pattern: string, pathParts: string[]): number {
+  const segs = splitPattern(pattern);
+  if (segs.length !== pathParts.length) return -1;
+  let score = 0;
+  for (let i = 0; i < segs.length; i++) {
+    if (segs[i] === "*") continue;
+    if (segs[i] !== pathParts[i]) return -1;
+    score++;
+  }
+  return score;
+}
+
+// Merge every rule whose pattern matches, so the best match wins on
+// conflicts: more literal segments beat wildcards, and among equally specific
+// patterns a later layer (a schema file nearer the config) beats an earlier
+// one.
+export function ruleFor(
+  schema: Schema,
+  pathParts: string[],
+): SchemaRule | undefined {
+  const hits: Array<{ score: number; layer: number; rule: SchemaRule }> = [];
+  schema.layers.forEach((rules, layer) => {
+    for (const [pattern, rule] of Object.entries(rules)) {
+      const score = matchScore(pattern, pathParts);
+      if (score >= 0) hits.push({ score, layer, rule });
+    }
+  });
+  if (!hits.length) return undefined;
+  hits.sort((a, b) => a.score - b.score || a.layer - b.layer);
+  return Object.assign({}, ...hits.map((h) => h.rule));
+}
+
+// ---------------- Loading ----------------
+
+const cache = new Map<string, { mtime: number; schema: SchemaFile }>();
+
+function parseSchemaFile(filePath: string, text: string): SchemaFile {
+  const raw = filePath.endsWith(".json") ? JSON.parse(text) : toml.parse(text);
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("schema must be a table");
+  }
+  const name = path.basename(filePath).match(SCHEMA_FILE_RE)?.[1] ?? "";
+  const files = raw.files === undefined
+    ? [`${name}@*.conf`, `${name}.conf`]
+    : raw.files;
+  if (!Array.isArray(files) || !files.every((f) => typeof f === "string")) {
+    throw new Error("files must be an array of glob strings");
+  }
+  const rules = raw.rules ?? {};
+  if (typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error("rules must be a table keyed by dotted path");
+  }
+  for (const [k, v] of Object.entries(rules)) {
+    if (!v || typeof v !== "object" || Array.isArray(v)) {
+      throw new Error(`rule "${k}" must be a table`);
+    }
+  }
+  return { path: filePath, files, rules: rules as SchemaRules };
+}
+
+export async function loadSchemaFile(filePath: string): Promise<SchemaFile> {
+  const st = await Deno.stat(filePath);
+  const mtime = st.mtime?.getTime() ?? 0;
+  const hit = cache.get(filePath);
+  if (hit && hit.mtime === mtime) return hit.schema;
+  const schema = parseSchemaFile(filePath, await Deno.readTextFile(filePath));
+  cache.set(filePath, { mtime, schema });
+  return schema;
+}
+
+// Globs without a "/" match the file name; others match the path relative to
+// the schema file's directory.
+function appliesTo(schema: SchemaFile, configPath: string): boolean {
+  const rel = path.relative(path.dirname(schema.path), configPath);
+  return schema.files.some((glob) => {
+    const subject = glob.includes("/") ? rel : path.basename(configPath);
+    return path.globToRegExp(glob).test(subject);
+  });
+}
+
+async function schemaFilesIn(dir: string): Promise<string[]> {
+  const out: string[] = [];
+  try {
+    for await (const e of Deno.readDir(dir)) {
+      if (e.isFile && SCHEMA_FILE_RE.test(e.name)) {
+        out.push(path.join(dir, e.name));
+      }
+    }
+  } catch {
+    // missing directory: no schemas there
+  }
+  return out.sort();
+}
+
+// Collect the schema that applies to `configPath` (the requested file, not a
+// .example/.template fallback). `builtin` rules have the lowest precedence.
+export async function schemaFor(
+  root: string,
+  configPath: string,
+  builtin: SchemaRules = {},
+): Promise<Schema> {
+  const dirs: string[] = [];
+  let dir = path.dirname(path.resolve(configPath));
+  const top = path.resolve(root);
+  while (true) {
+    dirs.unshift(dir);
+    if (dir === top || !dir.startsWith(top + path.SEPARATOR)) break;
+    dir = path.dirname(dir);
+  }
+
+  const schema: Schema = { layers: [builtin], sources: [], errors: [] };
+  for (const d of dirs) {
+    for (const file of await schemaFilesIn(d)) {
+      try {
+        const s = await loadSchemaFile(file);
+        if (!appliesTo(s, configPath)) continue;
+        schema.layers.push(s.rules);
+        schema.sources.push(path.relative(top, file));
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        console.error(`Schema ${file}: ${msg}`);
+        schema.errors.push(`${path.relative(top, file)}: ${msg}`);
+      }
+    }
+  }
+  return schema;
+}
+
+// ---------------- Validation ----------------
+
+export interface ValidationError {
+  path: string; // dotted path, e.g. "global.status"
+  keys: string[]; // the same path as segments (section names may hold ".")
+  rule: string; // the rule that failed: required, type, min, max, pattern, enum
+  message: string;
+}
+
+const TYPE_CHECKS: Record<string, (s: string) => boolean> = {
+  date: (s) => /^\d{4}-\d{2}-\d{2}$/.test(s),
+  "datetime-local": (s) =>
+    /^\d{4}-\d{2}-\d{2}[ tT]\d{2}:\d{2}(:\d{2}(\.\d{1,6})?)?$/.test(s),
+  color: (s) => /^#[0-9A-Fa-f]{6}$/.test(s),
+  email: (s) => /^[^@\s]+@[^@\s]+\.[^@\s]+$/.test(s),
+  url: (s) => {
+    try {
+      new URL(s);
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  frequency: (s) => isFrequencyList(s),
+};
+
+function isEmpty(v: Json | undefined): boolean {
+  return v === undefined || v === null || v === "";
+}
+
+function checkValue(value: Json, rule: SchemaRule): [string, string] | null {
+  if (isEmpty(value)) {
+    return rule.required ? ["required", "is required"] : null;
+  }
+  if (typeof value === "object") return null; // tables and arrays: no rules
+  const str = String(value);
+
+  if (rule.type === "number") {
+    // env files hold numbers as text
+    const n = typeof value === "number" ? value : Number(str.trim());
+    if (typeof value === "boolean" || !Number.isFinite(n)) {
+      return ["type", "must be a number"];
+    }
+    if (rule.min !== undefined && n < rule.min) {
+      return ["min", `must be at least ${rule.min}`];
+    }
+    if (rule.max !== undefined && n > rule.max) {
+      return ["max", `must be at most ${rule.max}`];
+    }
+  } else if (rule.type === "boolean") {
+    if (typeof value !== "boolean") return ["type", "must be yes or no"];
+  } else if (rule.type && TYPE_CHECKS[rule.type]) {
+    if (!TYPE_CHECKS[rule.type](str)) {
+      return ["type", `is not a valid ${rule.type}`];
+    }
+    if (rule.type === "frequency") {
+      const hz = splitFrequencyList(str).map((f) => parseFrequency(f)!);
+      if (rule.min !== undefined && hz.some((f) => f < rule.min!)) {
+        return ["min", `must be at least ${rule.min} Hz`];
+      }
+      if (rule.max !== undefined && hz.some((f) => f > rule.max!)) {
+        return ["max", `must be at most ${rule.max} Hz`];
+      }
+    }
+  }
+
+  // like the HTML pattern attribute, the regex must match the whole value
+  if (rule.pattern) {
+    let re: RegExp;
+    try {
+      re = new RegExp(`^(?:${rule.pattern})$`);
+    } catch {
+      return ["pattern", `has an invalid schema pattern: ${rule.pattern}`];
+    }
+    if (!re.test(str)) return ["pattern", `must match ${rule.pattern}`];
+  }
+  if (rule.enum && !rule.allowOther && !rule.enum.includes(str)) {
+    return ["enum", `must be one of: ${rule.enum.join(", ")}`];
+  }
+  return null;
+}
+
+// Concrete paths in `data` matched by `pattern`, expanding "*" over the keys
+// that exist. The last segment is kept even when absent, so required keys can
+// be reported missing.
+function expandPattern(pattern: string, data: Json): string[][] {
+  const segs = splitPattern(pattern);
+  let nodes: Array<{ keys: string[]; node: Json | undefined }> = [
+    { keys: [], node: data },
+  ];
+  segs.forEach((seg, i) => {
+    const last = i === segs.length - 1;
+    const next: typeof nodes = [];
+    for (const { keys, node } of nodes) {
+      const obj = node && typeof node === "object" && !Array.isArray(node)
+        ? node
+        : undefined;
+      if (seg === "*") {
+        for (const k of Object.keys(obj ?? {})) {
+          next.push({ keys: [...keys, k], node: obj![k] });
+        }
+      } else if (obj || last) {
+        next.push({ keys: [...keys, seg], node: obj?.[seg] });
+      }
+    }
+    nodes = next;
+  });
+  return nodes.map((n) => n.keys);
+}
+
+function getPath(data: Json, keys: string[]): Json | undefined {
+  let node: Json | undefined = data;
+  for (const k of keys) {
+    if (!node || typeof node !== "object" || Array.isArray(node)) {
+      return undefined;
+    }
+    node = node[k];
+  }
+  return node;
+}
+
+// Check `data` against every rule that applies to it. Each path is reported
+// once, for the first rule it breaks.
+export function validate(data: Json, schema: Schema): ValidationError[] {
+  const errors: ValidationError[] = [];
+  const seen = new Set<string>();
+  const check = (keys: string[], value: Json | undefined) => {
+    const id = JSON.stringify(keys);
+    if (seen.has(id)) return;
+    seen.add(id);
+    const rule = ruleFor(schema, keys);
+    if (!rule) return;
+    const failed = checkValue(value ?? null, rule);
+    if (failed) {
+      errors.push({
+        path: keys.join("."),
+        keys,
+        rule: failed[0],
+        message: failed[1],
+      });
+    }
+  };
+
+  const walk = (keys: string[], node: Json) => {
+    if (node && typeof node === "object" && !Array.isArray(node)) {
+      for (const [k, v] of Object.entries(node)) walk([...keys, k], v);
+    } else if (keys.length) {
+      check(keys, node);
+    }
+  };
+  walk([], data);
+
+  // required keys that are missing altogether
+  for (const layer of schema.layers) {
+    for (const [pattern, rule] of Object.entries(layer)) {
+      if (!rule.required) continue;
+      for (const keys of expandPattern(pattern, data)) {
+        if (getPath(data, keys) === undefined) check(keys, undefined);
+      }
+    }
+  }
+  return errors;
+}
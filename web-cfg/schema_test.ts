@@ -0,0 +1,92 @@
+import { assertEquals } from "@std/assert";
+import { ruleFor, type Schema, schemaFor, validate } from "./schema.ts";
+
+Deno.test(function bestMatchWins() {
+  const schema: Schema = {
+    layers: [
+      { "*.freq": { type: "frequency", title: "Frequency" } },
+      { "FM.freq": { title: "FM frequency" }, "*.*": { required: true } },
+    ],
+    sources: [],
+    errors: [],
+  };
+  assertEquals(ruleFor(schema, ["FM", "freq"]), {
+    required: true,
+    type: "frequency",
+    title: "FM frequency",
+  });
+  assertEquals(ruleFor(schema, ["WSPR", "freq"])?.title, "Frequency");
+  assertEquals(ruleFor(schema, ["freq"]), undefined);
+});
+
+Deno.test(async function loadsSchemaFilesByGlobAndReloads() {
+  const root = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${root}/sub`);
+    await Deno.writeTextFile(
+      `${root}/radiod.schema.toml`,
+      '[rules."*.mode"]\ntitle = "Mode"\n',
+    );
+    await Deno.writeTextFile(
+      `${root}/sub/other.schema.json`,
+      JSON.stringify({
+        files: ["radiod@fm.conf"],
+        rules: { "*.mode": { title: "FM mode" } },
+      }),
+    );
+    const fm = `${root}/sub/radiod@fm.conf`;
+    let schema = await schemaFor(root, fm);
+    assertEquals(schema.sources, [
+      "radiod.schema.toml",
+      "sub/other.schema.json",
+    ]);
+    assertEquals(ruleFor(schema, ["FM", "mode"])?.title, "FM mode");
+
+    schema = await schemaFor(root, `${root}/opusd@fm.conf`);
+    assertEquals(schema.sources, []);
+
+    // edits take effect on the next lookup
+    await Deno.writeTextFile(
+      `${root}/radiod.schema.toml`,
+      '[rules."*.mode"]\ntitle = "Demod"\n',
+    );
+    await Deno.utime(`${root}/radiod.schema.toml`, 1, 2);
+    schema = await schemaFor(root, `${root}/radiod@hf.conf`);
+    assertEquals(ruleFor(schema, ["HF", "mode"])?.title, "Demod");
+  } finally {
+    await Deno.remove(root, { recursive: true });
+  }
+});
+
+Deno.test(function validatesAgainstRules() {
+  const schema: Schema = {
+    layers: [{
+      "global.status": { required: true, pattern: "[a-z.]+" },
+      "global.hardware": { required: true },
+      "*.ttl": { type: "number", min: 0, max: 255 },
+      "*.freq": { type: "frequency" },
+      "*.mode": { enum: ["usb", "lsb"] },
+    }],
+    sources: [],
+    errors: [],
+  };
+  const errors = validate({
+    global: { status: "HF.local", ttl: 300 },
+    FT8: { freq: "14m074 14m07a", mode: "usb" },
+    WWV: { mode: "am" },
+  }, schema);
+  assertEquals(
+    errors.map((e) => [e.path, e.rule]),
+    [
+      ["global.status", "pattern"],
+      ["global.ttl", "max"],
+      ["FT8.freq", "type"],
+      ["WWV.mode", "enum"],
+      ["global.hardware", "required"],
+    ],
+  );
+  assertEquals(
+    validate({ global: { status: "hf.local", hardware: "rx888" } }, schema),
+    [],
+  );
+});
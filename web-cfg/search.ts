@@ -0,0 +1,294 @@
+// search.ts
+// Search across config files: keys, values, section names and comments,
+// matched exactly, as a substring or by regular expression. Each file is
+// read through its format's syntax tree so a hit knows its section, its line
+// and the key path the edit page needs to bring the setting into view.
+
+import type { ConfigFormat } from "./config_file.ts";
+import { parseEnv } from "./env_file.ts";
+import { parseIni } from "./ka9q_ini.ts";
+import type { KeyPath } from "./key_path.ts";
+import { parseToml } from "./toml_cst.ts";
+
+export type SearchMode = "exact" | "substring" | "regex";
+export type SearchField = "key" | "value" | "section" | "comment";
+
+export const SEARCH_FIELDS: SearchField[] = [
+  "key",
+  "value",
+  "section",
+  "comment",
+];
+
+export interface SearchQuery {
+  text: string;
+  mode: SearchMode;
+  fields: SearchField[];
+  matchCase: boolean;
+  families: string[]; // e.g. "radiod@"; empty for every file
+}
+
+export interface SearchHit {
+  file: string; // relative to --root
+  line: number; // 1-based, of the first physical line
+  end: number; // its last physical line (after continuations)
+  section: string | null;
+  keys: KeyPath | null; // the setting, for /edit?key=
+  fields: SearchField[]; // the parts of the line that matched
+  context: { line: number; text: string }[]; // the hit and lines around it
+}
+
+// The searchable parts of one logical line.
+interface Unit {
+  line: number;
+  lines: number; // physical lines it spans
+  section: string | null;
+  keys: KeyPath | null;
+  parts: Partial<Record<SearchField, string>>;
+}
+
+export interface SearchFile {
+  file: string; // relative to --root
+  format: ConfigFormat;
+  text: string;
+}
+
+// What a search of many files found, as far as it got.
+export interface SearchRun {
+  hits: SearchHit[];
+  errors: { file: string; message: string }[]; // files that didn't parse
+  truncated: boolean; // stopped at the limit of hits
+  timedOut: boolean; // stopped at the time limit, before every file
+}
+
+// Sent to search_worker.ts, which answers with one WorkerReply per file and
+// then { done: true }.
+export interface SearchRequest {
+  query: SearchQuery;
+  files: SearchFile[];
+}
+
+type WorkerReply =
+  | { file: string; hits: SearchHit[] }
+  | { file: string; message: string }
+  | { done: true };
+
+const CONTEXT = 2; // lines shown before and after a hit
+// The longest regular expression searched for.
+export const MAX_PATTERN = 100;
+
+// A test for one searched string. Throws on an invalid or too long regular
+// expression.
+export function searchMatcher(q: SearchQuery): (s: string) => boolean {
+  if (q.mode === "regex") {
+    if (q.text.length > MAX_PATTERN) {
+      throw new Error(
+        `A regular expression can be at most ${MAX_PATTERN} characters long`,
+      );
+    }
+    const re = new RegExp(q.text, q.matchCase ? "" : "i");
+    return (s) => re.test(s);
+  }
+  const fold = (s: string) => q.matchCase ? s : s.toLowerCase();
+  const needle = fold(q.text);
+  return q.mode === "exact"
+    ? (s) => fold(s) === needle
+    : (s) => fold(s).includes(needle);
+}
+
+function spanOf(raw: string): number {
+  return raw.split("\n").length;
+}
+
+// Text of a comment without its marker: "# Hz" -> "Hz".
+function commentText(s: string): string {
+  return s.trim().replace(/^[#;]+\s*/, "");
+}
+
+function unquote(literal: string): string {
+  const s = literal.trim();
+  const m = s.match(/^(["'])([\s\S]*)\1$/);
+  return m ? m[2] : s;
+}
+
+function iniUnits(text: string): Unit[] {
+  const out: Unit[] = [];
+  let line = 1;
+  for (const l of parseIni(text).lines) {
+    const unit: Unit = {
+      line,
+      lines: spanOf(l.raw),
+      section: null,
+      keys: null,
+      parts: {},
+    };
+    if (l.kind === "section") {
+      unit.section = l.name;
+      unit.parts.section = l.name;
+    } else if (l.kind === "entry") {
+      unit.keys = l.section === null ? [l.key] : [l.section, l.key];
+      unit.parts.key = l.key;
+      unit.parts.value = typeof l.value === "string"
+        ? l.value
+        : l.literal.trim();
+      if (/[#;]/.test(l.after)) unit.parts.comment = commentText(l.after);
+    } else if (l.kind === "disabled") {
+      // a documented default: its text is a comment, its key the option
+      unit.keys = [l.section!, l.key];
+      unit.parts.comment = commentText(l.raw);
+    } else if (l.kind === "comment") {
+      unit.parts.comment = commentText(l.raw);
+    }
+    out.push(unit);
+    line += unit.lines;
+  }
+  // comments and blank lines belong to the section they are in
+  let section: string | null = null;
+  for (const u of out) {
+    if (u.parts.section !== undefined) section = u.section;
+    u.section = section;
+  }
+  return out;
+}
+
+function envUnits(text: string): Unit[] {
+  const out: Unit[] = [];
+  let line = 1;
+  for (const l of parseEnv(text).lines) {
+    const unit: Unit = {
+      line,
+      lines: spanOf(l.raw),
+      section: null,
+      keys: null,
+      parts: {},
+    };
+    if (l.kind === "entry") {
+      unit.keys = [l.key];
+      unit.parts.key = l.key;
+      unit.parts.value = l.value;
+    } else if (l.kind === "comment") {
+      unit.parts.comment = commentText(l.raw);
+    }
+    out.push(unit);
+    line += unit.lines;
+  }
+  return out;
+}
+
+function tomlUnits(text: string): Unit[] {
+  const out: Unit[] = [];
+  let line = 1;
+  let section: string | null = null;
+  for (const l of parseToml(text).lines) {
+    const unit: Unit = {
+      line,
+      lines: spanOf(l.raw),
+      section,
+      keys: null,
+      parts: {},
+    };
+    if (l.kind === "table") {
+      section = l.path.join(".");
+      unit.section = section;
+      unit.parts.section = section;
+    } else if (l.kind === "entry") {
+      unit.keys = [...l.table.map(String), ...l.keys];
+      unit.parts.key = l.keys.join(".");
+      unit.parts.value = unquote(l.literal);
+      if (l.after.includes("#")) unit.parts.comment = commentText(l.after);
+    } else if (l.kind === "comment") {
+      unit.parts.comment = commentText(l.raw);
+    }
+    out.push(unit);
+    line += unit.lines;
+  }
+  return out;
+}
+
+// Every line of one file that matches. Throws if the file doesn't parse.
+export function searchText(
+  file: string,
+  format: ConfigFormat,
+  text: string,
+  q: SearchQuery,
+  match = searchMatcher(q),
+): SearchHit[] {
+  const units = format === "toml"
+    ? tomlUnits(text)
+    : format === "env"
+    ? envUnits(text)
+    : iniUnits(text);
+  const physical = text.split("\n");
+  const hits: SearchHit[] = [];
+  for (const u of units) {
+    const fields = q.fields.filter((f) =>
+      u.parts[f] !== undefined && match(u.parts[f]!)
+    );
+    if (!fields.length) continue;
+    const from = Math.max(1, u.line - CONTEXT);
+    const to = Math.min(physical.length, u.line + u.lines - 1 + CONTEXT);
+    const context = [];
+    for (let n = from; n <= to; n++) {
+      context.push({ line: n, text: physical[n - 1].replace(/\r$/, "") });
+    }
+    hits.push({
+      file,
+      line: u.line,
+      end: u.line + u.lines - 1,
+      section: u.section,
+      keys: u.keys,
+      fields,
+      context,
+    });
+  }
+  return hits;
+}
+
+// Search `files` in a worker, which is terminated after `timeoutMs` or once
+// more than `limit` hits are found: a regular expression that backtracks
+// for ever ends the worker, not the server. Rejects if the worker fails.
+export function searchFiles(
+  files: SearchFile[],
+  q: SearchQuery,
+  timeoutMs: number,
+  limit: number,
+): Promise<SearchRun> {
+  const run: SearchRun = {
+    hits: [],
+    errors: [],
+    truncated: false,
+    timedOut: false,
+  };
+  const worker = new Worker(
+    new URL("./search_worker.ts", import.meta.url).href,
+    { type: "module" },
+  );
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      run.timedOut = true;
+      finish();
+    }, timeoutMs);
+    function finish(error?: Error) {
+      clearTimeout(timer);
+      worker.terminate();
+      if (error) reject(error);
+      else resolve(run);
+    }
+    worker.onmessage = (e: MessageEvent<WorkerReply>) => {
+      const reply = e.data;
+      if ("done" in reply) return finish();
+      if ("message" in reply) return void run.errors.push(reply);
+      run.hits.push(...reply.hits);
+      if (run.hits.length > limit) {
+        run.hits.length = limit;
+        run.truncated = true;
+        finish();
+      }
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      finish(new Error(`Search failed: ${e.message}`));
+    };
+    worker.postMessage({ query: q, files } satisfies SearchRequest);
+  });
+}
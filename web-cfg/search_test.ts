@@ -0,0 +1,125 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  MAX_PATTERN,
+  searchFiles,
+  searchMatcher,
+  type SearchQuery,
+  searchText,
+} from "./search.ts";
+
+const INI = `[global]
+status = hf.local ; status stream
+data = wspr-pcm.local
+
+# WSPR on 20m
+[20m WSPR]
+freq = "14m0956"
+#ttl = 1
+`;
+
+function query(text: string, more: Partial<SearchQuery> = {}): SearchQuery {
+  return {
+    text,
+    mode: "substring",
+    fields: ["key", "value", "section", "comment"],
+    matchCase: false,
+    families: [],
+    ...more,
+  };
+}
+
+Deno.test(function searchesKa9qFiles() {
+  const hits = searchText("radiod@hf.conf", "ka9q-ini", INI, query("wspr"));
+  assertEquals(
+    hits.map((h) => [h.line, h.section, h.keys, h.fields]),
+    [
+      [3, "global", ["global", "data"], ["value"]],
+      [5, "global", null, ["comment"]],
+      [6, "20m WSPR", null, ["section"]],
+    ],
+  );
+  assertEquals(hits[0].end, 3);
+  assertEquals(hits[0].context.map((c) => c.line), [1, 2, 3, 4, 5]);
+  assertEquals(
+    searchText("x.conf", "ka9q-ini", INI, query("ttl", { fields: ["key"] })),
+    [],
+  );
+  const ttl = searchText("x.conf", "ka9q-ini", INI, query("ttl"));
+  assertEquals(ttl.map((h) => [h.line, h.keys]), [[8, ["20m WSPR", "ttl"]]]);
+  const freq = searchText(
+    "x.conf",
+    "ka9q-ini",
+    INI,
+    query("14m0956", { mode: "exact" }),
+  );
+  assertEquals(freq.map((h) => h.keys), [["20m WSPR", "freq"]]);
+  assertEquals(
+    searchText("x.conf", "ka9q-ini", INI, query("status stream")).length,
+    1,
+  );
+});
+
+Deno.test(function searchesEnvAndTomlFiles() {
+  const env = "# Opus\nPCM_IN=2m-pcm.local\nOPUS_OUT=2m-opus.local\n";
+  assertEquals(
+    searchText(
+      "opusd@2m.conf",
+      "env",
+      env,
+      query("^(PCM|OPUS)_", {
+        mode: "regex",
+        matchCase: true,
+      }),
+    ).map((h) => [h.line, h.keys]),
+    [[2, ["PCM_IN"]], [3, ["OPUS_OUT"]]],
+  );
+  const toml = '[server]\nhost = "a.local" # main\n[[peers]]\nhost = "b"\n';
+  assertEquals(
+    searchText("app.toml", "toml", toml, query("host", { fields: ["key"] }))
+      .map((h) => [h.section, h.keys]),
+    [["server", ["server", "host"]], ["peers.0", ["peers", "0", "host"]]],
+  );
+  assertEquals(
+    searchText("app.toml", "toml", toml, query("main")).map((h) => h.fields),
+    [["comment"]],
+  );
+});
+
+Deno.test(function matchesTextByMode() {
+  assertEquals(searchMatcher(query("TTL", { mode: "exact" }))("ttl"), true);
+  assertEquals(
+    searchMatcher(query("TTL", { mode: "exact", matchCase: true }))("ttl"),
+    false,
+  );
+  assertThrows(() => searchMatcher(query("(", { mode: "regex" })));
+  const long = "a".repeat(MAX_PATTERN + 1);
+  assertThrows(() => searchMatcher(query(long, { mode: "regex" })));
+  assertEquals(searchMatcher(query(long))(long), true);
+});
+
+Deno.test(async function searchesFilesInAWorker() {
+  const files = [
+    { file: "radiod@hf.conf", format: "ka9q-ini" as const, text: INI },
+    { file: "broken.toml", format: "toml" as const, text: "a = \n" },
+  ];
+  const run = await searchFiles(files, query("wspr"), 10_000, 2);
+  assertEquals(run.hits.map((h) => [h.file, h.line]), [
+    ["radiod@hf.conf", 3],
+    ["radiod@hf.conf", 5],
+  ]);
+  assertEquals(run.truncated, true);
+  assertEquals(run.timedOut, false);
+
+  const all = await searchFiles(files, query("wspr"), 10_000, 500);
+  assertEquals(all.hits.length, 3);
+  assertEquals(all.errors.map((e) => e.file), ["broken.toml"]);
+});
+
+Deno.test(async function stopsARegexThatBacktracksForEver() {
+  const text = `data = ${"a".repeat(40)}\n`;
+  const files = [{ file: "x.conf", format: "ka9q-ini" as const, text }];
+  const q = query("(.+)+§", { mode: "regex" });
+  const run = await searchFiles(files, q, 300, 500);
+  assertEquals(run.timedOut, true);
+  assertEquals(run.hits, []);
+});
@@ -0,0 +1,27 @@
+// search_worker.ts
+// Runs a search over the files it is sent, off the server's thread: a
+// regular expression can't be stopped once it starts backtracking, but the
+// worker running it can be terminated (see searchFiles in search.ts).
+/// <reference no-default-lib="true" />
+/// <reference lib="deno.worker" />
+
+import { searchMatcher, type SearchRequest, searchText } from "./search.ts";
+
+self.onmessage = (e: MessageEvent<SearchRequest>) => {
+  const { query, files } = e.data;
+  const match = searchMatcher(query);
+  for (const f of files) {
+    try {
+      self.postMessage({
+        file: f.file,
+        hits: searchText(f.file, f.format, f.text, query, match),
+      });
+    } catch (err) {
+      self.postMessage({
+        file: f.file,
+        message: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+  self.postMessage({ done: true });
+};
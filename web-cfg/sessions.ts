@@ -0,0 +1,185 @@
+// sessions.ts
+// Logins through the login page (--login): a cookie session per login, kept
+// in memory and ended by logging out or by going unused for the idle
+// timeout, each with its own CSRF token that every change made in the
+// session must carry. Also the backoff that makes password guessing slow:
+// after FREE_ATTEMPTS failed logins in a row from one address or for one
+// account, each further one locks it out twice as long as the last, up to
+// MAX_LOCKOUT.
+
+import type { User } from "./users.ts";
+
+export const SESSION_COOKIE = "web-cfg-session";
+// Readable by the pages' scripts, which send it back as x-csrf-token; a
+// page on another site can't read it, so it can't either.
+export const CSRF_COOKIE = "web-cfg-csrf";
+
+export interface Session {
+  id: string;
+  csrf: string;
+  user: User; // as they were at login
+  seen: number; // ms since the epoch, of the latest request
+}
+
+const sessions = new Map<string, Session>();
+
+function randomToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return btoa(String.fromCharCode(...bytes))
+    .replaceAll("+", "-").replaceAll("/", "_").replace(/=+$/, "");
+}
+
+// Forget the sessions idle for longer than `idleMs`.
+function sweep(idleMs: number, now: number) {
+  for (const [id, s] of sessions) {
+    if (now - s.seen > idleMs) sessions.delete(id);
+  }
+}
+
+export function startSession(
+  user: User,
+  idleMs: number,
+  now = Date.now(),
+): Session {
+  sweep(idleMs, now);
+  const session = { id: randomToken(), csrf: randomToken(), user, seen: now };
+  sessions.set(session.id, session);
+  return session;
+}
+
+// The session `id` names, if it hasn't been idle for longer than `idleMs`;
+// finding it counts as using it.
+export function findSession(
+  id: string | null,
+  idleMs: number,
+  now = Date.now(),
+): Session | null {
+  const session = id ? sessions.get(id) : undefined;
+  if (!session) return null;
+  if (now - session.seen > idleMs) {
+    sessions.delete(session.id);
+    return null;
+  }
+  session.seen = now;
+  return session;
+}
+
+export function endSession(id: string) {
+  sessions.delete(id);
+}
+
+// ---------------- Cookies ----------------
+
+// The value of cookie `name` in a Cookie header.
+export function cookieValue(
+  header: string | null,
+  name: string,
+): string | null {
+  for (const part of header?.split(";") ?? []) {
+    const idx = part.indexOf("=");
+    if (idx > 0 && part.slice(0, idx).trim() === name) {
+      return part.slice(idx + 1).trim();
+    }
+  }
+  return null;
+}
+
+// Set-Cookie values that start `session`, or with null end the current one.
+// They last until the browser closes; the idle timeout is kept here.
+export function sessionCookies(
+  session: Session | null,
+  secure: boolean,
+): string[] {
+  const attrs = `; Path=/; SameSite=Strict${secure ? "; Secure" : ""}${
+    session ? "" : "; Max-Age=0"
+  }`;
+  return [
+    `${SESSION_COOKIE}=${session?.id ?? ""}${attrs}; HttpOnly`,
+    `${CSRF_COOKIE}=${session?.csrf ?? ""}${attrs}`,
+  ];
+}
+
+// ---------------- Backoff ----------------
+
+export const FREE_ATTEMPTS = 5;
+export const MAX_LOCKOUT = 15 * 60_000;
+const FORGET_AFTER = 24 * 60 * 60_000;
+// Failures are kept for this many addresses and accounts at most, the
+// oldest forgotten first, so that guesses from many addresses can't fill
+// the memory.
+export const MAX_TRACKED = 10_000;
+
+interface Failures {
+  count: number;
+  until: number; // locked out until then (ms since the epoch)
+  last: number;
+}
+
+// By the time of the latest failure, oldest first.
+const failures = new Map<string, Failures>();
+
+// Forget the failures more than FORGET_AFTER old.
+function prune(now: number) {
+  for (const [key, f] of failures) {
+    if (now - f.last <= FORGET_AFTER) break;
+    failures.delete(key);
+  }
+}
+
+function waitFor(key: string, now: number): number {
+  const f = failures.get(key);
+  return f ? Math.max(0, f.until - now) : 0;
+}
+
+// How long (ms) until a login from `address` as `account` may be tried
+// again; 0 when it may be tried now. `account` is null for a name that isn't
+// an account, which isn't tracked. An account's lockout only holds back
+// addresses that have failed themselves, so that guessing at someone's
+// password doesn't lock them out.
+export function lockedFor(
+  address: string,
+  account: string | null,
+  now = Date.now(),
+): number {
+  prune(now);
+  const a = `address:${address}`;
+  const wait = waitFor(a, now);
+  if (account === null || !failures.has(a)) return wait;
+  return Math.max(wait, waitFor(`user:${account}`, now));
+}
+
+export function loginFailed(
+  address: string,
+  account: string | null,
+  now = Date.now(),
+) {
+  prune(now);
+  const keys = [`address:${address}`];
+  if (account !== null) keys.push(`user:${account}`);
+  for (const key of keys) {
+    const f = failures.get(key) ?? { count: 0, until: 0, last: 0 };
+    f.count++;
+    f.last = now;
+    if (f.count >= FREE_ATTEMPTS) {
+      f.until = now +
+        Math.min(1000 * 2 ** (f.count - FREE_ATTEMPTS), MAX_LOCKOUT);
+    }
+    // to the end: the map stays in order of the latest failure
+    failures.delete(key);
+    failures.set(key, f);
+  }
+  while (failures.size > MAX_TRACKED) {
+    failures.delete(failures.keys().next().value!);
+  }
+}
+
+// A success clears the account's failures but not the address's, so that
+// logging in to one's own account doesn't buy more guesses at others.
+export function loginSucceeded(account: string) {
+  failures.delete(`user:${account}`);
+}
+
+// The number of addresses and accounts with failures on record.
+export function trackedFailures(): number {
+  return failures.size;
+}
@@ -0,0 +1,91 @@
+import { assertEquals } from "@std/assert";
+import {
+  cookieValue,
+  endSession,
+  findSession,
+  FREE_ATTEMPTS,
+  lockedFor,
+  loginFailed,
+  loginSucceeded,
+  MAX_LOCKOUT,
+  MAX_TRACKED,
+  sessionCookies,
+  startSession,
+  trackedFailures,
+} from "./sessions.ts";
+import type { User } from "./users.ts";
+
+const ann: User = { name: "ann", role: "editor", password: "", access: [] };
+
+Deno.test(function startsFindsAndEndsSessions() {
+  const idle = 30 * 60_000;
+  const a = startSession(ann, idle, 0);
+  const b = startSession(ann, idle, 0);
+  assertEquals(a.id === b.id || a.csrf === b.csrf || a.id === a.csrf, false);
+  assertEquals(findSession(a.id, idle, idle)?.user.name, "ann");
+  // used at `idle`, so good for another `idle` from then
+  assertEquals(findSession(a.id, idle, 2 * idle)?.id, a.id);
+  assertEquals(findSession(b.id, idle, 2 * idle), null); // idle too long
+  assertEquals(findSession("nope", idle, 0), null);
+  assertEquals(findSession(null, idle, 0), null);
+  endSession(a.id);
+  assertEquals(findSession(a.id, idle, 2 * idle), null);
+});
+
+Deno.test(function readsAndWritesCookies() {
+  const header = `other=1; web-cfg-session=abc; web-cfg-csrf=x=y`;
+  assertEquals(cookieValue(header, "web-cfg-session"), "abc");
+  assertEquals(cookieValue(header, "web-cfg-csrf"), "x=y");
+  assertEquals(cookieValue(header, "session"), null);
+  assertEquals(cookieValue(null, "web-cfg-session"), null);
+
+  const session = startSession(ann, 60_000);
+  assertEquals(sessionCookies(session, true), [
+    `web-cfg-session=${session.id}; Path=/; SameSite=Strict; Secure; HttpOnly`,
+    `web-cfg-csrf=${session.csrf}; Path=/; SameSite=Strict; Secure`,
+  ]);
+  assertEquals(sessionCookies(null, false), [
+    "web-cfg-session=; Path=/; SameSite=Strict; Max-Age=0; HttpOnly",
+    "web-cfg-csrf=; Path=/; SameSite=Strict; Max-Age=0",
+  ]);
+});
+
+Deno.test(function backsOffAfterFailedLogins() {
+  const ip = "192.0.2.9";
+  for (let i = 1; i < FREE_ATTEMPTS; i++) loginFailed(ip, "backoff", 0);
+  assertEquals(lockedFor(ip, "backoff", 0), 0);
+  loginFailed(ip, "backoff", 0);
+  assertEquals(lockedFor(ip, "backoff", 0), 1000);
+  assertEquals(lockedFor(ip, "backoff", 1000), 0);
+  loginFailed(ip, "backoff", 1000);
+  assertEquals(lockedFor(ip, "backoff", 1000), 2000);
+  // the address is locked out for other accounts and unknown names too
+  assertEquals(lockedFor(ip, "other", 1000), 2000);
+  assertEquals(lockedFor(ip, null, 1000), 2000);
+  for (let i = 0; i < 20; i++) loginFailed(ip, "backoff", 1000);
+  assertEquals(lockedFor(ip, "backoff", 1000), MAX_LOCKOUT);
+
+  loginSucceeded("backoff");
+  assertEquals(lockedFor(ip, "backoff", 1000), MAX_LOCKOUT);
+  assertEquals(lockedFor("192.0.2.10", "backoff", 1000), 0);
+  // all forgotten a day later
+  assertEquals(lockedFor(ip, "backoff", 1001 + 24 * 60 * 60_000), 0);
+});
+
+Deno.test(function lockedAccountsStillLetInCleanAddresses() {
+  for (let i = 0; i < FREE_ATTEMPTS; i++) {
+    loginFailed(`198.51.100.${i}`, "target", 0);
+  }
+  // a guessing address is held back by the account's lockout
+  assertEquals(lockedFor("198.51.100.0", "target", 0), 1000);
+  // the account's owner, from an address with no failures, isn't
+  assertEquals(lockedFor("203.0.113.1", "target", 0), 0);
+});
+
+Deno.test(function forgetsTheOldestFailuresBeyondTheCap() {
+  for (let i = 0; i <= MAX_TRACKED; i++) loginFailed(`cap-${i}`, null, 5000);
+  assertEquals(trackedFailures(), MAX_TRACKED);
+  for (let i = 0; i < FREE_ATTEMPTS; i++) loginFailed("cap-last", null, 5000);
+  assertEquals(lockedFor("cap-last", null, 5000), 1000);
+  assertEquals(trackedFailures(), MAX_TRACKED);
+});
@@ -0,0 +1,197 @@
+// streams.ts
+// Cross-file check of the multicast streams that wire the ka9q-radio daemons
+// together: radiod produces `data = 2m-pcm.local`, opusd consumes it as
+// `PCM_IN=2m-pcm.local` and produces `OPUS_OUT=2m-opus.local`, and so on.
+// Each file contributes references found by RULES; checkStreams() matches
+// them up and reports what doesn't fit.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import type { KeyPath } from "./key_path.ts";
+import type { Json } from "./types.ts";
+
+// "status" is radiod's status/command stream, which no config consumes but
+// which must be unique per receiver.
+export type StreamRole = "produces" | "consumes" | "status";
+
+export interface StreamRef {
+  file: string; // relative to --root
+  keys: KeyPath;
+  name: string; // as written in the file
+  role: StreamRole;
+}
+
+export type StreamIssueKind =
+  | "dangling"
+  | "duplicate-producer"
+  | "duplicate-status"
+  | "unused";
+
+export interface StreamIssue {
+  kind: StreamIssueKind;
+  severity: "error" | "warning";
+  stream: string;
+  message: string;
+  refs: StreamRef[]; // the settings that cause it
+}
+
+export interface StreamSummary {
+  name: string;
+  producers: StreamRef[];
+  consumers: StreamRef[];
+  status: StreamRef[];
+}
+
+interface StreamRule {
+  files: string[]; // file name globs
+  key: string; // top-level key, or a key in any section
+  role: StreamRole;
+  words?: boolean; // a command line: only words that look like streams count
+}
+
+const STEREO = ["stereod.conf", "rdsd.conf"]; // FM stereo decoders
+
+// Which settings name streams, per program. Keys are looked up at the top
+// level (environment files) and in every section that isn't disabled.
+const RULES: StreamRule[] = [
+  { files: ["radiod@*.conf"], key: "status", role: "status" },
+  { files: ["radiod@*.conf"], key: "data", role: "produces" },
+  { files: ["opusd@*.conf"], key: "PCM_IN", role: "consumes" },
+  { files: ["opusd@*.conf"], key: "OPUS_OUT", role: "produces" },
+  { files: STEREO, key: "FM_BASEBAND_IN", role: "consumes" },
+  { files: STEREO, key: "STEREO_OUT", role: "produces" },
+  { files: ["packetd.conf"], key: "PCM", role: "consumes" },
+  { files: ["packetd.conf"], key: "AX25", role: "produces" },
+  { files: ["aprs.conf"], key: "AX25", role: "consumes" },
+  { files: ["recordings@*.conf"], key: "ARGS", role: "consumes", words: true },
+  { files: ["*-decode*.conf"], key: "MCAST", role: "consumes" },
+  { files: ["horus.conf"], key: "STREAM", role: "consumes" },
+  { files: ["repeater*.conf"], key: "input", role: "consumes" },
+];
+
+// mDNS names (fm-pcm.local) and IPv4 multicast groups, with optional port.
+const STREAM_WORD_RE =
+  /^([\w-]+(\.[\w-]+)*\.local|2(2[4-9]|3\d)(\.\d{1,3}){3})(:\d+)?$/i;
+
+function rulesFor(file: string): StreamRule[] {
+  const name = path.basename(file);
+  return RULES.filter((r) =>
+    r.files.some((glob) => path.globToRegExp(glob).test(name))
+  );
+}
+
+function namesIn(value: Json, words: boolean): string[] {
+  if (typeof value !== "string") return [];
+  if (words) return value.split(/\s+/).filter((w) => STREAM_WORD_RE.test(w));
+  const name = value.trim();
+  return name ? [name] : [];
+}
+
+function isTable(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+// The stream references in one file's parsed data. Repeated keys (arrays)
+// give one reference per item.
+export function streamRefs(file: string, data: Json): StreamRef[] {
+  const rules = rulesFor(file);
+  const refs: StreamRef[] = [];
+  if (!rules.length || !isTable(data)) return refs;
+  const visit = (table: { [k: string]: Json }, at: KeyPath) => {
+    for (const rule of rules) {
+      if (!Object.hasOwn(table, rule.key)) continue;
+      const value = table[rule.key];
+      const keys = [...at, rule.key];
+      const items: [Json, KeyPath][] = Array.isArray(value)
+        ? value.map((v, i) => [v, [...keys, String(i)]])
+        : [[value, keys]];
+      for (const [v, k] of items) {
+        for (const name of namesIn(v, rule.words ?? false)) {
+          refs.push({ file, keys: k, name, role: rule.role });
+        }
+      }
+    }
+  };
+  visit(data, []);
+  for (const [section, table] of Object.entries(data)) {
+    if (isTable(table) && table.disable !== true) visit(table, [section]);
+  }
+  return refs;
+}
+
+// mDNS names are case-insensitive and may end in a dot.
+function streamKey(name: string): string {
+  return name.toLowerCase().replace(/\.(?=:|$)/, "");
+}
+
+function describe(ref: StreamRef): string {
+  return `${ref.file} (${ref.keys.join(".")})`;
+}
+
+// Match producers and consumers across files. Several sections of one file
+// sending to the same stream is normal (one radiod multiplexes channels);
+// two files producing it is not.
+export function checkStreams(
+  refs: StreamRef[],
+): { streams: StreamSummary[]; issues: StreamIssue[] } {
+  const byName = new Map<string, StreamSummary>();
+  for (const ref of refs) {
+    const k = streamKey(ref.name);
+    let s = byName.get(k);
+    if (!s) {
+      s = { name: ref.name, producers: [], consumers: [], status: [] };
+      byName.set(k, s);
+    }
+    if (ref.role === "produces") s.producers.push(ref);
+    else if (ref.role === "consumes") s.consumers.push(ref);
+    else s.status.push(ref);
+  }
+
+  const streams = [...byName.values()].sort((a, b) =>
+    a.name.localeCompare(b.name)
+  );
+  const issues: StreamIssue[] = [];
+  for (const s of streams) {
+    const producingFiles = new Set(s.producers.map((r) => r.file));
+    if (s.status.length > 1 || (s.status.length && s.producers.length)) {
+      issues.push({
+        kind: "duplicate-status",
+        severity: "error",
+        stream: s.name,
+        message: s.status.length > 1
+          ? `Status name ${s.name} is used by ${s.status.length} receivers`
+          : `Status name ${s.name} is also a data stream`,
+        refs: [...s.status, ...s.producers],
+      });
+    }
+    if (producingFiles.size > 1) {
+      issues.push({
+        kind: "duplicate-producer",
+        severity: "error",
+        stream: s.name,
+        message: `${s.name} is produced by ${producingFiles.size} files: ` +
+          [...producingFiles].join(", "),
+        refs: s.producers,
+      });
+    }
+    if (s.consumers.length && !s.producers.length && !s.status.length) {
+      issues.push({
+        kind: "dangling",
+        severity: "error",
+        stream: s.name,
+        message: `Nothing produces ${s.name}, consumed by ` +
+          s.consumers.map(describe).join(", "),
+        refs: s.consumers,
+      });
+    }
+    if (s.producers.length && !s.consumers.length) {
+      issues.push({
+        kind: "unused",
+        severity: "warning",
+        stream: s.name,
+        message: `No config consumes ${s.name}`,
+        refs: s.producers,
+      });
+    }
+  }
+  return { streams, issues };
+}
@@ -0,0 +1,83 @@
+import { assertEquals } from "@std/assert";
+import { checkStreams, streamRefs } from "./streams.ts";
+
+Deno.test(function findsStreamReferences() {
+  assertEquals(
+    streamRefs("radiod@2m.conf", {
+      global: { status: "2m.local", data: "2m-pcm.local" },
+      "2m FM": { freq: "146m52", data: ["2m-pcm.local", "aux-pcm.local"] },
+      "Off": { disable: true, data: "off-pcm.local" },
+    }),
+    [
+      {
+        file: "radiod@2m.conf",
+        keys: ["global", "status"],
+        name: "2m.local",
+        role: "status",
+      },
+      {
+        file: "radiod@2m.conf",
+        keys: ["global", "data"],
+        name: "2m-pcm.local",
+        role: "produces",
+      },
+      {
+        file: "radiod@2m.conf",
+        keys: ["2m FM", "data", "0"],
+        name: "2m-pcm.local",
+        role: "produces",
+      },
+      {
+        file: "radiod@2m.conf",
+        keys: ["2m FM", "data", "1"],
+        name: "aux-pcm.local",
+        role: "produces",
+      },
+    ],
+  );
+  assertEquals(
+    streamRefs("sub/recordings@2m.conf", {
+      ARGS: "-s -m 0.25 -d /recordings/2m 2m-pcm.local 239.1.2.3:5004",
+    }).map((r) => r.name),
+    ["2m-pcm.local", "239.1.2.3:5004"],
+  );
+  assertEquals(streamRefs("unknown.conf", { data: "x.local" }), []);
+});
+
+Deno.test(function reportsStreamIssues() {
+  const { streams, issues } = checkStreams([
+    ...streamRefs("radiod@2m.conf", {
+      global: { status: "hf.local", data: "2m-pcm.local" },
+      "2m FM": { data: "2m-pcm.local" },
+    }),
+    ...streamRefs("radiod@hf.conf", {
+      global: { status: "HF.local", data: "hf-pcm.local" },
+    }),
+    ...streamRefs("opusd@2m.conf", {
+      PCM_IN: "2m-pcm.local",
+      OPUS_OUT: "2m-opus.local",
+    }),
+    ...streamRefs("opusd@6m.conf", { PCM_IN: "6m-pcm.local" }),
+    ...streamRefs("stereod.conf", { STEREO_OUT: "hf-pcm.local" }),
+  ]);
+  assertEquals(streams.map((s) => s.name), [
+    "2m-opus.local",
+    "2m-pcm.local",
+    "6m-pcm.local",
+    "hf-pcm.local",
+    "hf.local",
+  ]);
+  assertEquals(
+    issues.map((i) => [i.kind, i.stream, i.refs.map((r) => r.file)]),
+    [
+      ["unused", "2m-opus.local", ["opusd@2m.conf"]],
+      ["dangling", "6m-pcm.local", ["opusd@6m.conf"]],
+      ["duplicate-producer", "hf-pcm.local", [
+        "radiod@hf.conf",
+        "stereod.conf",
+      ]],
+      ["unused", "hf-pcm.local", ["radiod@hf.conf", "stereod.conf"]],
+      ["duplicate-status", "hf.local", ["radiod@2m.conf", "radiod@hf.conf"]],
+    ],
+  );
+});
@@ -0,0 +1,151 @@
+// templates.ts
+// Parameterised templates for new config files. A .conf.template (or
+// .conf.example) declares its variables in comment lines, which are left
+// out of the file it makes:
+//
+//   # @var band: name = ${instance} -- Band, as used in stream names
+//   # @var blocktime: 2.5|5|10|20|40 = 20 -- Opus block time (ms)
+//   PCM_IN=${band}-pcm.local
+//
+// Types: string, name (host/stream name characters), number, frequency
+// (ka9q notation) or a list of choices separated by "|". A default may use
+// variables declared above it and ${instance}, the part of the new file's
+// name after "@". Any other ${...} in the template is left as it is.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import { parseFrequency } from "./frequency.ts";
+
+export type TemplateVarType = "string" | "name" | "number" | "frequency";
+
+export interface TemplateVar {
+  name: string;
+  type: TemplateVarType | "choice";
+  choices: string[]; // for "choice"
+  default: string; // may refer to other variables
+  description: string;
+}
+
+export interface Template {
+  vars: TemplateVar[];
+  body: string; // the text without the @var lines
+}
+
+const TYPES: TemplateVarType[] = ["string", "name", "number", "frequency"];
+const VAR_LINE_RE = /^[ \t]*[#;][ \t]*@var\b(.*)$/;
+const DECLARATION_RE =
+  /^\s+([A-Za-z_]\w*)\s*:\s*(\S+)\s*(?:=\s*(.*?))?\s*(?:--\s*(.*?))?\s*$/;
+const VARIABLE_RE = /\$\{([A-Za-z_]\w*)\}/g;
+const NAME_RE = /^[A-Za-z0-9]([A-Za-z0-9._-]*[A-Za-z0-9])?$/;
+const TEMPLATE_SUFFIXES = [".template", ".example"];
+
+export function isTemplateFile(file: string): boolean {
+  return TEMPLATE_SUFFIXES.some((s) => file.endsWith(".conf" + s));
+}
+
+export function parseTemplate(text: string): Template {
+  const vars: TemplateVar[] = [];
+  const body: string[] = [];
+  for (const [i, line] of text.split("\n").entries()) {
+    const m = line.match(VAR_LINE_RE);
+    if (!m) {
+      body.push(line);
+      continue;
+    }
+    const d = m[1].match(DECLARATION_RE);
+    if (!d) {
+      throw new Error(
+        `line ${i + 1}: expected "@var name: type = default -- description"`,
+      );
+    }
+    const [, name, type, def = "", description = ""] = d;
+    if (name === "instance" || vars.some((v) => v.name === name)) {
+      throw new Error(`line ${i + 1}: \${${name}} is already defined`);
+    }
+    const choices = type.includes("|") ? type.split("|") : [];
+    if (!choices.length && !TYPES.includes(type as TemplateVarType)) {
+      throw new Error(`line ${i + 1}: unknown type ${type}`);
+    }
+    vars.push({
+      name,
+      type: choices.length ? "choice" : type as TemplateVarType,
+      choices,
+      default: def,
+      description,
+    });
+  }
+  return { vars, body: body.join("\n") };
+}
+
+// Why an instance name can't be used, or null when it can. It ends up in a
+// file name and usually a systemd unit name.
+export function checkInstance(instance: string): string | null {
+  if (!instance) return "An instance name is required";
+  if (!NAME_RE.test(instance)) {
+    return "Use letters, digits, '.', '-' and '_', starting and ending with a letter or digit";
+  }
+  return null;
+}
+
+// The file a template makes for an instance, next to the template:
+// opusd@.conf.template (or opusd.conf.template) -> opusd@23cm.conf.
+export function templateTarget(template: string, instance: string): string {
+  const name = path.basename(template).replace(/\.(template|example)$/, "");
+  const stem = name.slice(0, -".conf".length);
+  const service = stem.includes("@") ? stem.slice(0, stem.indexOf("@")) : stem;
+  return path.join(path.dirname(template), `${service}@${instance}.conf`);
+}
+
+function substitute(text: string, values: Record<string, string>): string {
+  return text.replace(
+    VARIABLE_RE,
+    (whole, name) => Object.hasOwn(values, name) ? values[name] : whole,
+  );
+}
+
+function checkValue(v: TemplateVar, value: string): string | null {
+  switch (v.type) {
+    case "name":
+      return NAME_RE.test(value) ? null : "Not a valid name";
+    case "number":
+      return value.trim() !== "" && Number.isFinite(Number(value))
+        ? null
+        : "Not a number";
+    case "frequency":
+      return parseFrequency(value) !== null
+        ? null
+        : "Not a frequency (e.g. 146m52 or 146520000)";
+    case "choice":
+      return v.choices.includes(value)
+        ? null
+        : `Must be one of ${v.choices.join(", ")}`;
+    default:
+      return null;
+  }
+}
+
+// Every variable's value: the one given, or its default worked out from the
+// values before it. Values that don't fit their type are reported by name.
+export function resolveValues(
+  template: Template,
+  given: Record<string, string>,
+  instance: string,
+): { values: Record<string, string>; errors: Record<string, string> } {
+  const values: Record<string, string> = { instance };
+  const errors: Record<string, string> = {};
+  for (const v of template.vars) {
+    const value = Object.hasOwn(given, v.name)
+      ? given[v.name]
+      : substitute(v.default, values);
+    const error = checkValue(v, value);
+    if (error) errors[v.name] = error;
+    values[v.name] = value;
+  }
+  return { values, errors };
+}
+
+export function renderTemplate(
+  template: Template,
+  values: Record<string, string>,
+): string {
+  return substitute(template.body, values);
+}
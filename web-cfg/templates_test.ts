@@ -0,0 +1,89 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  checkInstance,
+  parseTemplate,
+  renderTemplate,
+  resolveValues,
+  templateTarget,
+} from "./templates.ts";
+
+const TEXT = `# Opus encoder
+# @var band: name = \${instance} -- Band, as used in stream names
+; @var blocktime: 10|20|40 = 20
+# @var bitrate: number = 24 -- kb/s
+PCM_IN=\${band}-pcm.local
+BLOCKTIME=\${blocktime}
+BITRATE=\${bitrate}
+ARGS="\${HOME}"
+`;
+
+Deno.test(function parsesTemplateVariables() {
+  const t = parseTemplate(TEXT);
+  assertEquals(t.vars, [
+    {
+      name: "band",
+      type: "name",
+      choices: [],
+      default: "${instance}",
+      description: "Band, as used in stream names",
+    },
+    {
+      name: "blocktime",
+      type: "choice",
+      choices: ["10", "20", "40"],
+      default: "20",
+      description: "",
+    },
+    {
+      name: "bitrate",
+      type: "number",
+      choices: [],
+      default: "24",
+      description: "kb/s",
+    },
+  ]);
+  assertEquals(t.body.split("\n")[0], "# Opus encoder");
+  assertThrows(() => parseTemplate("# @var x: colour = red"));
+  assertThrows(() => parseTemplate("# @var instance: name"));
+  assertThrows(() => parseTemplate("# @var broken"));
+});
+
+Deno.test(function rendersTemplates() {
+  const t = parseTemplate(TEXT);
+  const { values, errors } = resolveValues(t, { bitrate: "32" }, "23cm");
+  assertEquals(errors, {});
+  assertEquals(
+    renderTemplate(t, values),
+    `# Opus encoder
+PCM_IN=23cm-pcm.local
+BLOCKTIME=20
+BITRATE=32
+ARGS="\${HOME}"
+`,
+  );
+  assertEquals(
+    resolveValues(t, { blocktime: "15", bitrate: "x" }, "23cm").errors,
+    { blocktime: "Must be one of 10, 20, 40", bitrate: "Not a number" },
+  );
+  assertEquals(
+    resolveValues(t, {}, "bad name").errors,
+    { band: "Not a valid name" },
+  );
+});
+
+Deno.test(function checksInstancesAndTargets() {
+  assertEquals(checkInstance("23cm"), null);
+  assertEquals(checkInstance("cb-am.2"), null);
+  assertEquals(checkInstance(""), "An instance name is required");
+  assertEquals(typeof checkInstance("../x"), "string");
+  assertEquals(typeof checkInstance("a b"), "string");
+  assertEquals(
+    templateTarget("sub/opusd@.conf.template", "23cm"),
+    "sub/opusd@23cm.conf",
+  );
+  assertEquals(
+    templateTarget("radiod@airspy.conf.example", "2m"),
+    "radiod@2m.conf",
+  );
+  assertEquals(templateTarget("aprs.conf.template", "x"), "aprs@x.conf");
+});
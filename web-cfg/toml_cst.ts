@@ -0,0 +1,628 @@
+// toml_cst.ts
+// Lossless concrete syntax tree for TOML files. Every line keeps its raw
+// text (a multi-line string or array stays inside the line of its key), so
+// an unedited document serializes back byte for byte. patchToml() applies any
+// change to the data (values, added or removed keys, tables, arrays of
+// tables and array items) by rewriting only what changed; comments, blank
+// lines, key order, quoting and spacing of everything else are kept.
+
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import type { Json } from "./types.ts";
+
+// A path into the data: table keys, plus element indexes for [[arrays]].
+export type TomlPath = Array<string | number>;
+
+// A key = value pair. `before + literal + after === raw`.
+export interface TomlEntry {
+  kind: "entry";
+  raw: string;
+  table: TomlPath; // the enclosing table
+  keys: string[]; // the key as written; dotted keys have several parts
+  literal: string; // the value as spelled, possibly over several lines
+  before: string; // raw text up to the value
+  after: string; // raw text following the value (spacing + comment)
+}
+
+export type TomlLine =
+  | { kind: "blank" | "comment"; raw: string }
+  | { kind: "table"; raw: string; array: boolean; path: TomlPath }
+  | TomlEntry;
+
+export interface TomlDocument {
+  lines: TomlLine[];
+}
+
+const BARE_KEY_RE = /^[A-Za-z0-9_-]+$/;
+const DATETIME_RE =
+  /^(\d{4}-\d{2}-\d{2}([Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?)?|\d{2}:\d{2}:\d{2}(\.\d+)?)$/;
+
+// ---------------- Parsing ----------------
+
+function where(text: string, i: number): string {
+  return `line ${text.slice(0, i).split("\n").length}`;
+}
+
+function skipSpace(text: string, i: number): number {
+  while (text[i] === " " || text[i] === "\t") i++;
+  return i;
+}
+
+// Whitespace, newlines and comments between array items.
+function skipFiller(text: string, i: number): number {
+  while (i < text.length) {
+    if (/\s/.test(text[i])) i++;
+    else if (text[i] === "#") {
+      while (i < text.length && text[i] !== "\n") i++;
+    } else break;
+  }
+  return i;
+}
+
+function lineEnd(text: string, i: number): number {
+  const nl = text.indexOf("\n", i);
+  return nl === -1 ? text.length : nl;
+}
+
+// Index just past the string starting at `i` ("...", '...', """...""" or
+// '''...''').
+function scanString(text: string, i: number): number {
+  const q = text[i];
+  const triple = text.startsWith(q.repeat(3), i);
+  let j = i + (triple ? 3 : 1);
+  while (j < text.length) {
+    const c = text[j];
+    if (c === "\\" && q === '"') {
+      j += 2;
+      continue;
+    }
+    if (!triple && c === "\n") break;
+    if (triple ? text.startsWith(q.repeat(3), j) : c === q) {
+      j += triple ? 3 : 1;
+      // up to two quotes may end the content right before the delimiter
+      for (let n = 0; triple && n < 2 && text[j] === q; n++) j++;
+      return j;
+    }
+    j++;
+  }
+  throw new SyntaxError(`Unterminated string at ${where(text, i)}`);
+}
+
+// Index just past the value starting at `i`.
+function scanValue(text: string, i: number): number {
+  const c = text[i];
+  if (c === '"' || c === "'") return scanString(text, i);
+  if (c === "[" || c === "{") {
+    const close = c === "[" ? "]" : "}";
+    let j = i + 1;
+    while (j < text.length) {
+      const d = text[j];
+      if (d === close) return j + 1;
+      if (d === '"' || d === "'" || d === "[" || d === "{") {
+        j = scanValue(text, j);
+      } else if (d === "#") {
+        j = lineEnd(text, j);
+      } else {
+        j++;
+      }
+    }
+    throw new SyntaxError(`Unterminated ${c} at ${where(text, i)}`);
+  }
+  const bare = (from: number) => {
+    while (from < text.length && !/[\s,\]}#]/.test(text[from])) from++;
+    return from;
+  };
+  let j = bare(i);
+  // a date and a time may be separated by a space
+  if (
+    /^\d{4}-\d{2}-\d{2}$/.test(text.slice(i, j)) && text[j] === " " &&
+    /\d/.test(text[j + 1] ?? "")
+  ) {
+    j = bare(j + 1);
+  }
+  if (j === i) throw new SyntaxError(`Missing value at ${where(text, i)}`);
+  return j;
+}
+
+function decodeKey(literal: string): string {
+  return (toml.parse(`k = ${literal}`) as { k: string }).k;
+}
+
+// A (dotted) key starting at `i`; `end` is just past its last part.
+function scanKey(text: string, i: number): { keys: string[]; end: number } {
+  const keys: string[] = [];
+  while (true) {
+    i = skipSpace(text, i);
+    let end: number;
+    if (text[i] === '"' || text[i] === "'") {
+      end = scanString(text, i);
+      keys.push(decodeKey(text.slice(i, end)));
+    } else {
+      end = i;
+      while (end < text.length && BARE_KEY_RE.test(text[end])) end++;
+      if (end === i) throw new SyntaxError(`Invalid key at ${where(text, i)}`);
+      keys.push(text.slice(i, end));
+    }
+    const dot = skipSpace(text, end);
+    if (text[dot] !== ".") return { keys, end };
+    i = dot + 1;
+  }
+}
+
+function checkLineRest(text: string, from: number, to: number) {
+  if (!/^[ \t]*(#.*)?\r?$/.test(text.slice(from, to))) {
+    throw new SyntaxError(`Unexpected text at ${where(text, from)}`);
+  }
+}
+
+export function parseToml(text: string): TomlDocument {
+  const lines: TomlLine[] = [];
+  // element count of each array of tables seen so far
+  const arrays = new Map<string, number>();
+  const resolve = (keys: string[]): TomlPath => {
+    const out: TomlPath = [];
+    for (const k of keys) {
+      out.push(k);
+      const n = arrays.get(JSON.stringify(out));
+      if (n !== undefined) out.push(n - 1);
+    }
+    return out;
+  };
+  let table: TomlPath = [];
+  let pos = 0;
+  while (true) {
+    const start = pos;
+    const i = skipSpace(text, pos);
+    let eol = lineEnd(text, i);
+    const rest = text.slice(i, eol);
+    if (/^\r?$/.test(rest)) {
+      lines.push({ kind: "blank", raw: text.slice(start, eol) });
+    } else if (rest[0] === "#") {
+      lines.push({ kind: "comment", raw: text.slice(start, eol) });
+    } else if (rest[0] === "[") {
+      const array = rest[1] === "[";
+      const { keys, end } = scanKey(text, i + (array ? 2 : 1));
+      const close = skipSpace(text, end);
+      if (!text.startsWith(array ? "]]" : "]", close)) {
+        throw new SyntaxError(`Unterminated table header at ${where(text, i)}`);
+      }
+      checkLineRest(text, close + (array ? 2 : 1), eol);
+      if (array) {
+        const p = [...resolve(keys.slice(0, -1)), keys[keys.length - 1]];
+        const n = (arrays.get(JSON.stringify(p)) ?? 0) + 1;
+        arrays.set(JSON.stringify(p), n);
+        table = [...p, n - 1];
+      } else {
+        table = resolve(keys);
+      }
+      lines.push({
+        kind: "table",
+        raw: text.slice(start, eol),
+        array,
+        path: table,
+      });
+    } else {
+      const { keys, end } = scanKey(text, i);
+      let v = skipSpace(text, end);
+      if (text[v] !== "=") {
+        throw new SyntaxError(`Expected "=" at ${where(text, v)}`);
+      }
+      v = skipSpace(text, v + 1);
+      const valueEnd = scanValue(text, v);
+      eol = lineEnd(text, valueEnd);
+      checkLineRest(text, valueEnd, eol);
+      lines.push({
+        kind: "entry",
+        raw: text.slice(start, eol),
+        table,
+        keys,
+        literal: text.slice(v, valueEnd),
+        before: text.slice(start, v),
+        after: text.slice(valueEnd, eol),
+      });
+    }
+    if (eol >= text.length) break;
+    pos = eol + 1;
+  }
+  return { lines };
+}
+
+// Parsed data as plain Json: date-times become their ISO strings.
+export function parseTomlText(text: string): { [k: string]: Json } {
+  const plain = (v: unknown): Json => {
+    if (v instanceof Date) return v.toISOString();
+    if (Array.isArray(v)) return v.map(plain);
+    if (v !== null && typeof v === "object") {
+      return Object.fromEntries(
+        Object.entries(v).map(([k, x]) => [k, plain(x)]),
+      );
+    }
+    return v as Json;
+  };
+  return plain(toml.parse(text)) as { [k: string]: Json };
+}
+
+// ---------------- Writing ----------------
+
+export function serializeToml(doc: TomlDocument): string {
+  return doc.lines.map((l) => l.raw).join("\n");
+}
+
+function escapeBasic(s: string, multiline: boolean): string {
+  // deno-lint-ignore no-control-regex
+  const out = s.replace(/[\\"\u0000-\u001f\u007f]/g, (c) => {
+    if (c === "\\") return "\\\\";
+    if (c === '"') return multiline ? c : '\\"';
+    if (c === "\n") return multiline ? c : "\\n";
+    if (c === "\t") return multiline ? c : "\\t";
+    if (c === "\r") return "\\r";
+    return `\\u${c.charCodeAt(0).toString(16).padStart(4, "0")}`;
+  });
+  return multiline ? out.replace(/"""/g, '""\\"') : out;
+}
+
+// Quote a string in the style of `literal` (the value it replaces) where
+// that style can hold it.
+function formatString(s: string, literal: string): string {
+  const nl = /^("""|''')\r?\n/.exec(literal)?.[0].slice(3) ?? "";
+  if (literal.startsWith("'''") && !s.includes("'''") && !/\r/.test(s)) {
+    return `'''${nl}${s}'''`;
+  }
+  if (literal.startsWith('"""')) return `"""${nl}${escapeBasic(s, true)}"""`;
+  // deno-lint-ignore no-control-regex
+  if (literal.startsWith("'") && !/['\u0000-\u001f\u007f]/.test(s)) {
+    return `'${s}'`;
+  }
+  return `"${escapeBasic(s, false)}"`;
+}
+
+export function formatKey(k: string): string {
+  return BARE_KEY_RE.test(k) ? k : formatString(k, '"');
+}
+
+// Format a value for the file, following the spelling of `literal` (the
+// value it replaces) where there is one.
+export function formatTomlValue(v: Json, literal = ""): string {
+  if (v === null) return '""';
+  if (typeof v === "boolean") return String(v);
+  if (typeof v === "number") {
+    if (Number.isNaN(v)) return "nan";
+    if (!Number.isFinite(v)) return v > 0 ? "inf" : "-inf";
+    // a float written as 1 would read back as an integer
+    const float = /[.eE]|inf|nan/.test(literal) && !/^0x/i.test(literal);
+    return Number.isInteger(v) && float ? `${v}.0` : String(v);
+  }
+  if (Array.isArray(v)) {
+    return `[${v.map((x) => formatTomlValue(x)).join(", ")}]`;
+  }
+  if (typeof v === "object") {
+    const body = Object.entries(v)
+      .map(([k, x]) => `${formatKey(k)} = ${formatTomlValue(x)}`)
+      .join(", ");
+    return body ? `{ ${body} }` : "{}";
+  }
+  // date-times that were bare stay bare
+  if (DATETIME_RE.test(v) && literal !== "" && !/^["']/.test(literal)) {
+    return v;
+  }
+  return formatString(v, literal);
+}
+
+function sameValue(a: Json | undefined, b: Json | undefined): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isTable(v: Json | undefined): v is { [k: string]: Json } {
+  return v !== null && typeof v === "object" && !Array.isArray(v);
+}
+
+function isTableArray(v: Json | undefined): v is { [k: string]: Json }[] {
+  return Array.isArray(v) && v.length > 0 && v.every(isTable);
+}
+
+function startsWith(p: TomlPath, prefix: TomlPath): boolean {
+  return prefix.every((s, i) => p[i] === s);
+}
+
+function samePath(a: TomlPath, b: TomlPath): boolean {
+  return a.length === b.length && startsWith(a, b);
+}
+
+function fullPath(l: TomlEntry): TomlPath {
+  return [...l.table, ...l.keys];
+}
+
+// ---------------- Arrays ----------------
+
+// One array item with the filler (spacing, newlines, comments) in front of
+// it and the spacing before its comma.
+interface ArrayItem {
+  lead: string;
+  literal: string;
+  trail: string;
+  comma: boolean;
+}
+
+function splitArray(literal: string): { items: ArrayItem[]; tail: string } {
+  const items: ArrayItem[] = [];
+  let i = 1;
+  while (true) {
+    const leadStart = i;
+    i = skipFiller(literal, i);
+    if (literal[i] === "]") return { items, tail: literal.slice(leadStart, i) };
+    const end = scanValue(literal, i);
+    const next = skipFiller(literal, end);
+    const comma = literal[next] === ",";
+    items.push({
+      lead: literal.slice(leadStart, i),
+      literal: literal.slice(i, end),
+      trail: comma ? literal.slice(end, next) : "",
+      comma,
+    });
+    i = comma ? next + 1 : end;
+  }
+}
+
+// Filler for an added item: the line break and indent of the last item,
+// or a space for single-line arrays.
+function itemLead(items: ArrayItem[]): string {
+  if (!items.length) return "";
+  const sample = items[items.length - 1].lead;
+  const nl = sample.lastIndexOf("\n");
+  if (nl === -1) return items.length > 1 ? sample : " ";
+  return (sample[nl - 1] === "\r" ? "\r" : "") + sample.slice(nl);
+}
+
+function patchArray(literal: string, old: Json[], next: Json[]): string {
+  const { items, tail } = splitArray(literal);
+  const trailingComma = items.length > 0 && items[items.length - 1].comma;
+  const kept = Math.min(items.length, next.length);
+  for (let i = 0; i < kept; i++) {
+    items[i].literal = patchLiteral(items[i].literal, old[i], next[i]);
+  }
+  items.splice(next.length);
+  for (let i = kept; i < next.length; i++) {
+    const like = items[items.length - 1]?.literal ?? "";
+    items.push({
+      lead: itemLead(items),
+      literal: formatTomlValue(next[i], like),
+      trail: "",
+      comma: false,
+    });
+  }
+  items.forEach((it, i) => {
+    it.comma = i < items.length - 1 || trailingComma;
+  });
+  const body = items.map((it) =>
+    it.lead + it.literal + it.trail + (it.comma ? "," : "")
+  );
+  return `[${body.join("")}${tail}]`;
+}
+
+function patchLiteral(
+  literal: string,
+  old: Json | undefined,
+  next: Json,
+): string {
+  if (sameValue(old, next)) return literal;
+  if (Array.isArray(old) && Array.isArray(next) && literal.startsWith("[")) {
+    return patchArray(literal, old, next);
+  }
+  return formatTomlValue(next, literal);
+}
+
+// ---------------- Patching ----------------
+
+// Lines for a new table (or array of tables) at `keys`: its own keys first,
+// then its sub-tables.
+function tableLines(keys: string[], value: Json): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((el, i) => [
+      ...(i ? [""] : []),
+      ...tableBody(keys, el as { [k: string]: Json }, true),
+    ]);
+  }
+  return tableBody(keys, value as { [k: string]: Json }, false);
+}
+
+function tableBody(
+  keys: string[],
+  obj: { [k: string]: Json },
+  array: boolean,
+): string[] {
+  const name = keys.map(formatKey).join(".");
+  const out = [array ? `[[${name}]]` : `[${name}]`];
+  const subs: Array<[string, Json]> = [];
+  for (const [k, v] of Object.entries(obj)) {
+    if (isTable(v) || isTableArray(v)) subs.push([k, v]);
+    else out.push(`${formatKey(k)} = ${formatTomlValue(v)}`);
+  }
+  for (const [k, v] of subs) out.push("", ...tableLines([...keys, k], v));
+  return out;
+}
+
+// Apply every difference between the document and `data`. Values are
+// rewritten in place in their original spelling, removed keys and tables
+// take their lines with them, and added keys go after the last key of their
+// table (new tables after the last table of their parent), so untouched
+// lines come out exactly as they were.
+export function patchToml(
+  doc: TomlDocument,
+  data: Json,
+): { text: string; patched: boolean } {
+  if (!isTable(data)) throw new Error("A TOML document must be a table");
+  const original = serializeToml(doc);
+  const cr = original.includes("\r\n") ? "\r" : "";
+  let lines = doc.lines.slice();
+
+  // Replace `count` lines at `at` with new raw lines and re-parse, so table
+  // paths (and array-of-tables indexes) stay right after structural edits.
+  const splice = (at: number, count: number, raws: string[]) => {
+    const all = lines.map((l) => l.raw);
+    all.splice(at, count, ...raws);
+    lines = parseToml(all.join("\n")).lines;
+  };
+
+  // A table header with the comments directly above it, through its body;
+  // comments directly above the next header belong to that header.
+  const blockSpan = (i: number): [number, number] => {
+    let start = i;
+    while (start > 0 && lines[start - 1].kind === "comment") start--;
+    if (start > 0 && lines[start - 1].kind !== "blank") start = i;
+    let end = i + 1;
+    while (end < lines.length && lines[end].kind !== "table") end++;
+    if (end < lines.length) {
+      let pre = end;
+      while (pre > i + 1 && lines[pre - 1].kind === "comment") pre--;
+      if (pre < end && lines[pre - 1].kind === "blank") end = pre;
+    } else if (
+      lines[end - 1].kind === "blank" &&
+      (start === 0 || lines[start - 1].kind !== "blank")
+    ) {
+      end--; // keep the final newline
+    }
+    return [start, end];
+  };
+
+  // Where the header at `i` starts, counting its comment preamble.
+  const preambleStart = (i: number): number => {
+    const [start] = blockSpan(i);
+    return start;
+  };
+
+  // Insert lines, keeping a blank line between them and their neighbours.
+  const insertBlock = (at: number, block: string[]) => {
+    const raws = [...block];
+    if (at > 0 && lines[at - 1].kind !== "blank") raws.unshift("");
+    if (at < lines.length && lines[at].kind !== "blank") raws.push("");
+    splice(at, 0, raws.map((r) => r + cr));
+  };
+
+  const removeTree = (path: TomlPath) => {
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const l = lines[i];
+      if (l.kind === "table" && startsWith(l.path, path)) {
+        const [start, end] = blockSpan(i);
+        splice(start, end - start, []);
+        i = start;
+      } else if (l.kind === "entry" && startsWith(fullPath(l), path)) {
+        splice(i, 1, []);
+      }
+    }
+  };
+
+  const insertEntry = (parent: TomlPath, key: string, value: Json) => {
+    // after the last key of the table, dotted keys that lead into it included
+    let at = -1;
+    let sample: TomlEntry | undefined;
+    lines.forEach((l, i) => {
+      if (
+        l.kind === "entry" && l.table.length <= parent.length &&
+        fullPath(l).length > parent.length && startsWith(fullPath(l), parent)
+      ) {
+        at = i + 1;
+        sample = l;
+      }
+    });
+    const table = sample?.table ?? parent;
+    const keys = [...parent.slice(table.length), key]
+      .map((k) => formatKey(String(k)))
+      .join(".");
+    const style = sample ?? lines.find((l) => l.kind === "entry") as
+      | TomlEntry
+      | undefined;
+    const m = style?.before.match(/^([ \t]*)[\s\S]*?([ \t]*=[ \t]*)$/);
+    const indent = sample ? m?.[1] ?? "" : "";
+    const line = `${indent}${keys}${m?.[2] ?? " = "}${formatTomlValue(value)}`;
+    if (at !== -1) return splice(at, 0, [line + cr]);
+
+    const header = lines.findIndex((l) =>
+      l.kind === "table" && samePath(l.path, parent)
+    );
+    if (header !== -1) return splice(header + 1, 0, [line + cr]);
+
+    // no header: root keys go above the first table; any other table is
+    // only implied by its sub-tables, so it gets a header before them
+    const first = lines.findIndex((l) =>
+      l.kind === "table" && startsWith(l.path, parent)
+    );
+    if (parent.length === 0) {
+      let pos = first === -1 ? lines.length : preambleStart(first);
+      while (pos > 0 && lines[pos - 1].kind === "blank") pos--;
+      const raws = [line + cr];
+      if (pos < lines.length && lines[pos].kind !== "blank") raws.push(cr);
+      return splice(pos, 0, raws);
+    }
+    const name = parent.filter((s) => typeof s === "string") as string[];
+    insertBlock(
+      first === -1 ? lines.length : preambleStart(first),
+      [`[${name.map(formatKey).join(".")}]`, line],
+    );
+  };
+
+  // New tables go after the last line of the `anchor` table (by default the
+  // parent) and its sub-tables.
+  const insert = (path: TomlPath, value: Json, anchor = path.slice(0, -1)) => {
+    const parent = path.slice(0, -1);
+    if (isTable(value) || isTableArray(value)) {
+      let at = -1;
+      lines.forEach((l, i) => {
+        if (
+          (l.kind === "table" && startsWith(l.path, anchor)) ||
+          (l.kind === "entry" && startsWith(fullPath(l), anchor))
+        ) {
+          at = i + 1;
+        }
+      });
+      if (at === -1) {
+        at = lines.length;
+        while (at > 0 && lines[at - 1].kind === "blank") at--;
+      }
+      const keys = path.filter((s) => typeof s === "string") as string[];
+      insertBlock(at, tableLines(keys, value));
+    } else {
+      insertEntry(parent, String(path[path.length - 1]), value);
+    }
+  };
+
+  const patchNode = (
+    path: TomlPath,
+    old: Json | undefined,
+    next: Json | undefined,
+  ) => {
+    if (sameValue(old, next)) return;
+    const at = lines.findIndex((l) =>
+      l.kind === "entry" && samePath(fullPath(l), path)
+    );
+    if (at !== -1) {
+      const l = lines[at] as TomlEntry;
+      if (next === undefined) return splice(at, 1, []);
+      const literal = patchLiteral(l.literal, old, next);
+      lines[at] = { ...l, literal, raw: l.before + literal + l.after };
+      return;
+    }
+    if (old === undefined) return insert(path, next!);
+    if (isTable(old) && isTable(next)) {
+      const keys = new Set([...Object.keys(old), ...Object.keys(next)]);
+      for (const k of keys) patchNode([...path, k], old[k], next[k]);
+      return;
+    }
+    if (isTableArray(old) && isTableArray(next)) {
+      for (let i = old.length - 1; i >= next.length; i--) {
+        removeTree([...path, i]);
+      }
+      for (let i = 0; i < Math.min(old.length, next.length); i++) {
+        patchNode([...path, i], old[i], next[i]);
+      }
+      if (next.length > old.length) {
+        insert(path, next.slice(old.length), path);
+      }
+      return;
+    }
+    removeTree(path);
+    if (next !== undefined) insert(path, next);
+  };
+
+  patchNode([], parseTomlText(original), data);
+  const text = serializeToml({ lines });
+  return { text, patched: text !== original };
+}
@@ -0,0 +1,137 @@
+import { assertEquals } from "@std/assert";
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import {
+  formatTomlValue,
+  parseToml,
+  parseTomlText,
+  patchToml,
+  serializeToml,
+} from "./toml_cst.ts";
+import type { Json } from "./types.ts";
+
+const SAMPLE = `# station settings
+title = "web-cfg"   # shown in the header
+when = 1979-05-27 07:32:00Z
+
+[server]
+host = 'localhost'
+ports = [
+  8001, # primary
+  8002,
+]
+"odd key" = 1.5
+
+# upstream receivers
+[[receiver]]
+name = "hf"
+bands = ["40m", "20m"]
+
+[[receiver]]
+name = "vhf"
+
+[receiver.limits]
+low = 144
+`;
+
+// patch a copy of the sample's data and check the result parses to it
+function edit(change: (data: { [k: string]: Json }) => void): string {
+  const data = parseTomlText(SAMPLE);
+  change(data);
+  const { text } = patchToml(parseToml(SAMPLE), data);
+  assertEquals(parseTomlText(text), data);
+  return text;
+}
+
+Deno.test(function roundTripsUnchanged() {
+  assertEquals(serializeToml(parseToml(SAMPLE)), SAMPLE);
+  const result = patchToml(parseToml(SAMPLE), parseTomlText(SAMPLE));
+  assertEquals(result, { text: SAMPLE, patched: false });
+  const crlf = SAMPLE.replaceAll("\n", "\r\n");
+  assertEquals(serializeToml(parseToml(crlf)), crlf);
+});
+
+Deno.test(function patchesValuesInTheirOwnStyle() {
+  const text = edit((d) => {
+    const server = d.server as { [k: string]: Json };
+    server.host = "example.org";
+    server["odd key"] = 2;
+    d.title = 'say "hi"';
+  });
+  assertEquals(
+    text,
+    SAMPLE.replace("'localhost'", "'example.org'")
+      .replace('"odd key" = 1.5', '"odd key" = 2.0')
+      .replace('"web-cfg"', '"say \\"hi\\""'),
+  );
+});
+
+Deno.test(function editsArrayItemsInPlace() {
+  const text = edit((d) => {
+    (d.server as { [k: string]: Json }).ports = [8001, 8003, 8004];
+    const hf = (d.receiver as { [k: string]: Json }[])[0];
+    hf.bands = ["40m"];
+  });
+  assertEquals(
+    text,
+    SAMPLE.replace("  8002,\n", "  8003,\n  8004,\n")
+      .replace('["40m", "20m"]', '["40m"]'),
+  );
+});
+
+Deno.test(function addsAndRemovesKeys() {
+  const text = edit((d) => {
+    delete d.when;
+    d.version = 2;
+    (d.server as { [k: string]: Json }).tls = true;
+    const vhf = (d.receiver as { [k: string]: Json }[])[1];
+    vhf.gain = 10;
+  });
+  assertEquals(
+    text,
+    SAMPLE.replace("when = 1979-05-27 07:32:00Z\n", "version = 2\n")
+      .replace('"odd key" = 1.5\n', '"odd key" = 1.5\ntls = true\n')
+      .replace('name = "vhf"\n', 'name = "vhf"\ngain = 10\n'),
+  );
+});
+
+Deno.test(function addsAndRemovesTables() {
+  const text = edit((d) => {
+    delete d.server;
+    d.log = { level: "debug", file: { path: "/tmp/x.log" } };
+    (d.receiver as Json[]).push({ name: "uhf" });
+  });
+  assertEquals(
+    text,
+    SAMPLE.replace(/\[server\][\s\S]*?\n\n/, "")
+      .replace(
+        "low = 144\n",
+        'low = 144\n\n[[receiver]]\nname = "uhf"\n\n' +
+          '[log]\nlevel = "debug"\n\n[log.file]\npath = "/tmp/x.log"\n',
+      ),
+  );
+
+  // array-of-tables elements are matched by position
+  const dropped = edit((d) => {
+    (d.receiver as Json[]).splice(0, 1);
+  });
+  assertEquals(
+    dropped,
+    SAMPLE.slice(0, SAMPLE.indexOf("[[receiver]]")) +
+      '[[receiver]]\nname = "vhf"\n\n[receiver.limits]\nlow = 144\n',
+  );
+});
+
+Deno.test(function formatsValuesLikeTheOriginal() {
+  assertEquals(formatTomlValue("a'b", "'x'"), '"a\'b"');
+  assertEquals(
+    formatTomlValue("two\nlines", '"""\nx"""'),
+    '"""\ntwo\nlines"""',
+  );
+  assertEquals(formatTomlValue(3, "1e3"), "3.0");
+  assertEquals(formatTomlValue(3, "0x10"), "3");
+  assertEquals(formatTomlValue({ a: [1, "b c"] }), '{ a = [1, "b c"] }');
+  assertEquals(
+    toml.parse(`x = ${formatTomlValue("tab\there")}`).x,
+    "tab\there",
+  );
+});
@@ -0,0 +1,11 @@
+// types.ts
+// Types shared by the server and the format modules.
+
+// Parsed configuration tree, as rendered into and read back from the form.
+export type Json =
+  | null
+  | boolean
+  | number
+  | string
+  | Json[]
+  | { [k: string]: Json };
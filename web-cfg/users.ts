@@ -0,0 +1,315 @@
+// users.ts
+// Accounts for the web UI and API, listed in a TOML file given with
+// --users=FILE. Like the hooks file it must live outside --root, so that
+// nobody can grant themselves more through the editor:
+//
+//   [user.alice]
+//   role = "admin"              # viewer, editor or admin
+//   password = "pbkdf2-sha256$600000$..."   # set with `main.ts passwd`
+//
+//   [user.bob]
+//   role = "viewer"
+//   password = "pbkdf2-sha256$600000$..."
+//   [[user.bob.access]]         # optional; the first rule that matches wins
+//   files = ["radiod@*.conf"]   # globs, as in hooks; "dir/" is all under dir
+//   access = "write"            # none, read or write
+//
+// A viewer may read every file and an editor change every file, unless one
+// of their access rules says otherwise; an admin may do anything, including
+// creating, renaming and deleting folders. Passwords are stored as salted
+// PBKDF2-SHA256 hashes and checked in constant time. The file is re-read
+// whenever it changes, so `main.ts useradd` and `main.ts passwd` take effect
+// without a restart.
+
+import * as path from "https://deno.land/std@0.224.0/path/mod.ts";
+import * as toml from "https://deno.land/std@0.224.0/toml/mod.ts";
+import { writeFileAtomic } from "./atomic_write.ts";
+import { BACKUP_DIR } from "./backups.ts";
+import { parseToml, parseTomlText, patchToml } from "./toml_cst.ts";
+import type { Json } from "./types.ts";
+
+export type Role = "viewer" | "editor" | "admin";
+export type Access = "none" | "read" | "write";
+
+export const ROLES: Role[] = ["viewer", "editor", "admin"];
+const ACCESS: Access[] = ["none", "read", "write"];
+
+export interface AccessRule {
+  files: string[]; // globs; without a "/" they match the file name
+  access: Access;
+}
+
+export interface User {
+  name: string;
+  role: Role;
+  password: string; // the stored hash; "" for accounts not from the file
+  access: AccessRule[];
+}
+
+const NAME_RE = /^[\w.@-]+$/;
+const SCHEME = "pbkdf2-sha256";
+export const ITERATIONS = 600_000;
+
+// ---------------- Passwords ----------------
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(s: string): Uint8Array {
+  return Uint8Array.from(atob(s), (c) => c.charCodeAt(0));
+}
+
+async function sha256(text: string): Promise<Uint8Array> {
+  const bytes = new TextEncoder().encode(text);
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+async function pbkdf2(
+  password: string,
+  salt: Uint8Array,
+  iterations: number,
+): Promise<Uint8Array> {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: new Uint8Array(salt), iterations },
+    key,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+// Compares every byte whatever the first difference, so the time taken
+// doesn't tell how much of a guess was right.
+export function timingSafeEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+}
+
+// "pbkdf2-sha256$<iterations>$<salt>$<hash>", salt and hash in base64.
+export async function hashPassword(
+  password: string,
+  iterations = ITERATIONS,
+): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const hash = await pbkdf2(password, salt, iterations);
+  return [SCHEME, iterations, toBase64(salt), toBase64(hash)].join("$");
+}
+
+// Basic Auth sends the password with every request, and PBKDF2 is slow on
+// purpose: once a password has been checked against a stored hash, later
+// requests compare a plain SHA-256 of it instead. A new hash (a reset
+// password) starts over.
+const verified = new Map<string, Uint8Array>();
+
+export async function verifyPassword(
+  password: string,
+  stored: string,
+): Promise<boolean> {
+  const seen = verified.get(stored);
+  if (seen) return timingSafeEqual(await sha256(password), seen);
+  const [scheme, iterations, salt, hash] = stored.split("$");
+  if (scheme !== SCHEME || !hash || !(Number(iterations) > 0)) return false;
+  const ok = timingSafeEqual(
+    await pbkdf2(password, fromBase64(salt), Number(iterations)),
+    fromBase64(hash),
+  );
+  if (ok) verified.set(stored, await sha256(password));
+  return ok;
+}
+
+// A hash no password matches, checked for unknown user names so that they
+// take as long to turn down as wrong passwords.
+let decoy: string | undefined;
+
+// The user `name` if `password` is theirs, else null.
+export async function checkLogin(
+  users: Map<string, User>,
+  name: string,
+  password: string,
+): Promise<User | null> {
+  const user = users.get(name);
+  if (!user) {
+    decoy ??= await hashPassword(crypto.randomUUID());
+    await verifyPassword(password, decoy);
+    return null;
+  }
+  return await verifyPassword(password, user.password) ? user : null;
+}
+
+// The name and password of an `Authorization: Basic ...` header. The name
+// ends at the first ":", so passwords may contain one.
+export function basicCredentials(
+  header: string | null,
+): { name: string; password: string } | null {
+  if (!header?.startsWith("Basic ")) return null;
+  let decoded: string;
+  try {
+    decoded = new TextDecoder().decode(
+      fromBase64(header.slice("Basic ".length).trim()),
+    );
+  } catch {
+    return null;
+  }
+  const idx = decoded.indexOf(":");
+  if (idx < 0) return null;
+  return { name: decoded.slice(0, idx), password: decoded.slice(idx + 1) };
+}
+
+// The --auth=user:pass account, checked the same constant-time way.
+export async function singleAccount(
+  name: string,
+  password: string,
+): Promise<(name: string, password: string) => Promise<User | null>> {
+  const wantName = await sha256(name);
+  const wantPassword = await sha256(password);
+  const user: User = { name, role: "admin", password: "", access: [] };
+  return async (n, p) => {
+    // both compared, so a right name alone takes no less time
+    const nameOk = timingSafeEqual(await sha256(n), wantName);
+    const passwordOk = timingSafeEqual(await sha256(p), wantPassword);
+    return nameOk && passwordOk ? user : null;
+  };
+}
+
+// ---------------- Loading ----------------
+
+const cache = new Map<string, { mtime: number; users: Map<string, User> }>();
+
+function parseRules(raw: unknown, where: string): AccessRule[] {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    throw new Error(`${where}: access must be an array of tables`);
+  }
+  return raw.map((r, i) => {
+    const at = `${where}, access rule ${i + 1}`;
+    if (!r || typeof r !== "object" || Array.isArray(r)) {
+      throw new Error(`${at} must be a table`);
+    }
+    const files = typeof r.files === "string" ? [r.files] : r.files;
+    if (
+      !Array.isArray(files) || !files.length ||
+      !files.every((f) => typeof f === "string")
+    ) {
+      throw new Error(`${at}: files must be a glob or an array of globs`);
+    }
+    if (!ACCESS.includes(r.access)) {
+      throw new Error(`${at}: access must be one of ${ACCESS.join(", ")}`);
+    }
+    return { files, access: r.access };
+  });
+}
+
+export function parseUsers(text: string): Map<string, User> {
+  const raw = toml.parse(text).user ?? {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("user must be a table of users");
+  }
+  const users = new Map<string, User>();
+  for (const [name, value] of Object.entries(raw)) {
+    const where = `user ${name}`;
+    if (!NAME_RE.test(name)) throw new Error(`${where}: invalid name`);
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw new Error(`${where} must be a table`);
+    }
+    const u = value as { role?: Role; password?: unknown; access?: unknown };
+    if (!u.role || !ROLES.includes(u.role)) {
+      throw new Error(`${where}: role must be one of ${ROLES.join(", ")}`);
+    }
+    if (typeof u.password !== "string" || !u.password.startsWith(SCHEME)) {
+      throw new Error(`${where}: password must be a ${SCHEME} hash`);
+    }
+    users.set(name, {
+      name,
+      role: u.role,
+      password: u.password,
+      access: parseRules(u.access, where),
+    });
+  }
+  return users;
+}
+
+export async function loadUsers(filePath: string): Promise<Map<string, User>> {
+  const st = await Deno.stat(filePath);
+  const mtime = st.mtime?.getTime() ?? 0;
+  const hit = cache.get(filePath);
+  if (hit && hit.mtime === mtime) return hit.users;
+  let users: Map<string, User>;
+  try {
+    users = parseUsers(await Deno.readTextFile(filePath));
+  } catch (e) {
+    throw new Error(`${filePath}: ${e instanceof Error ? e.message : e}`);
+  }
+  cache.set(filePath, { mtime, users });
+  return users;
+}
+
+// ---------------- Access ----------------
+
+function ruleMatches(rule: AccessRule, file: string): boolean {
+  return rule.files.some((glob) => {
+    if (glob.endsWith("/")) return file.startsWith(glob);
+    return path.globToRegExp(glob).test(
+      glob.includes("/") ? file : path.basename(file),
+    );
+  });
+}
+
+// The file a path under .backups keeps copies of: .backups/<file>/<id> and
+// .backups/<file>/upstream are <file>, and so is the folder .backups/<file>.
+function originalOf(rel: string): string {
+  const parts = rel.split(path.SEPARATOR).join("/").split("/");
+  if (parts[0] !== BACKUP_DIR) return parts.join("/");
+  return parts.slice(1, parts.length > 2 ? -1 : undefined).join("/");
+}
+
+// What `user` may do with the file `rel` (relative to --root). Backups are
+// the file they were made from, so rules about it cover them too.
+export function accessTo(user: User, rel: string): Access {
+  if (user.role === "admin") return "write";
+  const file = originalOf(rel);
+  const rule = user.access.find((r) => ruleMatches(r, file));
+  if (rule) return rule.access;
+  return user.role === "editor" ? "write" : "read";
+}
+
+// ---------------- Managing ----------------
+
+// Add the user `name`, or with `role` null give an existing one a new
+// password, keeping the rest of the file (comments included) as it was.
+export async function saveUser(
+  filePath: string,
+  name: string,
+  password: string,
+  role: Role | null,
+  iterations = ITERATIONS,
+) {
+  if (!NAME_RE.test(name)) {
+    throw new Error(`Invalid user name: ${name} (letters, digits, _.@-)`);
+  }
+  let text = "";
+  try {
+    text = await Deno.readTextFile(filePath);
+  } catch (e) {
+    if (!(e instanceof Deno.errors.NotFound)) throw e;
+  }
+  const users = parseUsers(text);
+  if (role && users.has(name)) throw new Error(`${name} already exists`);
+  if (!role && !users.has(name)) throw new Error(`No such user: ${name}`);
+
+  const data = parseTomlText(text);
+  const table = (data.user ??= {}) as { [k: string]: Json };
+  const hash = await hashPassword(password, iterations);
+  if (role) table[name] = { role, password: hash };
+  else (table[name] as { [k: string]: Json }).password = hash;
+  await writeFileAtomic(filePath, patchToml(parseToml(text), data).text);
+  if (!text) await Deno.chmod(filePath, 0o600);
+}
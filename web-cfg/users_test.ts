@@ -0,0 +1,129 @@
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+  accessTo,
+  basicCredentials,
+  checkLogin,
+  hashPassword,
+  parseUsers,
+  singleAccount,
+  verifyPassword,
+} from "./users.ts";
+
+Deno.test(async function hashesAndVerifiesPasswords() {
+  const hash = await hashPassword("s3:cr:et", 1000);
+  assertEquals(hash.startsWith("pbkdf2-sha256$1000$"), true);
+  assertEquals(await hashPassword("s3:cr:et", 1000) === hash, false); // salted
+  assertEquals(await verifyPassword("s3:cr:et", hash), true);
+  assertEquals(await verifyPassword("s3:cr:et", hash), true); // remembered
+  assertEquals(await verifyPassword("s3:cr", hash), false);
+  assertEquals(await verifyPassword("s3:cr:et", "plain"), false);
+
+  const users = parseUsers(
+    `[user.ann]\nrole = "admin"\npassword = "${hash}"\n`,
+  );
+  assertEquals((await checkLogin(users, "ann", "s3:cr:et"))?.name, "ann");
+  assertEquals(await checkLogin(users, "ann", "nope"), null);
+  assertEquals(await checkLogin(users, "bob", "s3:cr:et"), null);
+
+  const single = await singleAccount("admin", "a:b");
+  assertEquals((await single("admin", "a:b"))?.role, "admin");
+  assertEquals(await single("admin", "a"), null);
+  assertEquals(await single("admin:a", "b"), null);
+});
+
+Deno.test(function readsBasicCredentials() {
+  const header = (s: string) =>
+    "Basic " + btoa(String.fromCharCode(...new TextEncoder().encode(s)));
+  assertEquals(basicCredentials(header("ann:a:b:c")), {
+    name: "ann",
+    password: "a:b:c",
+  });
+  assertEquals(basicCredentials(header("ann:pässwörd")), {
+    name: "ann",
+    password: "pässwörd",
+  });
+  assertEquals(basicCredentials(header("ann")), null);
+  assertEquals(basicCredentials("Basic %%%"), null);
+  assertEquals(basicCredentials("Bearer x"), null);
+  assertEquals(basicCredentials(null), null);
+});
+
+Deno.test(function appliesRolesAndAccessRules() {
+  const users = parseUsers(`
+[user.ann]
+role = "admin"
+password = "pbkdf2-sha256$1$AA==$AA=="
+[[user.ann.access]]
+files = "*"
+access = "none"
+
+[user.bob]
+role = "viewer"
+password = "pbkdf2-sha256$1$AA==$AA=="
+[[user.bob.access]]
+files = ["radiod@*.conf", "sites/north/"]
+access = "write"
+
+[user.cy]
+role = "editor"
+password = "pbkdf2-sha256$1$AA==$AA=="
+[[user.cy.access]]
+files = "secrets/"
+access = "none"
+[[user.cy.access]]
+files = "sites/*/radiod@*.conf"
+access = "read"
+`);
+  const ann = users.get("ann")!;
+  const bob = users.get("bob")!;
+  const cy = users.get("cy")!;
+  assertEquals(accessTo(ann, "secrets/a.conf"), "write"); // admins: anything
+  assertEquals(accessTo(bob, "hf/radiod@hf.conf"), "write");
+  assertEquals(accessTo(bob, "sites/north/x/aprs.conf"), "write");
+  assertEquals(accessTo(bob, "sites/northern/aprs.conf"), "read");
+  assertEquals(accessTo(bob, "aprs.conf"), "read");
+  assertEquals(accessTo(cy, "secrets/a.conf"), "none");
+  assertEquals(accessTo(cy, "sites/a/radiod@hf.conf"), "read");
+  assertEquals(accessTo(cy, "radiod@hf.conf"), "write");
+
+  // backups are as closed as the file they were made from
+  const dee = parseUsers(`
+[user.dee]
+role = "viewer"
+password = "pbkdf2-sha256$1$AA==$AA=="
+[[user.dee.access]]
+files = ["secret.conf", "private/"]
+access = "none"
+`).get("dee")!;
+  assertEquals(accessTo(dee, ".backups/secret.conf/upstream"), "none");
+  assertEquals(
+    accessTo(dee, ".backups/secret.conf/20261019T123005.123Z"),
+    "none",
+  );
+  assertEquals(accessTo(dee, ".backups/secret.conf"), "none");
+  assertEquals(accessTo(dee, ".backups/private/a.conf/upstream"), "none");
+  assertEquals(accessTo(dee, ".backups/aprs.conf/upstream"), "read");
+
+  assertThrows(
+    () => parseUsers(`[user.x]\nrole = "root"\npassword = "p"\n`),
+    Error,
+    "user x: role must be one of viewer, editor, admin",
+  );
+  assertThrows(
+    () => parseUsers(`[user.x]\nrole = "viewer"\npassword = "plain"\n`),
+    Error,
+    "password must be a pbkdf2-sha256 hash",
+  );
+  assertThrows(
+    () =>
+      parseUsers(`[user.x]
+role = "viewer"
+password = "pbkdf2-sha256$1$AA==$AA=="
+[[user.x.access]]
+files = "*.conf"
+access = "all"
+`),
+    Error,
+    "access rule 1: access must be one of none, read, write",
+  );
+});